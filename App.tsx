@@ -1,124 +1,569 @@
-import React, { useState, useMemo } from 'react';
-import { FilmSample, AnalysisSummary, AnalysisStep, SavedRun, HighlandParams } from './types';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { FilmSample, AnalysisSettings, AnalysisStep, SavedRun, HighlandParams, BeamSettings, ParticleId, ScatteringSettings, BackgroundSettings, FilmRegion, PixelScale, CalibrationCurve, AirBaseline, AirBaselinePoint, Material, GaussianFitResult, MeasurementUncertainties, PropagationMethod, ThetaMethod, LinearFitModel, SessionState, StoredSession } from './types';
 import FilmAnalyzer from './components/FilmAnalyzer';
 import ResultsTable from './components/ResultsTable';
 import ComparisonView from './components/ComparisonView';
-import { calculateHighlandTheta } from './utils/physics';
-
-// Initialize 10 empty slots
-const INITIAL_FILMS: FilmSample[] = Array.from({ length: 10 }, (_, i) => ({
-  id: i + 1,
-  distanceL: (i + 1) * 100, // Default increments of 100mm, user can change
-  airImageSrc: null,
-  airSigma: null,
-  materialImageSrc: null,
-  materialSigma: null
-}));
+import CalibrationManager from './components/CalibrationManager';
+import AirBaselineManager from './components/AirBaselineManager';
+import SessionManager from './components/SessionManager';
+import MaterialPicker from './components/MaterialPicker';
+import ScatteringModelPanel from './components/ScatteringModelPanel';
+import BackgroundManager from './components/BackgroundManager';
+import AnalysisSettingsPanel from './components/AnalysisSettingsPanel';
+import BatchImport from './components/BatchImport';
+import { SAMPLE_SIZE, SCAN_FILE_TYPES } from './utils/physics';
+import { isTiffSource, readTiffSource, fullResolutionPages, withTiffPage } from './utils/tiff';
+import { scaleFromMetadata } from './utils/scanMetadata';
+import { predictAll, primaryPrediction, thickTargetScattering, scatteringInput } from './utils/scattering';
+import { loadCalibrationCurves, saveCalibrationCurves } from './utils/calibration';
+import { loadAirBaselines, saveAirBaselines } from './utils/airBaseline';
+import { groupByDistance, newFilm, nextFilmId, remapExclusions } from './utils/stations';
+import { PARTICLES, getParticle, beamKinematics } from './utils/kinematics';
+import { MATERIAL_LIBRARY, loadCustomMaterials, saveCustomMaterials, radLengthCm } from './utils/materials';
+import { summarizeSession } from './utils/summary';
+import * as db from './utils/db';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { downloadFile, safeFileName } from './utils/download';
+import { exportSummary, ExportFormat } from './utils/export';
+import { DEFAULT_SESSION_STATE, DEFAULT_STATION_STEP, restoreSessionState } from './utils/session';
+
+// Longest analysed edge in px; 0 analyses the scan at full resolution
+const ANALYSIS_RESOLUTIONS = [
+  { value: SAMPLE_SIZE, label: `${SAMPLE_SIZE} px (fast preview)` },
+  { value: 600, label: '600 px' },
+  { value: 1200, label: '1200 px' },
+  { value: 0, label: 'Full resolution' }
+];
+
+const AUTOSAVE_DELAY = 800; // ms of inactivity before the session is written to IndexedDB
+
+const newSession = (name: string, state: SessionState = DEFAULT_SESSION_STATE): StoredSession => ({
+  id: Date.now().toString(),
+  name,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  state
+});
 
 export default function App() {
   // Config
-  const [pixelToMm, setPixelToMm] = useState<number>(0.2); 
+  const [pixelToMm, setPixelToMm] = useState<number>(DEFAULT_SESSION_STATE.pixelToMm); 
+  const [analysisMaxSize, setAnalysisMaxSize] = useState<number>(DEFAULT_SESSION_STATE.analysisMaxSize);
   const [currentTab, setCurrentTab] = useState<AnalysisStep>(AnalysisStep.SETUP);
-  const [materialName, setMaterialName] = useState<string>("Unknown Material");
+  const [materialName, setMaterialName] = useState<string>(DEFAULT_SESSION_STATE.materialName);
   
   // Physics Params for Highland
-  const [highlandParams, setHighlandParams] = useState<HighlandParams>({
-    thickness: 1.0, // cm
-    density: 1.0, // g/cm^3
-    radLength: 36.08, // cm (approx water/tissue as default)
-    momentum: 150, // MeV/c
-    beta: 0.5 // v/c
-  });
+  const [highlandParams, setHighlandParams] = useState<HighlandParams>(DEFAULT_SESSION_STATE.highlandParams);
+  const [beam, setBeam] = useState<BeamSettings>(DEFAULT_SESSION_STATE.beam);
+  const kinematics = useMemo(() => beamKinematics(beam), [beam]);
+
+  // Multiple-scattering models predicting theta0 from the material and beam
+  const [scattering, setScattering] = useState<ScatteringSettings>(DEFAULT_SESSION_STATE.scattering);
+
+  // Reference scans and subtraction applied to every film before fitting
+  const [background, setBackground] = useState<BackgroundSettings>(DEFAULT_SESSION_STATE.background);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_SESSION_STATE.analysisSettings);
+
+  // Material library (custom compounds are shared across sessions, selection is per session)
+  const [customMaterials, setCustomMaterials] = useState<Material[]>(loadCustomMaterials);
+  const [materialId, setMaterialId] = useState<string | null>(DEFAULT_SESSION_STATE.materialId);
+  const materials = useMemo(() => [...MATERIAL_LIBRARY, ...customMaterials], [customMaterials]);
+  const selectedMaterial = useMemo(() => materials.find(m => m.id === materialId) ?? null, [materials, materialId]);
+
+  // Measurement uncertainties (1σ) propagated into sigma_corrected, theta and theta_RMS
+  const [uncertainties, setUncertainties] = useState<MeasurementUncertainties>(DEFAULT_SESSION_STATE.uncertainties);
+
+  // Experimental theta: RMS of sigma/L or slope of the sigma vs L fit
+  const [thetaMethod, setThetaMethod] = useState<ThetaMethod>(DEFAULT_SESSION_STATE.thetaMethod);
+  const [fitModel, setFitModel] = useState<LinearFitModel>(DEFAULT_SESSION_STATE.fitModel);
 
   // Data
-  const [films, setFilms] = useState<FilmSample[]>(INITIAL_FILMS);
+  // Film stations and the results rows (by distance) the user left out of θ, in one state so that
+  // moving or removing a station remaps the exclusions from the same film list it changed
+  const [stations, setStations] = useState<Pick<SessionState, 'films' | 'excludedDistances'>>(() => ({
+    films: DEFAULT_SESSION_STATE.films,
+    excludedDistances: DEFAULT_SESSION_STATE.excludedDistances
+  }));
+  const { films, excludedDistances } = stations;
+  const setFilms = useCallback((update: React.SetStateAction<FilmSample[]>) => setStations(prev => ({
+    ...prev,
+    films: typeof update === 'function' ? update(prev.films) : update
+  })), []);
+  const updateStations = (update: (films: FilmSample[]) => FilmSample[]) => setStations(prev => {
+    const next = update(prev.films);
+    return { films: next, excludedDistances: remapExclusions(prev.excludedDistances, prev.films, next) };
+  });
+  // Fits and sensitivity-scan systematics only hold for the settings they were computed with. These
+  // are changed on Setup, where no analyzer is mounted, so drop the widths: Data Entry re-runs the
+  // analyses when it mounts, and until then the results report the scans as not analysed
+  const clearAnalyses = () => setFilms(prev => prev.some(f => f.airSigma !== null || f.materialSigma !== null || f.airSystematic || f.materialSystematic)
+    ? prev.map(f => ({ ...f, airSigma: null, airFit: null, materialSigma: null, materialFit: null, airSystematic: null, materialSystematic: null }))
+    : prev);
+  const changingAnalysis = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    clearAnalyses();
+  };
   
   // Persistence state
   const [savedRuns, setSavedRuns] = useState<SavedRun[]>([]);
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [currentSession, setCurrentSession] = useState<Omit<StoredSession, 'state' | 'updatedAt'> | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+
+  // Dose calibration (curves are shared across sessions, selection is per session)
+  const [calibrationCurves, setCalibrationCurves] = useState<CalibrationCurve[]>(loadCalibrationCurves);
+  const [activeCalibrationId, setActiveCalibrationId] = useState<string | null>(DEFAULT_SESSION_STATE.activeCalibrationId);
+  const activeCalibration = useMemo(
+    () => calibrationCurves.find(c => c.id === activeCalibrationId) ?? null,
+    [calibrationCurves, activeCalibrationId]
+  );
+
+  const handleSaveCalibration = (curve: CalibrationCurve) => {
+    const next = [curve, ...calibrationCurves];
+    setCalibrationCurves(next);
+    saveCalibrationCurves(next);
+  };
+
+  const handleDeleteCalibration = (id: string) => {
+    const next = calibrationCurves.filter(c => c.id !== id);
+    setCalibrationCurves(next);
+    saveCalibrationCurves(next);
+    if (activeCalibrationId === id) {
+      setActiveCalibrationId(null);
+      clearAnalyses();
+    }
+  };
+
+  // Air baselines (shared across sessions, selection is per session)
+  const [airBaselines, setAirBaselines] = useState<AirBaseline[]>(loadAirBaselines);
+  const [airBaselineId, setAirBaselineId] = useState<string | null>(DEFAULT_SESSION_STATE.airBaselineId);
+  const activeAirBaseline = useMemo(
+    () => airBaselines.find(b => b.id === airBaselineId) ?? null,
+    [airBaselines, airBaselineId]
+  );
+
+  const handleSaveAirBaseline = (baseline: AirBaseline) => {
+    const next = [baseline, ...airBaselines];
+    setAirBaselines(next);
+    saveAirBaselines(next);
+  };
+
+  const handleDeleteAirBaseline = (id: string) => {
+    const next = airBaselines.filter(b => b.id !== id);
+    setAirBaselines(next);
+    saveAirBaselines(next);
+    if (airBaselineId === id) setAirBaselineId(null);
+  };
+
+  const handleSelectMaterial = (material: Material | null) => {
+    setMaterialId(material?.id ?? null);
+    if (!material) return;
+    // X0 is tabulated in g/cm^2; Highland needs it in cm at the material's density
+    setHighlandParams({ ...highlandParams, density: material.density, radLength: radLengthCm(material) });
+    const previous = selectedMaterial?.name ?? DEFAULT_SESSION_STATE.materialName;
+    if (materialName === previous || materialName.trim() === '') setMaterialName(material.name);
+  };
+
+  const handleBeamChange = (next: BeamSettings) => {
+    setBeam(next);
+    // z always follows the particle; p and beta only while they are not entered by hand
+    const k = beamKinematics(next);
+    setHighlandParams(next.manual
+      ? { ...highlandParams, charge: k.charge }
+      : { ...highlandParams, momentum: k.momentum, beta: k.beta, charge: k.charge });
+  };
+
+  const handleDensityChange = (density: number) => {
+    // With a library material the density sets X0 in cm (e.g. a foam or a pressed powder)
+    setHighlandParams(selectedMaterial && density > 0
+      ? { ...highlandParams, density, radLength: radLengthCm(selectedMaterial, density) }
+      : { ...highlandParams, density });
+  };
+
+  const handleSaveCustomMaterial = (material: Material) => {
+    const next = [...customMaterials, material];
+    setCustomMaterials(next);
+    saveCustomMaterials(next);
+  };
+
+  const handleDeleteCustomMaterial = (id: string) => {
+    const next = customMaterials.filter(m => m.id !== id);
+    setCustomMaterials(next);
+    saveCustomMaterials(next);
+    if (materialId === id) setMaterialId(null);
+  };
+
+  // Session persistence
+  const sessionState: SessionState = useMemo(() => ({
+    pixelToMm, analysisMaxSize, materialName, materialId, highlandParams, beam, scattering, background, analysisSettings,
+    uncertainties, thetaMethod, fitModel, activeCalibrationId, airBaselineId, excludedDistances, films
+  }), [pixelToMm, analysisMaxSize, materialName, materialId, highlandParams, beam, scattering, background, analysisSettings, uncertainties, thetaMethod, fitModel, activeCalibrationId, airBaselineId, excludedDistances, films]);
+
+  // Only state setters inside, so the callback is stable and the restore effect runs once
+  const applySession = useCallback((session: StoredSession) => {
+    const state = restoreSessionState(session.state);
+    setPixelToMm(state.pixelToMm);
+    setAnalysisMaxSize(state.analysisMaxSize);
+    setMaterialName(state.materialName);
+    setMaterialId(state.materialId);
+    setHighlandParams(state.highlandParams);
+    setBeam(state.beam);
+    setScattering(state.scattering);
+    setBackground(state.background);
+    setAnalysisSettings(state.analysisSettings);
+    setUncertainties(state.uncertainties);
+    setThetaMethod(state.thetaMethod);
+    setFitModel(state.fitModel);
+    setActiveCalibrationId(state.activeCalibrationId);
+    setAirBaselineId(state.airBaselineId);
+    setStations({ films: state.films, excludedDistances: state.excludedDistances });
+    setCurrentSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+    db.setActiveSessionId(session.id).catch(console.error);
+  }, []);
+
+  const saveCurrentSession = useCallback(async (): Promise<StoredSession | null> => {
+    if (!currentSession) return null;
+    const session: StoredSession = { ...currentSession, updatedAt: Date.now(), state: sessionState };
+    await db.putSession(session);
+    setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+    return session;
+  }, [currentSession, sessionState]);
+
+  // Restore the last active session (or start a fresh one) on load
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const [runs, stored, activeId] = await Promise.all([db.listRuns(), db.listSessions(), db.getActiveSessionId()]);
+        setSavedRuns(runs);
+        setSessions(stored);
+        const active = stored.find(s => s.id === activeId) ?? stored[0];
+        applySession(active ?? newSession('Session 1'));
+      } catch (err) {
+        console.error('Session storage unavailable', err);
+        setCurrentSession(newSession('Session 1'));
+      } finally {
+        setHydrated(true);
+      }
+    };
+    restore();
+  }, [applySession]);
+
+  // Autosave the current session after edits settle
+  useEffect(() => {
+    if (!hydrated || !currentSession) return;
+    const timer = setTimeout(() => { saveCurrentSession().catch(console.error); }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [hydrated, currentSession, saveCurrentSession]);
+
+  const handleNewSession = async () => {
+    await saveCurrentSession().catch(console.error);
+    const session = newSession(`Session ${sessions.length + 1}`);
+    applySession(session);
+    setCurrentTab(AnalysisStep.SETUP);
+  };
+
+  const handleSwitchSession = async (id: string) => {
+    if (id === currentSession?.id) return;
+    await saveCurrentSession().catch(console.error);
+    const session = await db.getSession(id);
+    if (session) applySession(session);
+  };
+
+  const handleRenameSession = (name: string) => {
+    if (currentSession) setCurrentSession({ ...currentSession, name });
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await db.deleteSession(id);
+    const remaining = sessions.filter(s => s.id !== id);
+    setSessions(remaining);
+    if (id === currentSession?.id) {
+      applySession(remaining[0] ?? newSession('Session 1'));
+    }
+  };
+
+  const handleExportProject = () => {
+    const content = serializeProject({
+      sessionName: currentSession?.name ?? 'Session',
+      session: sessionState,
+      results,
+      savedRuns,
+      calibrationCurves: activeCalibration ? [activeCalibration] : [],
+      airBaselines: activeAirBaseline ? [activeAirBaseline] : [],
+      materials: selectedMaterial && customMaterials.some(m => m.id === selectedMaterial.id) ? [selectedMaterial] : []
+    });
+    downloadFile(`${safeFileName(currentSession?.name ?? 'session')}${PROJECT_FILE_EXTENSION}`, content, 'application/json');
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      await saveCurrentSession().catch(console.error);
+
+      // Merge libraries without duplicating entries that are already here
+      const knownRuns = new Set(savedRuns.map(r => r.id));
+      const newRuns = project.savedRuns.filter(r => !knownRuns.has(r.id));
+      await Promise.all(newRuns.map(db.putRun));
+      setSavedRuns(prev => [...prev, ...newRuns].sort((a, b) => b.timestamp - a.timestamp));
+
+      const knownCurves = new Set(calibrationCurves.map(c => c.id));
+      const newCurves = project.calibrationCurves.filter(c => !knownCurves.has(c.id));
+      if (newCurves.length > 0) {
+        const next = [...newCurves, ...calibrationCurves];
+        setCalibrationCurves(next);
+        saveCalibrationCurves(next);
+      }
+
+      const knownBaselines = new Set(airBaselines.map(b => b.id));
+      const newBaselines = project.airBaselines.filter(b => !knownBaselines.has(b.id));
+      if (newBaselines.length > 0) {
+        const next = [...newBaselines, ...airBaselines];
+        setAirBaselines(next);
+        saveAirBaselines(next);
+      }
+
+      const knownMaterials = new Set(materials.map(m => m.id));
+      const newMaterials = project.materials.filter(m => !knownMaterials.has(m.id));
+      if (newMaterials.length > 0) {
+        const next = [...customMaterials, ...newMaterials];
+        setCustomMaterials(next);
+        saveCustomMaterials(next);
+      }
+
+      // applySession fills in fields the file predates
+      applySession(newSession(`${project.sessionName} (imported)`, project.session));
+      // Film analyzers re-run when the data entry view mounts
+      setCurrentTab(AnalysisStep.DATA_ENTRY);
+    } catch (err) {
+      console.error(err);
+      alert(`Could not import "${file.name}": ${(err as Error).message}`);
+    }
+  };
+
+  const handleRenameRun = (id: string, name: string) => {
+    const run = savedRuns.find(r => r.id === id);
+    if (!run) return;
+    const renamed = { ...run, name };
+    setSavedRuns(prev => prev.map(r => (r.id === id ? renamed : r)));
+    db.putRun(renamed).catch(console.error);
+  };
+
+  const handleDeleteRun = (id: string) => {
+    setSavedRuns(prev => prev.filter(r => r.id !== id));
+    db.deleteRun(id).catch(console.error);
+  };
 
   // Handlers for updating state
   const updateDistance = (id: number, val: number) => {
-    setFilms(prev => prev.map(f => f.id === id ? { ...f, distanceL: val } : f));
+    updateStations(prev => prev.map(f => f.id === id ? { ...f, distanceL: val } : f));
+  };
+
+  // Film stations: ids are stable across reordering; new ones take the next free id
+  const addStation = () => {
+    setFilms(prev => {
+      const last = prev[prev.length - 1];
+      const step = prev.length >= 2 ? last.distanceL - prev[prev.length - 2].distanceL : 0;
+      const distance = (last?.distanceL ?? 0) + (step > 0 ? step : DEFAULT_STATION_STEP);
+      return [...prev, newFilm(nextFilmId(prev), distance)];
+    });
+  };
+
+  const cloneStation = (id: number) => {
+    // A repeat at the same L: keeps the scans (often the same air baseline), so replace what differs;
+    // until then groupByDistance counts each shared scan once
+    setFilms(prev => {
+      const index = prev.findIndex(f => f.id === id);
+      if (index < 0) return prev;
+      const copy = { ...prev[index], id: nextFilmId(prev) };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const removeStation = (id: number) => {
+    const film = films.find(f => f.id === id);
+    if (!film || films.length <= 1) return;
+    if ((film.airImageSrc || film.materialImageSrc) && !confirm(`Remove the station at L = ${film.distanceL} mm and its scans?`)) return;
+    updateStations(prev => prev.filter(f => f.id !== id));
+  };
+
+  const handleBatchImport = (update: (films: FilmSample[]) => FilmSample[]) => {
+    // Importing may drop the empty stations an exclusion was left on
+    updateStations(update);
+  };
+
+  const moveStation = (id: number, offset: -1 | 1) => {
+    setFilms(prev => {
+      const index = prev.findIndex(f => f.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const sortStations = () => {
+    setFilms(prev => [...prev].sort((a, b) => a.distanceL - b.distanceL));
+  };
+
+  // TIFF uploads: pick the image of a multi-page file
+  const chooseTiffPage = async (src: string, fileName: string): Promise<string | null> => {
+    try {
+      const full = fullResolutionPages((await readTiffSource(src)).pages);
+      if (full.length <= 1) return src;
+      const answer = prompt(`"${fileName}" holds ${full.length} images. Which one should be analysed? (1–${full.length})`, '1');
+      if (answer === null) return null;
+      const n = parseInt(answer, 10);
+      if (!(n >= 1 && n <= full.length)) {
+        alert(`There is no image ${answer} in "${fileName}".`);
+        return null;
+      }
+      return withTiffPage(src, full[n - 1].index);
+    } catch (err) {
+      alert(`Could not read "${fileName}": ${(err as Error).message}`);
+      return null;
+    }
   };
 
   const handleImageUpload = (id: number, type: 'air' | 'material', file: File) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      const src = e.target?.result as string;
+    reader.onload = async (e) => {
+      let src = e.target?.result as string;
+      if (isTiffSource(src)) {
+        const chosen = await chooseTiffPage(src, file.name);
+        if (!chosen) return;
+        src = chosen;
+      }
+      // The file's own DPI, when it has one, overrides the session default scale
+      const scale = await scaleFromMetadata(src);
       setFilms(prev => prev.map(f => {
         if (f.id !== id) return f;
+        // A new scan invalidates the region drawn on the previous one
         return type === 'air' 
-          ? { ...f, airImageSrc: src } 
-          : { ...f, materialImageSrc: src };
+          ? { ...f, airImageSrc: src, airRegion: null, airScale: scale, airSystematic: null } 
+          : { ...f, materialImageSrc: src, materialRegion: null, materialScale: scale, materialSystematic: null };
       }));
     };
     reader.readAsDataURL(file);
   };
 
-  const handleAnalysisComplete = (id: number, type: 'air' | 'material', sigma: number) => {
+  const updateScale = (id: number, type: 'air' | 'material', scale: PixelScale | null) => {
+    setFilms(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      return type === 'air' ? { ...f, airScale: scale, airSystematic: null } : { ...f, materialScale: scale, materialSystematic: null };
+    }));
+  };
+
+  const updateSystematic = (id: number, type: 'air' | 'material', systematic: number | null) => {
+    setFilms(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      return type === 'air' ? { ...f, airSystematic: systematic } : { ...f, materialSystematic: systematic };
+    }));
+  };
+
+  const updateRegion = (id: number, type: 'air' | 'material', region: FilmRegion | null) => {
+    setFilms(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      return type === 'air' ? { ...f, airRegion: region, airSystematic: null } : { ...f, materialRegion: region, materialSystematic: null };
+    }));
+  };
+
+  const handleAnalysisComplete = (id: number, type: 'air' | 'material', fit: GaussianFitResult) => {
     setFilms(prev => prev.map(f => {
       if (f.id !== id) return f;
       return type === 'air' 
-        ? { ...f, airSigma: sigma }
-        : { ...f, materialSigma: sigma };
+        ? { ...f, airSigma: fit.sigma, airFit: fit }
+        : { ...f, materialSigma: fit.sigma, materialFit: fit };
     }));
   };
 
-  // 1. Calculate Theoretical Theta based on inputs
-  const theoreticalTheta = useMemo(() => {
-    return calculateHighlandTheta(
-      highlandParams.thickness,
-      highlandParams.radLength,
-      highlandParams.momentum,
-      highlandParams.beta
-    );
-  }, [highlandParams]);
-
-  // 2. Compute final results and include theoretical sigma for each point
-  const results: AnalysisSummary[] = useMemo(() => {
-    return films.map(f => {
-      const sa = f.airSigma || 0;
-      const sm = f.materialSigma || 0;
-      // Formula: sigma_corrected = sqrt(sigma_mat^2 - sigma_air^2)
-      const diffSq = (sm * sm) - (sa * sa);
-      const sigmaCorrected = diffSq > 0 ? Math.sqrt(diffSq) : 0;
-      
-      return {
-        sampleId: f.id,
-        distance: f.distanceL,
-        sigmaAir: sa,
-        sigmaMaterial: sm,
-        sigmaCorrected,
-        theta: f.distanceL > 0 ? sigmaCorrected / f.distanceL : 0,
-        theoreticalSigma: theoreticalTheta * f.distanceL
-      };
-    });
-  }, [films, theoreticalTheta]);
+  // 1. Theoretical theta from each selected scattering model; the first available one is the reference
+  const modelInput = useMemo(
+    () => scatteringInput(highlandParams, selectedMaterial, beam.particle),
+    [highlandParams, selectedMaterial, beam.particle]
+  );
+  // Energy loss through the target, reported whether or not the thick-target model is selected
+  const thickTarget = useMemo(
+    () => thickTargetScattering(modelInput, scattering.thickTargetSlices),
+    [modelInput, scattering.thickTargetSlices]
+  );
+  const modelPredictions = useMemo(() => predictAll(modelInput, scattering), [modelInput, scattering]);
+  const theoreticalTheta = primaryPrediction(modelPredictions)?.theta0 ?? 0;
+
+  // 2. Repeated films at one distance are averaged, then the final results include theoretical sigma for each L
+  const distanceGroups = useMemo(() => groupByDistance(films), [films]);
+
+  // Measured air widths per distance, from which a new baseline can be fitted
+  const airBaselinePoints: AirBaselinePoint[] = useMemo(() => distanceGroups
+    .filter(g => g.measurement.sigmaAir > 0)
+    .map(g => ({ distance: g.distance, sigma: g.measurement.sigmaAir, sigmaError: g.measurement.sigmaAirError })), [distanceGroups]);
+
+  // 3. Air subtraction and θ per distance (the session's air baseline, when selected, supplies sigma_air),
+  // θ_RMS over the rows the user kept, and the straight-line fit of sigma_corrected vs L
+  const summary = useMemo(() => summarizeSession({
+    films,
+    groups: distanceGroups,
+    airBaseline: activeAirBaseline,
+    uncertainties,
+    excludedDistances,
+    theoreticalTheta,
+    fitModel
+  }), [films, distanceGroups, activeAirBaseline, uncertainties, excludedDistances, theoreticalTheta, fitModel]);
+  const { results, thetaRms, thetaRmsError, axisThetaRms, linearFit } = summary;
+  // Scans whose widths were dropped by a settings change and not yet re-analysed
+  const unanalysedScans = films.reduce((n, f) =>
+    n + (f.airImageSrc && f.airSigma === null ? 1 : 0) + (f.materialImageSrc && f.materialSigma === null ? 1 : 0), 0);
 
-  const thetaRms = useMemo(() => {
-    const validThetas = results.map(r => r.theta).filter(t => t > 0);
-    if (validThetas.length === 0) return 0;
-    
-    // Physics correction: Use Root Mean Square (RMS)
-    const sumSquares = validThetas.reduce((sum, theta) => sum + (theta * theta), 0);
-    return Math.sqrt(sumSquares / validThetas.length);
-  }, [results]);
+  const toggleExcluded = (distance: number) => {
+    setStations(prev => ({
+      ...prev,
+      excludedDistances: prev.excludedDistances.includes(distance)
+        ? prev.excludedDistances.filter(d => d !== distance)
+        : [...prev.excludedDistances, distance]
+    }));
+  };
 
   const handleSaveRun = () => {
     const newRun: SavedRun = {
       id: Date.now().toString(),
+      name: materialName,
       materialName: materialName,
       timestamp: Date.now(),
       results: results,
       thetaRms: thetaRms,
+      thetaRmsError: thetaRmsError,
+      thetaMethod: thetaMethod,
+      linearFit: linearFit,
       highlandParams: { ...highlandParams },
-      theoreticalTheta: theoreticalTheta
+      beam: { ...beam },
+      theoreticalTheta: theoreticalTheta,
+      modelPredictions: modelPredictions,
+      material: selectedMaterial,
+      analysisSettings: { ...analysisSettings }
     };
     setSavedRuns(prev => [newRun, ...prev]);
+    db.putRun(newRun).catch(console.error);
     alert(`Run for "${materialName}" saved to Comparison history.`);
     setCurrentTab(AnalysisStep.COMPARISON);
   };
 
+  const handleExportResults = (format: ExportFormat) => {
+    exportSummary(`${materialName}_results`, format, {
+      session: currentSession?.name ?? null,
+      materialName,
+      materialId,
+      highlandParams,
+      beam,
+      pixelToMm,
+      calibration: activeCalibration,
+      airBaseline: activeAirBaseline,
+      background,
+      analysisSettings,
+      modelPredictions,
+      exitEnergy: thickTarget?.exitEnergy ?? null
+    }, summary);
+  };
+
   return (
     <div className="min-h-screen bg-gray-950 text-gray-200 font-sans selection:bg-indigo-500 selection:text-white">
       {/* Header */}
@@ -151,6 +596,18 @@ export default function App() {
         {/* SETUP VIEW */}
         {currentTab === AnalysisStep.SETUP && (
           <div className="max-w-4xl mx-auto space-y-8">
+            <SessionManager
+                sessions={sessions}
+                currentId={currentSession?.id ?? null}
+                currentName={currentSession?.name ?? ''}
+                onRename={handleRenameSession}
+                onSwitch={handleSwitchSession}
+                onNew={handleNewSession}
+                onDelete={handleDeleteSession}
+                onExport={handleExportProject}
+                onImport={handleImportProject}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 
                 {/* Column 1: Material & Physics */}
@@ -160,6 +617,15 @@ export default function App() {
                         Experiment & Physics
                     </h2>
                     
+                    <MaterialPicker
+                        materials={materials}
+                        selectedId={materialId}
+                        density={highlandParams.density}
+                        onSelect={handleSelectMaterial}
+                        onSaveCustom={handleSaveCustomMaterial}
+                        onDeleteCustom={handleDeleteCustomMaterial}
+                    />
+
                     <div>
                         <label className="block text-sm font-medium text-gray-400 mb-1">Material Name</label>
                         <input 
@@ -186,45 +652,129 @@ export default function App() {
                             <input 
                                 type="number" step="0.001"
                                 value={highlandParams.density}
-                                onChange={(e) => setHighlandParams({...highlandParams, density: parseFloat(e.target.value)})}
+                                onChange={(e) => handleDensityChange(parseFloat(e.target.value))}
                                 className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
                             />
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-gray-400 mb-1">Rad Length <span className="italic">X₀</span> (cm)</label>
+                        <input 
+                            type="number" step="0.01"
+                            value={highlandParams.radLength}
+                            onChange={(e) => {
+                                // A hand-typed X0 no longer matches the library entry
+                                setMaterialId(null);
+                                setHighlandParams({...highlandParams, radLength: parseFloat(e.target.value)});
+                            }}
+                            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                        />
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="block text-sm font-medium text-gray-400 mb-1">Rad Length <span className="italic">X₀</span> (cm)</label>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Particle</label>
+                            <select
+                                value={beam.particle}
+                                onChange={(e) => handleBeamChange({...beam, particle: e.target.value as ParticleId})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+                            >
+                                {PARTICLES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Kinetic Energy <span className="italic">T</span> (MeV)</label>
                             <input 
-                                type="number" step="0.01"
-                                value={highlandParams.radLength}
-                                onChange={(e) => setHighlandParams({...highlandParams, radLength: parseFloat(e.target.value)})}
-                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                                type="number" step="1" min="0"
+                                value={beam.kineticEnergy}
+                                disabled={beam.manual}
+                                onChange={(e) => handleBeamChange({...beam, kineticEnergy: parseFloat(e.target.value)})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono disabled:text-gray-500"
                             />
+                            {getParticle(beam.particle).nucleons > 1 && (
+                                <p className="mt-1 text-xs text-gray-500">{(beam.kineticEnergy / getParticle(beam.particle).nucleons).toFixed(2)} MeV/u</p>
+                            )}
                         </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="block text-sm font-medium text-gray-400 mb-1">Momentum <span className="italic">p</span> (MeV/c)</label>
                             <input 
                                 type="number" step="1"
-                                value={highlandParams.momentum}
+                                value={Number(highlandParams.momentum.toPrecision(6))}
+                                disabled={!beam.manual}
                                 onChange={(e) => setHighlandParams({...highlandParams, momentum: parseFloat(e.target.value)})}
-                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono disabled:text-gray-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Velocity <span className="italic">β</span> (v/c)</label>
+                            <input 
+                                type="number" step="0.001" max="1"
+                                value={Number(highlandParams.beta.toPrecision(6))}
+                                disabled={!beam.manual}
+                                onChange={(e) => setHighlandParams({...highlandParams, beta: parseFloat(e.target.value)})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono disabled:text-gray-500"
                             />
                         </div>
                     </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-400 mb-1">Velocity <span className="italic">β</span> (v/c)</label>
-                        <input 
-                            type="number" step="0.001" max="1"
-                            value={highlandParams.beta}
-                            onChange={(e) => setHighlandParams({...highlandParams, beta: parseFloat(e.target.value)})}
-                            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={beam.manual}
+                            onChange={(e) => handleBeamChange({...beam, manual: e.target.checked})}
+                            className="w-4 h-4 rounded border-gray-600 bg-gray-700"
                         />
+                        Enter <span className="italic">p</span> and <span className="italic">β</span> directly
+                    </label>
+
+                    <div className="text-xs text-gray-500 bg-gray-900/50 p-2 rounded border border-gray-700/50 font-mono">
+                        {beam.manual
+                            ? <>βcp = {(highlandParams.beta * highlandParams.momentum).toFixed(2)} MeV · z = {highlandParams.charge}</>
+                            : <>βcp = {kinematics.betaCP.toFixed(2)} MeV · γ = {kinematics.gamma.toFixed(4)} · E = {kinematics.totalEnergy.toFixed(1)} MeV · z = {kinematics.charge}</>}
                     </div>
                     
-                    <div className="text-xs text-gray-500 bg-gray-900/50 p-2 rounded border border-gray-700/50">
-                        Highland Constant: 17.5 MeV
+                    <ScatteringModelPanel
+                        settings={scattering}
+                        onChange={setScattering}
+                        input={modelInput}
+                        predictions={modelPredictions}
+                        thickTarget={thickTarget}
+                    />
+
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">δL (mm)</label>
+                            <input 
+                                type="number" step="0.1" min="0"
+                                value={uncertainties.distance}
+                                onChange={(e) => setUncertainties({...uncertainties, distance: parseFloat(e.target.value)})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">δ Scale (%)</label>
+                            <input 
+                                type="number" step="0.1" min="0"
+                                value={uncertainties.pixelScale}
+                                onChange={(e) => setUncertainties({...uncertainties, pixelScale: parseFloat(e.target.value)})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Propagation</label>
+                            <select
+                                value={uncertainties.method}
+                                onChange={(e) => setUncertainties({...uncertainties, method: e.target.value as PropagationMethod})}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white outline-none"
+                            >
+                                <option value="analytic">Analytic</option>
+                                <option value="monteCarlo">Monte Carlo</option>
+                            </select>
+                        </div>
                     </div>
                 </div>
 
@@ -237,14 +787,27 @@ export default function App() {
                         </h2>
 
                         <div>
-                            <label className="block text-sm font-medium text-gray-400 mb-1">Scanner Resolution (mm per pixel)</label>
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Default Scanner Resolution (mm per pixel)</label>
                             <input 
                                 type="number" 
                                 step="0.001"
                                 value={pixelToMm}
-                                onChange={(e) => setPixelToMm(parseFloat(e.target.value))}
+                                onChange={(e) => changingAnalysis(setPixelToMm)(parseFloat(e.target.value))}
                                 className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-purple-500 outline-none font-mono"
                             />
+                            <p className="mt-1 text-xs text-gray-500">Used for scans without DPI metadata; set a scan's own scale with the ruler next to its fit.</p>
+                        </div>
+
+                        <div className="mt-4">
+                            <label className="block text-sm font-medium text-gray-400 mb-1">Analysis Resolution (longest edge)</label>
+                            <select
+                                value={analysisMaxSize}
+                                onChange={(e) => changingAnalysis(setAnalysisMaxSize)(parseInt(e.target.value, 10))}
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                            >
+                                {ANALYSIS_RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                            </select>
+                            <p className="mt-1 text-xs text-gray-500">Downsampled scans are rescaled automatically; enter the scanner's native mm/pixel above.</p>
                         </div>
 
                         <div className="mt-6 bg-purple-900/20 border border-purple-900/50 p-4 rounded-lg">
@@ -270,6 +833,27 @@ export default function App() {
                     </button>
                 </div>
             </div>
+
+            <CalibrationManager
+                curves={calibrationCurves}
+                activeCurveId={activeCalibrationId}
+                onSelect={changingAnalysis(setActiveCalibrationId)}
+                onSaveCurve={handleSaveCalibration}
+                onDeleteCurve={handleDeleteCalibration}
+            />
+
+            <AirBaselineManager
+                baselines={airBaselines}
+                activeBaselineId={airBaselineId}
+                points={airBaselinePoints}
+                onSelect={setAirBaselineId}
+                onSaveBaseline={handleSaveAirBaseline}
+                onDeleteBaseline={handleDeleteAirBaseline}
+            />
+
+            <BackgroundManager settings={background} onChange={changingAnalysis(setBackground)} />
+
+            <AnalysisSettingsPanel settings={analysisSettings} onChange={changingAnalysis(setAnalysisSettings)} />
           </div>
         )}
 
@@ -289,74 +873,129 @@ export default function App() {
               </button>
             </div>
 
+            <BatchImport films={films} onImport={handleBatchImport} />
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                {films.length} station{films.length === 1 ? '' : 's'} at {distanceGroups.length} distance{distanceGroups.length === 1 ? '' : 's'}
+                {films.length > distanceGroups.length && <span className="text-gray-500"> · repeats at the same L are averaged</span>}
+                {activeAirBaseline && <span className="text-sky-400"> · σ_air from baseline "{activeAirBaseline.name}", air scans are optional</span>}
+              </span>
+              <button onClick={sortStations} className="text-xs text-gray-400 hover:text-gray-200">Sort by L</button>
+            </div>
+
             <div className="grid grid-cols-1 gap-6">
-              {films.map((film) => (
-                <div key={film.id} className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
-                  <div className="bg-gray-900/50 px-6 py-3 border-b border-gray-700 flex flex-wrap gap-4 items-center justify-between">
-                    <div className="flex items-center gap-3">
-                        <span className="bg-gray-700 text-gray-300 text-xs font-bold px-2 py-1 rounded">FILM {film.id}</span>
-                        <div className="flex items-center gap-2">
-                            <label className="text-sm text-gray-400">Distance L (mm):</label>
-                            <input 
-                                type="number" 
-                                value={film.distanceL}
-                                onChange={(e) => updateDistance(film.id, parseFloat(e.target.value))}
-                                className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white text-right"
-                            />
-                        </div>
+              {films.map((film, index) => {
+                const group = distanceGroups.find(g => g.distance === film.distanceL);
+                const repeat = group && group.filmIds.length > 1 ? group.filmIds.indexOf(film.id) + 1 : 0;
+                return (
+                  <div key={film.id} className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
+                    <div className="bg-gray-900/50 px-6 py-3 border-b border-gray-700 flex flex-wrap gap-4 items-center justify-between">
+                      <div className="flex items-center gap-3">
+                          <span className="bg-gray-700 text-gray-300 text-xs font-bold px-2 py-1 rounded">FILM {index + 1}</span>
+                          <div className="flex items-center gap-2">
+                              <label className="text-sm text-gray-400">Distance L (mm):</label>
+                              <input 
+                                  type="number" 
+                                  value={film.distanceL}
+                                  onChange={(e) => updateDistance(film.id, parseFloat(e.target.value))}
+                                  className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white text-right"
+                              />
+                          </div>
+                          {repeat > 0 && (
+                              <span className="text-xs text-amber-400" title="Films at the same distance are averaged (mean ± standard deviation)">
+                                  repeat {repeat}/{group!.filmIds.length}
+                              </span>
+                          )}
+                      </div>
+                      <div className="flex items-center gap-1 text-xs">
+                          <button onClick={() => moveStation(film.id, -1)} disabled={index === 0} className="px-2 py-1 rounded text-gray-400 hover:bg-gray-700 disabled:opacity-30" title="Move up">↑</button>
+                          <button onClick={() => moveStation(film.id, 1)} disabled={index === films.length - 1} className="px-2 py-1 rounded text-gray-400 hover:bg-gray-700 disabled:opacity-30" title="Move down">↓</button>
+                          <button onClick={() => cloneStation(film.id)} className="px-2 py-1 rounded text-gray-400 hover:bg-gray-700" title="Add a repeat at the same distance">Clone</button>
+                          <button onClick={() => removeStation(film.id)} disabled={films.length <= 1} className="px-2 py-1 rounded text-red-400 hover:bg-gray-700 disabled:opacity-30">Remove</button>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
-                    {/* AIR COLUMN */}
-                    <div className="space-y-3">
-                        <div className="flex justify-between items-center">
-                             <h4 className="text-sm font-semibold text-blue-400 uppercase tracking-wider">Baseline (Air)</h4>
-                             <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded text-white transition-colors">
-                                Upload Scan
-                                <input type="file" className="hidden" accept="image/*" onChange={(e) => e.target.files && handleImageUpload(film.id, 'air', e.target.files[0])} />
-                             </label>
-                        </div>
-                        {film.airImageSrc ? (
-                            <FilmAnalyzer 
-                                label="Air"
-                                imageSrc={film.airImageSrc} 
-                                pixelToMm={pixelToMm} 
-                                onAnalysisComplete={(sigma) => handleAnalysisComplete(film.id, 'air', sigma)} 
-                            />
-                        ) : (
-                            <div className="h-32 border-2 border-dashed border-gray-700 rounded flex items-center justify-center text-gray-600 text-sm">
-                                No Image
-                            </div>
-                        )}
-                    </div>
+                    <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+                      {/* AIR COLUMN */}
+                      <div className="space-y-3">
+                          <div className="flex justify-between items-center">
+                               <h4 className="text-sm font-semibold text-blue-400 uppercase tracking-wider">Baseline (Air)</h4>
+                               <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded text-white transition-colors">
+                                  Upload Scan
+                                  <input type="file" className="hidden" accept={SCAN_FILE_TYPES} onChange={(e) => e.target.files && handleImageUpload(film.id, 'air', e.target.files[0])} />
+                               </label>
+                          </div>
+                          {film.airImageSrc ? (
+                              <FilmAnalyzer 
+                                  label="Air"
+                                  exportName={`film${film.id}_L${film.distanceL}mm_air`}
+                                  imageSrc={film.airImageSrc} 
+                                  pixelToMm={film.airScale?.mmPerPixel ?? pixelToMm} 
+                                  scale={film.airScale ?? null}
+                                  onScaleChange={(scale) => updateScale(film.id, 'air', scale)}
+                                  maxSize={analysisMaxSize}
+                                  calibration={activeCalibration}
+                                  region={film.airRegion}
+                                  background={background}
+                                  settings={analysisSettings}
+                                  systematic={film.airSystematic ?? null}
+                                  onSystematicChange={(systematic) => updateSystematic(film.id, 'air', systematic)}
+                                  onRegionChange={(region) => updateRegion(film.id, 'air', region)}
+                                  onAnalysisComplete={(fit) => handleAnalysisComplete(film.id, 'air', fit)} 
+                              />
+                          ) : (
+                              <div className="h-32 border-2 border-dashed border-gray-700 rounded flex items-center justify-center text-gray-600 text-sm">
+                                  No Image
+                              </div>
+                          )}
+                      </div>
 
-                    {/* MATERIAL COLUMN */}
-                    <div className="space-y-3">
-                        <div className="flex justify-between items-center">
-                             <h4 className="text-sm font-semibold text-pink-400 uppercase tracking-wider">Material ({materialName})</h4>
-                             <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded text-white transition-colors">
-                                Upload Scan
-                                <input type="file" className="hidden" accept="image/*" onChange={(e) => e.target.files && handleImageUpload(film.id, 'material', e.target.files[0])} />
-                             </label>
-                        </div>
-                        {film.materialImageSrc ? (
-                            <FilmAnalyzer 
-                                label="Material"
-                                imageSrc={film.materialImageSrc} 
-                                pixelToMm={pixelToMm} 
-                                onAnalysisComplete={(sigma) => handleAnalysisComplete(film.id, 'material', sigma)} 
-                            />
-                        ) : (
-                            <div className="h-32 border-2 border-dashed border-gray-700 rounded flex items-center justify-center text-gray-600 text-sm">
-                                No Image
-                            </div>
-                        )}
+                      {/* MATERIAL COLUMN */}
+                      <div className="space-y-3">
+                          <div className="flex justify-between items-center">
+                               <h4 className="text-sm font-semibold text-pink-400 uppercase tracking-wider">Material ({materialName})</h4>
+                               <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded text-white transition-colors">
+                                  Upload Scan
+                                  <input type="file" className="hidden" accept={SCAN_FILE_TYPES} onChange={(e) => e.target.files && handleImageUpload(film.id, 'material', e.target.files[0])} />
+                               </label>
+                          </div>
+                          {film.materialImageSrc ? (
+                              <FilmAnalyzer 
+                                  label="Material"
+                                  exportName={`film${film.id}_L${film.distanceL}mm_${materialName}`}
+                                  imageSrc={film.materialImageSrc} 
+                                  pixelToMm={film.materialScale?.mmPerPixel ?? pixelToMm} 
+                                  scale={film.materialScale ?? null}
+                                  onScaleChange={(scale) => updateScale(film.id, 'material', scale)}
+                                  maxSize={analysisMaxSize}
+                                  calibration={activeCalibration}
+                                  region={film.materialRegion}
+                                  background={background}
+                                  settings={analysisSettings}
+                                  systematic={film.materialSystematic ?? null}
+                                  onSystematicChange={(systematic) => updateSystematic(film.id, 'material', systematic)}
+                                  onRegionChange={(region) => updateRegion(film.id, 'material', region)}
+                                  onAnalysisComplete={(fit) => handleAnalysisComplete(film.id, 'material', fit)} 
+                              />
+                          ) : (
+                              <div className="h-32 border-2 border-dashed border-gray-700 rounded flex items-center justify-center text-gray-600 text-sm">
+                                  No Image
+                              </div>
+                          )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
+
+            <button
+              onClick={addStation}
+              className="w-full py-3 border-2 border-dashed border-gray-700 hover:border-gray-500 rounded-xl text-gray-400 hover:text-gray-200 text-sm transition-colors"
+            >
+              + Add station
+            </button>
           </div>
         )}
 
@@ -364,11 +1003,32 @@ export default function App() {
         {currentTab === AnalysisStep.RESULTS && (
           <div className="space-y-6">
             <h2 className="text-2xl font-bold text-white">Analysis Report: {materialName}</h2>
+            {unanalysedScans > 0 && (
+              <div className="flex items-center justify-between gap-4 p-3 rounded border border-yellow-500/40 bg-gray-800 text-sm text-yellow-500">
+                <span>{unanalysedScans} scan{unanalysedScans === 1 ? ' is' : 's are'} not analysed with the current settings and left out of these results.</span>
+                <button
+                  onClick={() => setCurrentTab(AnalysisStep.DATA_ENTRY)}
+                  className="shrink-0 px-3 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                >
+                  Analyse in Data Entry
+                </button>
+              </div>
+            )}
             <ResultsTable 
                 data={results} 
                 thetaRms={thetaRms} 
+                thetaRmsError={thetaRmsError}
+                linearFit={linearFit}
+                thetaMethod={thetaMethod}
+                fitModel={fitModel}
+                onThetaMethodChange={setThetaMethod}
+                onFitModelChange={setFitModel}
                 theoreticalTheta={theoreticalTheta}
+                modelPredictions={modelPredictions}
                 onSave={handleSaveRun} 
+                onExport={handleExportResults}
+                onToggleExcluded={toggleExcluded}
+                axisThetaRms={axisThetaRms}
             />
           </div>
         )}
@@ -377,7 +1037,7 @@ export default function App() {
         {currentTab === AnalysisStep.COMPARISON && (
           <div className="space-y-6">
              <h2 className="text-2xl font-bold text-white">Multi-Material Comparison</h2>
-             <ComparisonView savedRuns={savedRuns} />
+             <ComparisonView savedRuns={savedRuns} onRenameRun={handleRenameRun} onDeleteRun={handleDeleteRun} />
           </div>
         )}
 
@@ -0,0 +1,348 @@
+import { readFile, readdir, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { AirBaseline, BackgroundSettings, CalibrationCurve, FilmSample, Material, RgbaImage, ScaledImage, SessionState } from '../types';
+import { reduceImage } from '../utils/physics';
+import { isTiffSource, loadTiffImage } from '../utils/tiff';
+import { scaleFromMetadata } from '../utils/scanMetadata';
+import { analyzeFilm, BackgroundReferences } from '../utils/analysis';
+import { ImportEntry, ScanKind, parseScanName, planBatchImport } from '../utils/batchImport';
+import { groupByDistance } from '../utils/stations';
+import { predictAll, primaryPrediction, scatteringInput, thickTargetScattering } from '../utils/scattering';
+import { MATERIAL_LIBRARY } from '../utils/materials';
+import { summarizeSession } from '../utils/summary';
+import { formatSummary, ExportFormat, SummaryContext } from '../utils/export';
+import {
+  parseProject, PROJECT_FORMAT, isAirBaseline, isAnalysisSettings, isBeam, isCalibrationCurve, isMaterial, isScattering
+} from '../utils/projectFile';
+import { DEFAULT_SESSION_STATE, restoreSessionState } from '../utils/session';
+import { safeFileName } from '../utils/download';
+import { decodePng, isPng } from './png';
+
+const USAGE = `Usage: bbsa analyze --config <run.json | project.bbsa> [--out <dir>] [--format json|csv] <scan directory>
+
+Analyses every PNG and TIFF scan in the directory with the same pipeline as the web app and
+writes the results table (stdout unless --out is given). Distance and air/material are read
+from the file names, using the config's "pattern" (Batch Import syntax) or the automatic guess.
+
+Exit status: 0 on success, 1 if any fit failed, 2 on usage, config or file errors.`;
+
+const SCAN_EXTENSIONS = ['.png', '.tif', '.tiff'];
+
+const MIME_TYPES: Record<string, string> = { '.png': 'image/png', '.tif': 'image/tiff', '.tiff': 'image/tiff' };
+
+/**
+ * Problems with the command line or the config; reported with exit status 2.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * A run config: session fields as the web app stores them (any may be omitted), plus what a
+ * session only references by id. Reference scan paths are relative to the config file.
+ */
+interface RunConfig extends Partial<Omit<SessionState, 'films' | 'background'>> {
+  session?: string;
+  pattern?: string; // scan file names, as in Batch Import
+  background?: Partial<BackgroundSettings>;
+  calibration?: CalibrationCurve | null;
+  airBaseline?: AirBaseline | null;
+  material?: Material; // a custom material that is not in the library
+}
+
+const isString = (v: unknown): boolean => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const orNull = (check: (v: unknown) => boolean) => (v: unknown) => v === null || check(v);
+
+// What each run config field must hold, and how to say so
+const CONFIG_FIELDS: Record<keyof RunConfig, [(v: unknown) => boolean, string]> = {
+  session: [isString, 'a string'],
+  pattern: [isString, 'a string'],
+  pixelToMm: [v => isNumber(v) && v > 0, 'a positive number'],
+  analysisMaxSize: [v => isNumber(v) && v >= 0, 'a number (0 = full resolution)'],
+  materialName: [isString, 'a string'],
+  materialId: [orNull(isString), 'a string or null'],
+  highlandParams: [v => isRecord(v) && Object.values(v).every(isNumber), 'an object of numbers'],
+  beam: [isBeam, 'an object with particle, kineticEnergy and manual'],
+  scattering: [isScattering, 'an object with known models, lynchDahlF and thickTargetSlices'],
+  background: [
+    v => isRecord(v) && ['unexposedImageSrc', 'blankImageSrc'].every(key => v[key] === undefined || orNull(isString)(v[key]))
+      && [undefined, 'none', 'unexposed', 'annular'].includes(v.subtraction as string) && (v.annulusSigma === undefined || isNumber(v.annulusSigma)),
+    'an object with scan paths, subtraction ("none", "unexposed" or "annular") and annulusSigma'
+  ],
+  analysisSettings: [isAnalysisSettings, 'an object of numbers'],
+  uncertainties: [
+    v => isRecord(v) && isNumber(v.distance) && isNumber(v.pixelScale) && (v.method === 'analytic' || v.method === 'monteCarlo'),
+    'an object with distance, pixelScale and method ("analytic" or "monteCarlo")'
+  ],
+  thetaMethod: [v => v === 'rms' || v === 'fit', '"rms" or "fit"'],
+  fitModel: [v => v === 'origin' || v === 'intercept', '"origin" or "intercept"'],
+  activeCalibrationId: [orNull(isString), 'a string or null'],
+  airBaselineId: [orNull(isString), 'a string or null'],
+  excludedDistances: [v => Array.isArray(v) && v.every(isNumber), 'a list of numbers'],
+  calibration: [orNull(isCalibrationCurve), 'a calibration curve as the app exports it, or null'],
+  airBaseline: [orNull(isAirBaseline), 'an air baseline as the app exports it, or null'],
+  material: [isMaterial, 'a material with id, name, density, radLength, zOverA, meanExcitation and composition']
+};
+
+/**
+ * Checks every field of a run config; an unknown or mistyped field is a config error.
+ */
+const validateConfig = (data: Record<string, unknown>, file: string): RunConfig => {
+  for (const [key, value] of Object.entries(data)) {
+    const field = CONFIG_FIELDS[key as keyof RunConfig];
+    if (!field) throw new UsageError(`The config "${file}" has an unknown field "${key}"`);
+    const [check, expected] = field;
+    if (!check(value)) throw new UsageError(`The config "${file}": "${key}" must be ${expected}`);
+  }
+  return data as RunConfig;
+};
+
+interface Run {
+  session: string | null;
+  state: SessionState;
+  pattern: string;
+  calibration: CalibrationCurve | null;
+  airBaseline: AirBaseline | null;
+  material: Material | null;
+}
+
+interface Options {
+  config: string;
+  out: string | null;
+  format: ExportFormat;
+  directory: string;
+}
+
+const parseArgs = (args: string[]): Options => {
+  const [command, ...rest] = args;
+  if (command !== 'analyze') throw new UsageError(command ? `Unknown command "${command}"` : 'No command given');
+  let config: string | null = null, out: string | null = null, format: ExportFormat = 'json';
+  const positional: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const value = () => {
+      if (i + 1 >= rest.length) throw new UsageError(`${arg} needs a value`);
+      return rest[++i];
+    };
+    if (arg === '--config') config = value();
+    else if (arg === '--out') out = value();
+    else if (arg === '--format') {
+      const f = value();
+      if (f !== 'json' && f !== 'csv') throw new UsageError(`Unknown format "${f}"`);
+      format = f;
+    } else if (arg.startsWith('--')) throw new UsageError(`Unknown option ${arg}`);
+    else positional.push(arg);
+  }
+  if (!config) throw new UsageError('--config is required');
+  if (positional.length !== 1) throw new UsageError('Give exactly one scan directory');
+  return { config, out, format, directory: positional[0] };
+};
+
+const toDataUrl = async (file: string): Promise<string> => {
+  const mime = MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+  return `data:${mime};base64,${(await readFile(file)).toString('base64')}`;
+};
+
+/**
+ * A run from a project file saved by the web app (its session, calibration and air baseline;
+ * its films are ignored) or from a run config.
+ */
+const loadRun = async (file: string): Promise<Run> => {
+  const text = await readFile(file, 'utf8').catch(() => {
+    throw new UsageError(`Cannot read the config "${file}"`);
+  });
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new UsageError(`The config "${file}" is not valid JSON`);
+  }
+  if (!isRecord(data)) {
+    throw new UsageError(`The config "${file}" must be a JSON object`);
+  }
+
+  if ('format' in data && data.format === PROJECT_FORMAT) {
+    const project = parseProject(text);
+    const state = restoreSessionState(project.session);
+    return {
+      session: project.sessionName,
+      state,
+      pattern: '',
+      calibration: project.calibrationCurves.find(c => c.id === state.activeCalibrationId) ?? null,
+      airBaseline: project.airBaselines.find(b => b.id === state.airBaselineId) ?? null,
+      // A custom material travels with the project; older files only have it in saved runs
+      material: [...project.materials, ...project.savedRuns.map(r => r.material)].find(m => m?.id === state.materialId) ?? null
+    };
+  }
+
+  const config = validateConfig(data, file);
+  const referencePath = async (src: string | null | undefined) =>
+    src ? (src.startsWith('data:') ? src : toDataUrl(path.resolve(path.dirname(file), src))) : null;
+  const background = config.background ?? {};
+  const state = restoreSessionState({
+    ...config,
+    films: [],
+    background: {
+      ...background,
+      unexposedImageSrc: await referencePath(background.unexposedImageSrc),
+      blankImageSrc: await referencePath(background.blankImageSrc)
+    } as BackgroundSettings,
+    // Configs are written for the current app, so the fallbacks for legacy sessions do not apply
+    beam: config.beam ?? DEFAULT_SESSION_STATE.beam,
+    scattering: config.scattering ?? DEFAULT_SESSION_STATE.scattering
+  });
+  return {
+    session: config.session ?? null,
+    state: { ...state, materialId: config.material?.id ?? state.materialId },
+    pattern: config.pattern ?? '',
+    calibration: config.calibration ?? null,
+    airBaseline: config.airBaseline ?? null,
+    material: config.material ?? null
+  };
+};
+
+/**
+ * The scan as the web app's loadImageData delivers it: TIFFs through the shared decoder,
+ * PNGs decoded here (there is no canvas), both reduced to `maxSize` by reduceImage.
+ */
+const loadScan = async (src: string, name: string, maxSize: number): Promise<ScaledImage> => {
+  if (isTiffSource(src)) return loadTiffImage(src, maxSize);
+  const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer());
+  if (!isPng(bytes)) throw new Error('Only PNG and TIFF scans are supported');
+  const { image, colourChunks } = decodePng(bytes);
+  if (colourChunks.length > 0) {
+    console.warn(`${name}: ${colourChunks.join(', ')} colour information is not applied; a browser may colour-manage this scan and measure different values.`);
+  }
+  return reduceImage(image, maxSize);
+};
+
+const loadReferences = async (background: BackgroundSettings, maxSize: number): Promise<BackgroundReferences> => {
+  const load = async (src: string | null): Promise<RgbaImage | null> => src ? (await loadScan(src, 'reference', maxSize)).image : null;
+  return {
+    unexposed: background.subtraction === 'unexposed' ? await load(background.unexposedImageSrc) : null,
+    blank: await load(background.blankImageSrc)
+  };
+};
+
+const kindOrder = (kind: ScanKind) => (kind === 'air' ? 0 : 1);
+
+const analyze = async (options: Options): Promise<number> => {
+  const run = await loadRun(options.config);
+  const { state } = run;
+
+  const names = await readdir(options.directory).catch(() => {
+    throw new UsageError(`Cannot read the scan directory "${options.directory}"`);
+  });
+  const scans = names
+    .filter(n => SCAN_EXTENSIONS.includes(path.extname(n).toLowerCase()))
+    .map(n => ({ file: n, ...parseScanName(n, run.pattern) }));
+  for (const s of scans.filter(s => s.distance === null || !(s.distance > 0) || s.kind === null)) {
+    console.warn(`${s.file}: skipped, distance or air/material not recognised in the file name`);
+  }
+  const resolved = scans
+    .filter((s): s is { file: string; distance: number; kind: ScanKind } => s.distance !== null && s.distance > 0 && s.kind !== null)
+    .sort((a, b) => a.distance - b.distance || kindOrder(a.kind) - kindOrder(b.kind) || a.file.localeCompare(b.file));
+  if (resolved.length === 0) throw new UsageError(`No scans with a recognised distance and type in "${options.directory}"`);
+
+  // Stations filled the way Batch Import fills them
+  const entries: ImportEntry[] = [];
+  for (const s of resolved) {
+    const src = await toDataUrl(path.join(options.directory, s.file));
+    entries.push({ distance: s.distance, kind: s.kind, src, scale: await scaleFromMetadata(src) });
+  }
+  const { films: planned, targets } = planBatchImport([], entries, true);
+  const fileNames = new Map(targets.map((t, i) => [`${t.filmId}:${resolved[i].kind}`, resolved[i].file]));
+
+  const references = await loadReferences(state.background, state.analysisMaxSize);
+  let failed = 0;
+  const films: FilmSample[] = [];
+  for (const film of planned) {
+    let analysed = film;
+    for (const kind of ['air', 'material'] as const) {
+      const src = kind === 'air' ? film.airImageSrc : film.materialImageSrc;
+      if (!src) continue;
+      const name = fileNames.get(`${film.id}:${kind}`)!;
+      const pixelScale = kind === 'air' ? film.airScale : film.materialScale;
+      const { image, scale } = await loadScan(src, name, state.analysisMaxSize);
+      const fit = analyzeFilm(image, {
+        pixelToMm: pixelScale?.mmPerPixel ?? state.pixelToMm,
+        scale,
+        calibration: run.calibration,
+        region: null,
+        background: state.background,
+        settings: state.analysisSettings
+      }, references);
+      if (fit.sigma > 0) {
+        console.warn(`${name}: sigma = ${fit.sigma.toFixed(4)} ± ${fit.sigmaError.toFixed(4)} mm`);
+      } else {
+        failed++;
+        console.warn(`${name}: fit failed${fit.diagnostics?.failure ? ` (${fit.diagnostics.failure})` : ''}`);
+      }
+      analysed = kind === 'air'
+        ? { ...analysed, airSigma: fit.sigma, airFit: fit }
+        : { ...analysed, materialSigma: fit.sigma, materialFit: fit };
+    }
+    films.push(analysed);
+  }
+
+  const material = run.material ?? MATERIAL_LIBRARY.find(m => m.id === state.materialId) ?? null;
+  if (state.materialId && !material) {
+    console.warn(`Material "${state.materialId}" is not in the library; models needing its composition are skipped.`);
+  }
+  const input = scatteringInput(state.highlandParams, material, state.beam.particle);
+  const modelPredictions = predictAll(input, state.scattering);
+  const context: SummaryContext = {
+    session: run.session,
+    materialName: state.materialName,
+    materialId: state.materialId,
+    highlandParams: state.highlandParams,
+    beam: state.beam,
+    pixelToMm: state.pixelToMm,
+    calibration: run.calibration,
+    airBaseline: run.airBaseline,
+    background: state.background,
+    analysisSettings: state.analysisSettings,
+    modelPredictions,
+    exitEnergy: thickTargetScattering(input, state.scattering.thickTargetSlices)?.exitEnergy ?? null
+  };
+  const summary = summarizeSession({
+    films,
+    groups: groupByDistance(films),
+    airBaseline: run.airBaseline,
+    uncertainties: state.uncertainties,
+    excludedDistances: state.excludedDistances,
+    theoreticalTheta: primaryPrediction(modelPredictions)?.theta0 ?? 0,
+    fitModel: state.fitModel
+  });
+  console.warn(`theta_RMS = ${(summary.thetaRms * 1000).toFixed(3)} ± ${(summary.thetaRmsError * 1000).toFixed(3)} mrad`);
+
+  const content = formatSummary(options.format, context, summary);
+  if (options.out) {
+    await mkdir(options.out, { recursive: true });
+    const file = path.join(options.out, `${safeFileName(`${state.materialName}_results`)}.${options.format}`);
+    await writeFile(file, content);
+    console.warn(`Wrote ${file}`);
+  } else {
+    process.stdout.write(content);
+  }
+
+  if (failed > 0) console.warn(`${failed} fit(s) failed`);
+  return failed > 0 ? 1 : 0;
+};
+
+const main = async () => {
+  try {
+    process.exitCode = await analyze(parseArgs(process.argv.slice(2)));
+  } catch (err) {
+    console.error(`bbsa: ${(err as Error).message}`);
+    if (err instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = 2;
+  }
+};
+
+main();
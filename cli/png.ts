@@ -0,0 +1,131 @@
+import { inflateSync } from 'node:zlib';
+import { RgbaImage } from '../types';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks a browser uses to colour-manage the pixels before they reach the canvas
+const COLOUR_CHUNKS = ['gAMA', 'cHRM', 'iCCP', 'sRGB'];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export interface DecodedPng {
+  image: RgbaImage;
+  colourChunks: string[]; // present in the file but not applied here
+}
+
+export const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/**
+ * Undoes the per-scanline filters; `bpp` is the filter's byte distance (at least 1).
+ */
+const unfilter = (data: Uint8Array, height: number, stride: number, bpp: number): Uint8Array => {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const type = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1, row = y * stride, prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      switch (type) {
+        case 0: out[row + x] = raw; break;
+        case 1: out[row + x] = raw + a; break;
+        case 2: out[row + x] = raw + b; break;
+        case 3: out[row + x] = raw + ((a + b) >> 1); break;
+        case 4: out[row + x] = raw + paeth(a, b, c); break;
+        default: throw new Error(`Corrupt PNG: unknown filter type ${type} in row ${y}`);
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Decodes a PNG into 8-bit RGBA, as a browser canvas would hand it to the analysis:
+ * 16-bit samples keep their high byte, low bit depths are scaled to 0-255, palette and
+ * tRNS transparency are expanded. Interlaced files are not supported.
+ */
+export const decodePng = (bytes: Uint8Array): DecodedPng => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0, height = 0, depth = 0, colorType = 0, interlace = 0;
+  let palette: Uint8Array | null = null, transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  const colourChunks: string[] = [];
+
+  let at = 8;
+  while (at + 8 <= bytes.length) {
+    const length = view.getUint32(at);
+    const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+    const body = bytes.subarray(at + 8, at + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(at + 8);
+      height = view.getUint32(at + 12);
+      depth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === 'PLTE') palette = body;
+    else if (type === 'tRNS') transparency = body;
+    else if (type === 'IDAT') idat.push(body);
+    else if (type === 'IEND') break;
+    else if (COLOUR_CHUNKS.includes(type)) colourChunks.push(type);
+    at += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || channels === undefined) throw new Error('Corrupt PNG: missing or invalid header');
+  if (interlace !== 0) throw new Error('Interlaced PNGs are not supported; re-save the scan without interlacing');
+  if (colorType === 3 && !palette) throw new Error('Corrupt PNG: palette image without a palette');
+
+  const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+  idat.reduce((offset, c) => (compressed.set(c, offset), offset + c.length), 0);
+  const stride = Math.ceil((width * channels * depth) / 8);
+  const raw = unfilter(inflateSync(compressed), height, stride, Math.max(1, (channels * depth) >> 3));
+
+  const rawSample = (row: number, n: number): number => {
+    if (depth === 16) return (raw[row + n * 2] << 8) | raw[row + n * 2 + 1];
+    if (depth === 8) return raw[row + n];
+    const bit = n * depth;
+    return (raw[row + (bit >> 3)] >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+  };
+  // Sample n of a row scaled to 8 bits; palette indices stay indices
+  const sample = (row: number, n: number): number => {
+    const value = rawSample(row, n);
+    if (depth === 16) return value >> 8;
+    return depth === 8 || colorType === 3 ? value : Math.round((value * 255) / ((1 << depth) - 1));
+  };
+  // tRNS for grey and RGB images names one fully transparent colour, in the file's bit depth
+  const transparentKey = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+    : null;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4, s = x * channels;
+      let r: number, g: number, b: number, a = 255;
+      if (colorType === 3) {
+        const index = sample(row, x);
+        r = palette![index * 3]; g = palette![index * 3 + 1]; b = palette![index * 3 + 2];
+        a = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (channels <= 2) {
+        r = g = b = sample(row, s);
+        if (channels === 2) a = sample(row, s + 1);
+      } else {
+        r = sample(row, s); g = sample(row, s + 1); b = sample(row, s + 2);
+        if (channels === 4) a = sample(row, s + 3);
+      }
+      if (transparentKey && transparentKey.every((k, i) => rawSample(row, s + i) === k)) a = 0;
+      data[o] = r; data[o + 1] = g; data[o + 2] = b; data[o + 3] = a;
+    }
+  }
+  return { image: { width, height, data }, colourChunks };
+};
@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import {
+  ComposedChart, Scatter, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { AirBaseline, AirBaselineModel, AirBaselinePoint } from '../types';
+import { AIR_BASELINE_MODELS, fitAirBaseline, evaluateAirBaseline, emittanceParameters } from '../utils/airBaseline';
+
+interface AirBaselineManagerProps {
+  baselines: AirBaseline[];
+  activeBaselineId: string | null;
+  points: AirBaselinePoint[]; // this session's air widths, one per distance
+  onSelect: (id: string | null) => void;
+  onSaveBaseline: (baseline: AirBaseline) => void;
+  onDeleteBaseline: (id: string) => void;
+}
+
+const CHART_STEPS = 40;
+
+const describe = (baseline: Pick<AirBaseline, 'model' | 'coefficients'>): string => {
+  const emittance = emittanceParameters(baseline);
+  if (emittance) {
+    return `σ₀ ${emittance.sigma0.toFixed(3)} mm · θ′ ${(emittance.divergence * 1000).toFixed(3)} mrad · ρ ${emittance.correlation.toFixed(2)}`;
+  }
+  if (baseline.model === 'emittance') return 'not a physical envelope (σ₀² or θ′² < 0)';
+  const [a, b, c] = baseline.coefficients;
+  return `a ${a.toFixed(3)} mm · b ${(b * 1000).toFixed(3)} mrad${c !== undefined ? ` · c ${c.toExponential(2)} /mm` : ''}`;
+};
+
+const AirBaselineManager: React.FC<AirBaselineManagerProps> = ({
+  baselines, activeBaselineId, points, onSelect, onSaveBaseline, onDeleteBaseline
+}) => {
+  const [name, setName] = useState('Air baseline');
+  const [model, setModel] = useState<AirBaselineModel>('emittance');
+
+  // Live fit of the current session's air widths; errors are shown instead of the chart
+  const preview = useMemo(() => {
+    if (points.length === 0) return { fit: null, error: null };
+    try {
+      return { fit: fitAirBaseline(points, model), error: null };
+    } catch (err) {
+      return { fit: null, error: (err as Error).message };
+    }
+  }, [points, model]);
+  const fit = preview.fit;
+
+  const chartData = useMemo(() => {
+    if (points.length === 0) return [];
+    const maxL = Math.max(...points.map(p => p.distance)) * 1.1;
+    const draft = fit ? { id: '', name, model, points, createdAt: 0, ...fit } : null;
+    const curve = draft
+      ? Array.from({ length: CHART_STEPS + 1 }, (_, i) => {
+          const L = (maxL * i) / CHART_STEPS;
+          return { L, fit: evaluateAirBaseline(draft, L).sigma };
+        })
+      : [];
+    return [...curve, ...points.map(p => ({ L: p.distance, sigma: p.sigma }))].sort((a, b) => a.L - b.L);
+  }, [points, fit, model, name]);
+
+  const handleSave = () => {
+    if (!fit) return;
+    onSaveBaseline({ id: Date.now().toString(), name: name.trim() || 'Air baseline', model, points, createdAt: Date.now(), ...fit });
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-xl space-y-6">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+        <span className="w-1 h-6 bg-sky-500 rounded-full"></span>
+        Air Baseline
+      </h2>
+
+      {/* Saved baselines */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-400">Air widths for this session</label>
+        <select
+          value={activeBaselineId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+        >
+          <option value="">Measured air film at each station</option>
+          {baselines.map(b => (
+            <option key={b.id} value={b.id}>{b.name} ({b.model})</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          A baseline supplies σ_air at every distance, including stations without an air film.
+        </p>
+        {baselines.length > 0 && (
+          <ul className="divide-y divide-gray-700 text-xs">
+            {baselines.map(b => (
+              <li key={b.id} className="py-2 flex items-center justify-between gap-3">
+                <div>
+                  <span className="text-gray-200">{b.name}</span>
+                  <span className="text-gray-500 ml-2">{AIR_BASELINE_MODELS.find(m => m.id === b.model)?.label}</span>
+                  <span className="text-gray-500 ml-2 font-mono">{describe(b)}</span>
+                  <span className="text-gray-500 ml-2">
+                    {b.points.length} distances, {b.points[0]?.distance}–{b.points[b.points.length - 1]?.distance} mm
+                    {b.ndf > 0 && `, χ²/ndf ${(b.chiSquare / b.ndf).toFixed(2)}`}
+                  </span>
+                </div>
+                <button onClick={() => onDeleteBaseline(b.id)} className="text-red-400 hover:text-red-300">Delete</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* New baseline from the session's air scans */}
+      <div className="border-t border-gray-700 pt-4 space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300">Build from this session's air scans</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-white"
+          />
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value as AirBaselineModel)}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-white"
+          >
+            {AIR_BASELINE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </div>
+        <div className="text-xs text-gray-500 font-mono">{AIR_BASELINE_MODELS.find(m => m.id === model)?.formula}</div>
+
+        {points.length === 0 && <div className="text-xs text-gray-500">Analyse air scans in Data Entry to fit a baseline.</div>}
+        {preview.error && <div className="text-xs text-yellow-500">{preview.error}</div>}
+        {fit && <div className="text-xs text-gray-400 font-mono">{describe({ model, coefficients: fit.coefficients })}</div>}
+
+        {chartData.length > 0 && (
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="L" type="number" tick={{ fill: '#9ca3af', fontSize: 11 }} label={{ value: 'L (mm)', position: 'insideBottom', offset: -2, fill: '#9ca3af', fontSize: 11 }} />
+                <YAxis tick={{ fill: '#9ca3af', fontSize: 11 }} label={{ value: 'σ_air (mm)', angle: -90, position: 'insideLeft', fill: '#9ca3af', fontSize: 11 }} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
+                  labelFormatter={(label) => `L: ${Number(label).toFixed(0)} mm`}
+                  formatter={(value: number) => value.toFixed(3)}
+                />
+                <Line type="monotone" dataKey="fit" stroke="#38bdf8" dot={false} strokeWidth={2} connectNulls />
+                <Scatter dataKey="sigma" fill="#f3f4f6" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          disabled={!fit}
+          className="w-full py-2 bg-sky-600 hover:bg-sky-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-semibold rounded-lg transition-colors"
+        >
+          Save Baseline
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AirBaselineManager;
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisSettings } from '../types';
+import { DEFAULT_ANALYSIS_SETTINGS } from '../utils/physics';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const FIELDS: { key: keyof AnalysisSettings; label: string; help: string; step: number; percent?: boolean }[] = [
+  { key: 'centroidGate', label: 'Centroid gate', help: 'Raw 8-bit intensity a pixel must exceed to count towards the centroid (rescaled for dose maps).', step: 1 },
+  { key: 'fitLow', label: 'Fit band low (%)', help: 'Profile points below this fraction of the peak are left out of the core fit.', step: 1, percent: true },
+  { key: 'fitHigh', label: 'Fit band high (%)', help: 'Points above it are left out too (saturated or noisy tip).', step: 1, percent: true },
+  { key: 'minFitPoints', label: 'Min. points in band', help: 'Fewer points inside the band fail the fit.', step: 1 },
+  { key: 'binWidth', label: 'Radial bin (px)', help: 'Ring width of the radial profile, in analysed pixels.', step: 0.25 }
+];
+
+/**
+ * User-facing problem with a draft, or null when it can be applied.
+ */
+const validate = (s: AnalysisSettings): string | null => {
+  if (!(s.centroidGate >= 0 && s.centroidGate < 255)) return 'The centroid gate must be between 0 and 255.';
+  if (!(s.fitLow > 0 && s.fitHigh <= 1 && s.fitLow < s.fitHigh)) return 'The fit band needs 0 < low < high ≤ 100%.';
+  if (!(Number.isInteger(s.minFitPoints) && s.minFitPoints >= 3)) return 'At least 3 points are needed in the fit band.';
+  if (!(s.binWidth > 0)) return 'The radial bin width must be positive.';
+  return null;
+};
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange }) => {
+  // Edits are applied together, since every change re-runs the analysis of all scans
+  const [draft, setDraft] = useState<AnalysisSettings>(settings);
+  useEffect(() => setDraft(settings), [settings]);
+
+  const problem = validate(draft);
+  const dirty = FIELDS.some(f => draft[f.key] !== settings[f.key]);
+  const isDefault = FIELDS.every(f => settings[f.key] === DEFAULT_ANALYSIS_SETTINGS[f.key]);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-xl space-y-6">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+        <span className="w-1 h-6 bg-orange-500 rounded-full"></span>
+        Analysis Settings
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {FIELDS.map(f => (
+          <div key={f.key} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-400">{f.label}</label>
+            <input
+              type="number"
+              step={f.step}
+              value={f.percent ? Math.round(draft[f.key] * 1000) / 10 : draft[f.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                setDraft({ ...draft, [f.key]: f.percent ? value / 100 : value });
+              }}
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white outline-none"
+            />
+            <p className="text-xs text-gray-500">{f.help}</p>
+          </div>
+        ))}
+      </div>
+
+      {problem && <p className="text-xs text-yellow-500">{problem}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onChange(draft)}
+          disabled={!dirty || problem !== null}
+          className="px-4 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-sm font-semibold rounded-lg transition-colors"
+        >
+          Apply &amp; Re-analyse
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_ANALYSIS_SETTINGS)}
+          disabled={isDefault}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-white text-sm rounded-lg transition-colors"
+        >
+          Reset to Defaults
+        </button>
+        {dirty && <span className="text-xs text-gray-500">Unapplied changes</span>}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
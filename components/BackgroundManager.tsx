@@ -0,0 +1,106 @@
+import React from 'react';
+import { BackgroundSettings, BackgroundSubtraction } from '../types';
+import { SCAN_FILE_TYPES } from '../utils/physics';
+import ScanImage from './ScanImage';
+
+interface BackgroundManagerProps {
+  settings: BackgroundSettings;
+  onChange: (settings: BackgroundSettings) => void;
+}
+
+const SUBTRACTION_OPTIONS: { id: BackgroundSubtraction; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'unexposed', label: 'Unexposed film (pixel-wise)' },
+  { id: 'annular', label: 'Annular region beyond N·σ' }
+];
+
+const ReferenceScan: React.FC<{
+  title: string;
+  help: string;
+  src: string | null;
+  onChange: (src: string | null) => void;
+}> = ({ title, help, src, onChange }) => {
+  const handleUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => onChange(e.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-400">{title}</label>
+        {src && <button onClick={() => onChange(null)} className="text-xs text-red-400 hover:text-red-300">Remove</button>}
+      </div>
+      {src ? (
+        <ScanImage src={src} alt={title} className="w-full h-24 object-contain bg-black rounded border border-gray-700" />
+      ) : (
+        <label className="h-24 border-2 border-dashed border-gray-700 rounded flex items-center justify-center text-gray-500 text-xs cursor-pointer hover:border-gray-500">
+          Upload scan
+          <input type="file" accept={SCAN_FILE_TYPES} className="hidden" onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])} />
+        </label>
+      )}
+      <p className="text-xs text-gray-500">{help}</p>
+    </div>
+  );
+};
+
+const BackgroundManager: React.FC<BackgroundManagerProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<BackgroundSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-xl space-y-6">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+        <span className="w-1 h-6 bg-teal-500 rounded-full"></span>
+        Background &amp; Flat Field
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ReferenceScan
+          title="Unexposed film"
+          help="Same film batch, scanned like the exposed films. Subtracted pixel by pixel."
+          src={settings.unexposedImageSrc}
+          onChange={(src) => update({ unexposedImageSrc: src })}
+        />
+        <ReferenceScan
+          title="Scanner blank"
+          help="Empty scanner bed. When present, every scan is divided by its smoothed response."
+          src={settings.blankImageSrc}
+          onChange={(src) => update({ blankImageSrc: src })}
+        />
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-400">Background subtraction</label>
+          <select
+            value={settings.subtraction}
+            onChange={(e) => update({ subtraction: e.target.value as BackgroundSubtraction })}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+          >
+            {SUBTRACTION_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          {settings.subtraction === 'annular' && (
+            <div className="flex items-center gap-3 text-sm">
+              <label className="text-gray-400">N (σ):</label>
+              <input
+                type="number" step="0.5" min="1"
+                value={settings.annulusSigma}
+                onChange={(e) => update({ annulusSigma: parseFloat(e.target.value) })}
+                className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-right font-mono"
+              />
+            </div>
+          )}
+          {settings.subtraction === 'unexposed' && !settings.unexposedImageSrc && (
+            <p className="text-xs text-yellow-500">Upload an unexposed film scan; until then no background is subtracted.</p>
+          )}
+          <p className="text-xs text-gray-500">
+            {settings.subtraction === 'annular'
+              ? 'A plane is fitted to the film outside N·σ of the beam and subtracted; the centroid and profile are then recomputed.'
+              : 'Applied to every air and material scan before the centroid and radial profile.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundManager;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { FilmSample } from '../types';
+import { SCAN_FILE_TYPES } from '../utils/physics';
+import { scaleFromMetadata } from '../utils/scanMetadata';
+import {
+  ScanKind, ImportEntry, IMPORT_PATTERN_PRESETS,
+  parseScanName, planBatchImport, loadImportPattern, saveImportPattern
+} from '../utils/batchImport';
+
+interface BatchImportProps {
+  films: FilmSample[];
+  onImport: (update: (films: FilmSample[]) => FilmSample[]) => void; // applied to the stations current at import time
+}
+
+interface Row {
+  file: File;
+  distance: number | null; // mm
+  kind: ScanKind | 'skip' | null;
+}
+
+const readDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const byDistanceThenKind = (a: Row, b: Row) =>
+  (a.distance ?? Infinity) - (b.distance ?? Infinity) || String(a.kind).localeCompare(String(b.kind));
+
+/**
+ * Drop many scans at once; distance and air/material are read from the filenames
+ * and can be corrected in the preview before the stations are filled.
+ */
+const BatchImport: React.FC<BatchImportProps> = ({ films, onImport }) => {
+  const [pattern, setPattern] = useState(loadImportPattern);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [removeEmpty, setRemoveEmpty] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const parseRow = (file: File, p: string): Row => {
+    const { distance, kind } = parseScanName(file.name, p);
+    return { file, distance, kind };
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const added = [...files].map(f => parseRow(f, pattern));
+    setRows(prev => [...prev, ...added].sort(byDistanceThenKind));
+  };
+
+  const handlePattern = (next: string) => {
+    setPattern(next);
+    saveImportPattern(next);
+    setRows(prev => prev.map(r => parseRow(r.file, next)).sort(byDistanceThenKind));
+  };
+
+  const updateRow = (index: number, patch: Partial<Row>) => {
+    setRows(prev => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const isResolved = (r: Row) => r.kind === 'skip' || (r.kind !== null && r.distance !== null && r.distance > 0);
+  const unresolved = rows.filter(r => !isResolved(r)).length;
+  const included = rows.filter(r => r.kind !== 'skip' && isResolved(r));
+
+  const plan = (current: FilmSample[], entries: ImportEntry[]) => planBatchImport(current, entries, removeEmpty);
+
+  // Dry run of the placement so the preview shows where each scan will go
+  const preview = plan(films, included.map(r => ({ distance: r.distance!, kind: r.kind as ScanKind, src: 'pending', scale: null })));
+  const targetLabel = (row: Row) => {
+    const i = included.indexOf(row);
+    if (i < 0) return '—';
+    const target = preview.targets[i];
+    const position = preview.films.findIndex(f => f.id === target.filmId) + 1;
+    return target.isNew ? `FILM ${position} (new)` : `FILM ${position}`;
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const entries: ImportEntry[] = [];
+      for (const row of included) {
+        // Multi-page TIFFs use their first full-resolution image
+        const src = await readDataUrl(row.file);
+        entries.push({ distance: row.distance!, kind: row.kind as ScanKind, src, scale: await scaleFromMetadata(src) });
+      }
+      // Fits and edits may have landed while the files were read, so place into the latest stations
+      onImport(current => plan(current, entries).films);
+      setRows([]);
+    } catch (err) {
+      alert(`Import failed: ${(err as Error).message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-4">
+      <label
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setDragging(false); addFiles(e.dataTransfer.files); }}
+        className={`block border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          dragging ? 'border-indigo-400 bg-indigo-900/20' : 'border-gray-700 hover:border-gray-500'
+        }`}
+      >
+        <span className="text-sm text-gray-300">Drop air and material scans here, or click to choose several</span>
+        <span className="block text-xs text-gray-500 mt-1">Distance and type are read from the filenames.</span>
+        <input type="file" multiple className="hidden" accept={SCAN_FILE_TYPES} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="text-gray-400">Filename pattern:</label>
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => handlePattern(e.target.value)}
+          placeholder="Auto"
+          className="w-48 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white font-mono"
+        />
+        {IMPORT_PATTERN_PRESETS.map(p => (
+          <button
+            key={p.pattern}
+            onClick={() => handlePattern(p.pattern)}
+            title={p.pattern || 'Guess from common conventions'}
+            className={`px-2 py-1 rounded ${pattern === p.pattern ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {p.example}
+          </button>
+        ))}
+        <span className="text-gray-500">{'{L}'} = distance in mm, {'{type}'} = air/mat, * = anything</span>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-500 uppercase">
+                <tr>
+                  <th className="px-2 py-1">File</th>
+                  <th className="px-2 py-1">L (mm)</th>
+                  <th className="px-2 py-1">Type</th>
+                  <th className="px-2 py-1">Goes to</th>
+                  <th className="px-2 py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {rows.map((row, i) => (
+                  <tr key={`${row.file.name}-${i}`} className={isResolved(row) ? '' : 'bg-red-900/20'}>
+                    <td className="px-2 py-1 font-mono text-gray-300 truncate max-w-xs" title={row.file.name}>{row.file.name}</td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        value={row.distance ?? ''}
+                        onChange={(e) => updateRow(i, { distance: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                        className={`w-20 bg-gray-900 border rounded px-1 py-0.5 text-white text-right font-mono ${row.distance === null ? 'border-red-500' : 'border-gray-700'}`}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        value={row.kind ?? ''}
+                        onChange={(e) => updateRow(i, { kind: (e.target.value || null) as Row['kind'] })}
+                        className={`bg-gray-900 border rounded px-1 py-0.5 text-white ${row.kind === null ? 'border-red-500' : 'border-gray-700'}`}
+                      >
+                        <option value="">?</option>
+                        <option value="air">Air</option>
+                        <option value="material">Material</option>
+                        <option value="skip">Skip</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1 text-gray-400">{targetLabel(row)}</td>
+                    <td className="px-2 py-1 text-right">
+                      <button onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+            <label className="flex items-center gap-2 text-gray-400">
+              <input type="checkbox" checked={removeEmpty} onChange={(e) => setRemoveEmpty(e.target.checked)} />
+              Remove stations without scans
+            </label>
+            <div className="flex items-center gap-3">
+              {unresolved > 0 && <span className="text-red-400">{unresolved} file{unresolved === 1 ? '' : 's'} need a distance or type</span>}
+              <button onClick={() => setRows([])} className="text-gray-400 hover:text-gray-200">Clear</button>
+              <button
+                disabled={unresolved > 0 || included.length === 0 || importing}
+                onClick={handleImport}
+                className="px-4 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-semibold"
+              >
+                {importing ? 'Importing…' : `Import ${included.length} scan${included.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchImport;
@@ -0,0 +1,216 @@
+import React, { useState, useMemo } from 'react';
+import {
+  ComposedChart, Scatter, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { CalibrationCurve, CalibrationModel, CalibrationPoint, ColorChannel } from '../types';
+import { SCAN_FILE_TYPES } from '../utils/physics';
+import { loadImageData } from '../utils/imageLoader';
+import {
+  CALIBRATION_MODELS, CHANNEL_INDEX, measureCalibrationFilm, fitCalibrationCurve,
+  netOpticalDensity, evaluateCalibrationModel
+} from '../utils/calibration';
+
+interface CalibrationManagerProps {
+  curves: CalibrationCurve[];
+  activeCurveId: string | null;
+  onSelect: (id: string | null) => void;
+  onSaveCurve: (curve: CalibrationCurve) => void;
+  onDeleteCurve: (id: string) => void;
+}
+
+interface DraftFilm {
+  key: number;
+  dose: number;
+  pixelValue: [number, number, number] | null;
+  fileName: string | null;
+}
+
+const newDraftFilm = (dose: number): DraftFilm => ({ key: Date.now() + Math.random(), dose, pixelValue: null, fileName: null });
+
+const CalibrationManager: React.FC<CalibrationManagerProps> = ({ curves, activeCurveId, onSelect, onSaveCurve, onDeleteCurve }) => {
+  const [name, setName] = useState('EBT3 Calibration');
+  const [channel, setChannel] = useState<ColorChannel>('red');
+  const [model, setModel] = useState<CalibrationModel>('rational');
+  const [films, setFilms] = useState<DraftFilm[]>([newDraftFilm(0), newDraftFilm(1), newDraftFilm(2)]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = (key: number, file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const { image } = await loadImageData(e.target?.result as string);
+        const pixelValue = measureCalibrationFilm(image);
+        setFilms(prev => prev.map(f => f.key === key ? { ...f, pixelValue, fileName: file.name } : f));
+      } catch (err) {
+        console.error(err);
+        setError(`Could not read ${file.name}`);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const points: CalibrationPoint[] = useMemo(() => films
+    .filter(f => f.pixelValue !== null)
+    .map(f => ({ dose: f.dose, pixelValue: f.pixelValue! })), [films]);
+
+  // Live fit preview; errors are shown instead of the chart
+  const preview = useMemo(() => {
+    if (points.length === 0) return { fit: null, error: null };
+    try {
+      return { fit: fitCalibrationCurve(points, channel, model), error: null };
+    } catch (err) {
+      return { fit: null, error: (err as Error).message };
+    }
+  }, [points, channel, model]);
+  const fit = preview.fit;
+
+  const chartData = useMemo(() => {
+    if (!fit) return [];
+    const ch = CHANNEL_INDEX[channel];
+    const measured = points
+      .map(p => ({ netOD: netOpticalDensity(p.pixelValue[ch], fit.unexposedPixelValue), dose: p.dose }))
+      .sort((a, b) => a.netOD - b.netOD);
+    const maxOD = Math.max(...measured.map(m => m.netOD), 0.01);
+    const curve = Array.from({ length: 41 }, (_, i) => {
+      const x = (maxOD * 1.1 * i) / 40;
+      return { netOD: x, fit: evaluateCalibrationModel(model, fit.coefficients, x) };
+    });
+    return [...measured, ...curve].sort((a, b) => a.netOD - b.netOD);
+  }, [fit, points, channel, model]);
+
+  const handleSave = () => {
+    if (!fit) return;
+    const curve: CalibrationCurve = {
+      id: Date.now().toString(),
+      name: name.trim() || 'Unnamed Calibration',
+      channel,
+      model,
+      ...fit,
+      points,
+      createdAt: Date.now()
+    };
+    onSaveCurve(curve);
+    onSelect(curve.id);
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-xl space-y-6">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+        <span className="w-1 h-6 bg-amber-500 rounded-full"></span>
+        Dose Calibration
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Saved curves */}
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-400 mb-1">Calibration for this session</label>
+          <select
+            value={activeCurveId ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+          >
+            <option value="">None (raw 255 − brightness)</option>
+            {curves.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {curves.map(c => (
+              <div key={c.id} className={`flex items-center justify-between p-2 rounded border text-xs ${c.id === activeCurveId ? 'border-amber-500/50 bg-gray-700' : 'border-gray-700 bg-gray-900/50'}`}>
+                <div>
+                  <div className="font-bold text-gray-200">{c.name}</div>
+                  <div className="text-gray-500">{c.channel} channel · {c.model} · R² {c.rSquared.toFixed(4)} · {c.points.length} films</div>
+                </div>
+                <button onClick={() => onDeleteCurve(c.id)} className="text-red-400 hover:text-red-300 px-2">Delete</button>
+              </div>
+            ))}
+            {curves.length === 0 && (
+              <p className="text-xs text-gray-500 italic">No calibration curves saved yet. Profiles use uncalibrated intensity.</p>
+            )}
+          </div>
+        </div>
+
+        {/* New curve */}
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-400 mb-1">New calibration curve</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <select value={channel} onChange={(e) => setChannel(e.target.value as ColorChannel)} className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none">
+              <option value="red">Red channel</option>
+              <option value="green">Green channel</option>
+              <option value="blue">Blue channel</option>
+            </select>
+            <select value={model} onChange={(e) => setModel(e.target.value as CalibrationModel)} className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none">
+              {CALIBRATION_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+          </div>
+          <div className="text-xs text-gray-500 font-mono">{CALIBRATION_MODELS.find(m => m.id === model)?.formula}, x = netOD</div>
+        </div>
+      </div>
+
+      {/* Calibration films */}
+      <div className="space-y-2">
+        {films.map(f => (
+          <div key={f.key} className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="text-gray-400">Dose (Gy):</label>
+            <input
+              type="number" step="0.1" min="0"
+              value={f.dose}
+              onChange={(e) => setFilms(prev => prev.map(p => p.key === f.key ? { ...p, dose: parseFloat(e.target.value) } : p))}
+              className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-right font-mono"
+            />
+            <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded text-white transition-colors">
+              Upload Scan
+              <input type="file" className="hidden" accept={SCAN_FILE_TYPES} onChange={(e) => e.target.files && handleUpload(f.key, e.target.files[0])} />
+            </label>
+            <span className="text-xs text-gray-500 font-mono flex-1 truncate">
+              {f.pixelValue ? `${f.fileName} · PV ${f.pixelValue[CHANNEL_INDEX[channel]].toFixed(1)}` : 'No scan'}
+            </span>
+            <button onClick={() => setFilms(prev => prev.filter(p => p.key !== f.key))} className="text-xs text-red-400 hover:text-red-300">Remove</button>
+          </div>
+        ))}
+        <button
+          onClick={() => setFilms(prev => [...prev, newDraftFilm((prev[prev.length - 1]?.dose ?? 0) + 1)])}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-white transition-colors"
+        >
+          + Add Calibration Film
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {preview.error && <div className="text-xs text-yellow-500">{preview.error}</div>}
+
+      {chartData.length > 0 && (
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="netOD" type="number" tick={{ fill: '#9ca3af', fontSize: 11 }} tickFormatter={(v) => Number(v).toFixed(2)} />
+              <YAxis tick={{ fill: '#9ca3af', fontSize: 11 }} label={{ value: 'Dose (Gy)', angle: -90, position: 'insideLeft', fill: '#9ca3af', fontSize: 11 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
+                labelFormatter={(label) => `netOD: ${Number(label).toFixed(3)}`}
+              />
+              <Line type="monotone" dataKey="fit" stroke="#fbbf24" dot={false} strokeWidth={2} connectNulls />
+              <Scatter dataKey="dose" fill="#60a5fa" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={!fit}
+        className="w-full py-2 bg-amber-600 hover:bg-amber-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-semibold rounded-lg transition-colors"
+      >
+        {fit ? `Save Curve (R² = ${fit.rSquared.toFixed(4)})` : 'Save Curve'}
+      </button>
+    </div>
+  );
+};
+
+export default CalibrationManager;
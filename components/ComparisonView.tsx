@@ -1,11 +1,15 @@
 import React, { useState, useMemo } from 'react';
-import { SavedRun } from '../types';
+import { AnalysisSettings, SavedRun, ScatteringModelId } from '../types';
+import { exportComparison } from '../utils/export';
+import { getScatteringModel, savedRunPredictions } from '../utils/scattering';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer 
 } from 'recharts';
 
 interface ComparisonViewProps {
   savedRuns: SavedRun[];
+  onRenameRun: (id: string, name: string) => void;
+  onDeleteRun: (id: string) => void;
 }
 
 const COLORS = [
@@ -19,8 +23,40 @@ const COLORS = [
   '#e879f9', // fuchsia-400
 ];
 
-const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
+const describeSettings = (s: AnalysisSettings) =>
+  `gate ${s.centroidGate} · band ${Math.round(s.fitLow * 100)}–${Math.round(s.fitHigh * 100)}% · ≥${s.minFitPoints} pts · bin ${s.binWidth} px`;
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns, onRenameRun, onDeleteRun }) => {
   const [selectedRunIds, setSelectedRunIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [showTheory, setShowTheory] = useState(false);
+
+  // Series keys are run ids, or "runId|model" for a run's theory line
+  const seriesLabel = (key: string) => {
+    const [runId, model] = key.split('|');
+    const run = savedRuns.find(r => r.id === runId);
+    const name = run ? run.name : runId;
+    return model ? `${name} · ${getScatteringModel(model as ScatteringModelId).name}` : name;
+  };
+
+  const startRename = (run: SavedRun) => {
+    setEditingId(run.id);
+    setEditName(run.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRenameRun(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (run: SavedRun) => {
+    if (!confirm(`Delete saved run "${run.name}"?`)) return;
+    const next = new Set(selectedRunIds);
+    next.delete(run.id);
+    setSelectedRunIds(next);
+    onDeleteRun(run.id);
+  };
 
   const toggleRun = (id: string) => {
     const newSet = new Set(selectedRunIds);
@@ -48,13 +84,17 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
       selectedRuns.forEach(run => {
         const match = run.results.find(r => r.distance === dist);
         if (match) {
-          // Plot strictly experimental sigmaCorrected values
           point[run.id] = match.sigmaCorrected;
         }
+        if (showTheory) {
+          savedRunPredictions(run).forEach(p => {
+            if (p.theta0) point[`${run.id}|${p.model}`] = p.theta0 * dist;
+          });
+        }
       });
       return point;
     });
-  }, [savedRuns, selectedRunIds]);
+  }, [savedRuns, selectedRunIds, showTheory]);
 
   if (savedRuns.length === 0) {
     return (
@@ -89,8 +129,31 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
                   className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-indigo-500 focus:ring-offset-gray-900"
                 />
                 <div className="flex-1 min-w-0">
-                  <div className="text-sm font-bold text-gray-200 truncate">{run.materialName}</div>
-                  <div className="text-[10px] text-gray-500">{new Date(run.timestamp).toLocaleDateString()}</div>
+                  {editingId === run.id ? (
+                    <input
+                      autoFocus
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      onClick={(e) => e.preventDefault()}
+                      className="w-full bg-gray-900 border border-gray-600 rounded px-1 text-sm text-white outline-none"
+                    />
+                  ) : (
+                    <div className="text-sm font-bold text-gray-200 truncate">{run.name}</div>
+                  )}
+                  <div className="text-[10px] text-gray-500 truncate">
+                    {run.name !== run.materialName && `${run.materialName} · `}
+                    {run.material && `X₀ ${run.highlandParams.radLength.toFixed(2)} cm · `}
+                    {new Date(run.timestamp).toLocaleDateString()}
+                  </div>
+                  <div className="text-[10px] text-gray-600 truncate" title="Analysis settings of this run">
+                    {run.analysisSettings ? describeSettings(run.analysisSettings) : 'analysis settings not recorded'}
+                  </div>
+                  <div className="flex gap-2 mt-1 text-[10px]">
+                    <button onClick={(e) => { e.preventDefault(); startRename(run); }} className="text-gray-400 hover:text-gray-200">Rename</button>
+                    <button onClick={(e) => { e.preventDefault(); handleDelete(run); }} className="text-red-400 hover:text-red-300">Delete</button>
+                  </div>
                 </div>
                 <div 
                   className="w-2.5 h-2.5 rounded-full" 
@@ -106,7 +169,18 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
           <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 shadow-xl">
             <h4 className="text-lg font-bold text-gray-200 mb-6 flex items-center justify-between">
               <span>Material Comparison (Experimental σ)</span>
-              <span className="text-xs font-normal text-gray-500 italic">No Theoretical Lines Shown</span>
+              <span className="flex items-center gap-3">
+                {selectedRunIds.size > 0 && (
+                  <>
+                    <button onClick={() => exportComparison('comparison', 'csv', savedRuns.filter(r => selectedRunIds.has(r.id)))} className="text-xs font-normal bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-white">Export CSV</button>
+                    <button onClick={() => exportComparison('comparison', 'json', savedRuns.filter(r => selectedRunIds.has(r.id)))} className="text-xs font-normal bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-white">Export JSON</button>
+                  </>
+                )}
+                <label className="flex items-center gap-1 text-xs font-normal text-gray-400">
+                  <input type="checkbox" checked={showTheory} onChange={(e) => setShowTheory(e.target.checked)} className="w-3 h-3 rounded border-gray-600 bg-gray-700" />
+                  Theory lines
+                </label>
+              </span>
             </h4>
             
             {selectedRunIds.size > 0 ? (
@@ -126,16 +200,10 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
                     <Tooltip 
                       contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }}
                       labelFormatter={(label) => `Distance: ${label} mm`}
-                      formatter={(value: number, name: string) => {
-                         const run = savedRuns.find(r => r.id === name);
-                         return [value.toFixed(3) + ' mm', run ? run.materialName : name];
-                      }}
+                      formatter={(value: number, name: string) => [value.toFixed(3) + ' mm', seriesLabel(name)]}
                     />
                     <Legend 
-                        formatter={(value) => {
-                            const run = savedRuns.find(r => r.id === value);
-                            return <span className="text-gray-300 text-sm">{run ? run.materialName : value}</span>;
-                        }}
+                        formatter={(value) => <span className="text-gray-300 text-sm">{seriesLabel(value)}</span>}
                     />
                     {savedRuns.filter(r => selectedRunIds.has(r.id)).map((run, idx) => {
                        const globalIdx = savedRuns.findIndex(r => r.id === run.id);
@@ -151,6 +219,21 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
                          />
                        );
                     })}
+                    {showTheory && savedRuns.filter(r => selectedRunIds.has(r.id)).flatMap(run => {
+                       const globalIdx = savedRuns.findIndex(r => r.id === run.id);
+                       // Runs keep their colour; models are told apart by dash pattern
+                       return savedRunPredictions(run).filter(p => p.theta0).map(p => (
+                         <Line
+                           key={`${run.id}|${p.model}`}
+                           type="linear"
+                           dataKey={`${run.id}|${p.model}`}
+                           stroke={COLORS[globalIdx % COLORS.length]}
+                           strokeWidth={1.5}
+                           strokeDasharray={getScatteringModel(p.model).dash}
+                           dot={false}
+                         />
+                       ));
+                    })}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -169,6 +252,8 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
                   <tr>
                     <th className="px-6 py-4 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Material</th>
                     <th className="px-6 py-4 text-right text-xs font-bold text-purple-400 uppercase tracking-wider">Exp. θ RMS (rad)</th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-amber-400 uppercase tracking-wider">Fit θ₀ (rad)</th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">Theory θ₀ (rad)</th>
                     <th className="px-6 py-4 text-right text-xs font-bold text-green-400 uppercase tracking-wider">Max σ (mm)</th>
                   </tr>
                 </thead>
@@ -180,11 +265,27 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ savedRuns }) => {
                         <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center gap-2">
                                 <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[savedRuns.findIndex(r => r.id === run.id) % COLORS.length] }} />
-                                <span className="text-sm font-bold text-gray-200">{run.materialName}</span>
+                                <span className="text-sm font-bold text-gray-200">{run.name}</span>
                             </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-purple-300 font-mono">
                           {run.thetaRms.toExponential(4)}
+                          <span className="ml-1 text-xs text-purple-300/60">± {run.thetaRmsError.toExponential(2)}</span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-amber-300 font-mono">
+                          {run.linearFit ? (
+                            <>
+                              {run.linearFit.slope.toExponential(4)}
+                              <span className="ml-1 text-xs text-amber-300/60">± {run.linearFit.slopeError.toExponential(2)}</span>
+                            </>
+                          ) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-xs text-right font-mono">
+                          {savedRunPredictions(run).map(p => (
+                            <div key={p.model} style={{ color: getScatteringModel(p.model).color }} title={getScatteringModel(p.model).name}>
+                              {p.theta0 ? p.theta0.toExponential(3) : 'n/a'}
+                            </div>
+                          ))}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-300 font-mono">
                           {maxSigma.toFixed(3)}
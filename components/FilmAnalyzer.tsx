@@ -1,22 +1,59 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine 
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
 } from 'recharts';
-import { loadImageData, calculateCentroid, calculateRadialProfile, fitGaussian, calculateFitCurve } from '../utils/physics';
-import { RadialDataPoint } from '../types';
+import { loadImageData } from '../utils/imageLoader';
+import { analyzeFilmAsync, loadBackgroundReferences } from '../utils/analysisClient';
+import { exportProfile, ExportFormat } from '../utils/export';
+import { TiffError } from '../utils/tiff';
+import { AnalysisSettings, AxisGaussianFit, BackgroundSettings, HaloModel, BackgroundSubtraction, CalibrationCurve, FilmRegion, GaussianFitResult, PixelScale } from '../types';
+import { isEmptyRegion } from '../utils/region';
+import { FIT_FLAG_LABELS } from '../utils/diagnostics';
+import { HALO_MODELS, evaluateHalo } from '../utils/haloFits';
+import RegionEditor from './RegionEditor';
+import RulerTool from './RulerTool';
+import SensitivityScan from './SensitivityScan';
 
 interface FilmAnalyzerProps {
   imageSrc: string;
-  pixelToMm: number;
-  onAnalysisComplete: (sigma: number) => void;
+  pixelToMm: number; // scanner mm per original pixel for this image
+  scale: PixelScale | null; // where pixelToMm came from; null = session default
+  onScaleChange: (scale: PixelScale | null) => void;
+  maxSize: number; // longest analysed edge in px, 0 = full resolution
+  calibration: CalibrationCurve | null;
+  region: FilmRegion | null;
+  background: BackgroundSettings;
+  settings: AnalysisSettings;
+  systematic: number | null; // mm, from a sensitivity scan
+  onSystematicChange: (systematic: number | null) => void;
+  onRegionChange: (region: FilmRegion | null) => void;
+  onAnalysisComplete: (fit: GaussianFitResult) => void;
   label: string;
+  exportName: string; // base file name for profile downloads
 }
 
-const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, onAnalysisComplete, label }) => {
+type Overlay = 'region' | 'ruler' | 'sensitivity' | null;
+
+const SCALE_LABELS: Record<PixelScale['source'] | 'default', (mmPerPixel: number) => string> = {
+  metadata: mm => `${(25.4 / mm).toFixed(0)} DPI from file`,
+  ruler: () => 'ruler',
+  default: () => 'session default'
+};
+
+const BACKGROUND_LABELS: Record<BackgroundSubtraction, string> = { none: 'no', unexposed: 'unexposed-film', annular: 'annular' };
+
+// Errors can be NaN when the covariance is singular (e.g. round beam → undefined angle)
+const formatError = (value: number, digits = 3) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+const axisSigma = (fit: AxisGaussianFit) => fit.sigma > 0 ? `${fit.sigma.toFixed(3)} ± ${formatError(fit.sigmaError)}` : 'failed';
+
+const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, scale: imageScale, onScaleChange, maxSize, calibration, region, background, settings, systematic, onSystematicChange, onRegionChange, onAnalysisComplete, label, exportName }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sigma, setSigma] = useState<number>(0);
-  const [chartData, setChartData] = useState<RadialDataPoint[]>([]);
+  const [fit, setFit] = useState<GaussianFitResult | null>(null);
+  const [overlay, setOverlay] = useState<Overlay>(null);
+  const [haloModel, setHaloModel] = useState<HaloModel | null>(null);
+  const toggleOverlay = (next: Overlay) => setOverlay(overlay === next ? null : next);
 
   useEffect(() => {
     let active = true;
@@ -25,31 +62,22 @@ const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, onAnal
       setLoading(true);
       setError(null);
       try {
-        // Step 1: Load
-        const imgData = await loadImageData(imageSrc);
-        
-        // Step 2 & 3: Centroid
-        const centroid = calculateCentroid(imgData);
-        
-        // Step 4: Radial Profile
-        const rawProfile = calculateRadialProfile(imgData, centroid, pixelToMm);
+        // Step 1: Load (optionally downsampled; the scale travels with the pixels)
+        const { image, scale } = await loadImageData(imageSrc, maxSize);
+        const references = await loadBackgroundReferences(background, maxSize);
         
-        // Step 6: Fit Gaussian
-        const calculatedSigma = fitGaussian(rawProfile);
-        
-        // Generate Fit Curve for visual verification
-        const dataWithFit = calculateFitCurve(rawProfile, calculatedSigma);
+        // Steps 2-6 run in a Web Worker so large scans don't block the UI
+        const result = await analyzeFilmAsync(image, { pixelToMm, scale, calibration, region, background, settings }, references);
         
         if (active) {
-          setSigma(calculatedSigma);
-          setChartData(dataWithFit);
-          onAnalysisComplete(calculatedSigma);
+          setFit(result);
+          onAnalysisComplete(result);
           setLoading(false);
         }
       } catch (err) {
         console.error(err);
         if (active) {
-          setError("Failed to process image");
+          setError(err instanceof TiffError ? err.message : "Failed to process image");
           setLoading(false);
         }
       }
@@ -63,22 +91,119 @@ const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, onAnal
 
     return () => { active = false; };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [imageSrc, pixelToMm]);
+  }, [imageSrc, pixelToMm, maxSize, calibration, region, background, settings]);
+
+  const handleExport = (format: ExportFormat) => {
+    if (!fit) return;
+    exportProfile(`${exportName}_profile`, format, {
+      film: label,
+      intensity_unit: calibration ? 'Gy' : 'raw',
+      calibration: calibration?.name ?? 'none',
+      roi: region?.roi ? JSON.stringify(region.roi) : null,
+      masks: region?.masks.length ?? 0,
+      pixel_to_mm: pixelToMm,
+      scale_source: imageScale?.source ?? 'default',
+      manual_centroid: region?.centroid ? `${region.centroid.x.toFixed(2)},${region.centroid.y.toFixed(2)}` : null,
+      background: fit.background?.subtraction ?? 'none',
+      background_level: fit.background?.level ?? 0,
+      flat_field: fit.background?.flatField ?? false,
+      centroid_gate: settings.centroidGate,
+      fit_band_low: settings.fitLow,
+      fit_band_high: settings.fitHigh,
+      min_fit_points: settings.minFitPoints,
+      radial_bin_px: settings.binWidth,
+      sigma_syst_mm: systematic
+    }, fit);
+  };
 
-  if (loading) return <div className="text-sm text-gray-500 animate-pulse">Analyzing physics...</div>;
+  const diagnostics = fit?.diagnostics;
+  const residuals = fit && fit.sigma > 0
+    ? fit.points.filter(p => p.fit !== undefined).map(p => ({ radius: p.radius, residual: p.intensity - p.fit! }))
+    : [];
+
+  // Background-subtracted profile and each component on a log scale, where the tails show;
+  // non-positive values are left as gaps
+  const halo = haloModel ? fit?.halo?.[haloModel] ?? null : null;
+  const positive = (v: number) => v > 0 ? v : undefined;
+  const haloCurves = fit && halo && !halo.failure
+    ? fit.points.filter(p => p.radius > 0).map(p => {
+        const { core, halo: tail } = evaluateHalo(halo, p.radius);
+        return { radius: p.radius, measured: positive(p.intensity - halo.background), core: positive(core), halo: positive(tail), total: positive(core + tail) };
+      })
+    : [];
+
+  // Keep the last result (and the region editor) on screen while a region change re-runs the analysis
+  if (loading && !fit) return <div className="text-sm text-gray-500 animate-pulse">Analyzing physics...</div>;
   if (error) return <div className="text-sm text-red-500">{error}</div>;
-  if (!imageSrc) return <div className="text-sm text-gray-400 italic">No image uploaded</div>;
+  if (!imageSrc || !fit) return <div className="text-sm text-gray-400 italic">No image uploaded</div>;
 
   return (
     <div className="flex flex-col gap-2 mt-2 p-2 border border-gray-700 rounded bg-gray-900">
       <div className="flex justify-between items-center mb-1">
-        <span className="text-xs font-bold uppercase text-gray-400">{label} Fit</span>
-        <span className="text-sm font-mono text-green-400">σ = {sigma.toFixed(3)} mm</span>
+        <span className="text-xs font-bold uppercase text-gray-400 flex items-center gap-2">
+          {label} Fit
+          <button onClick={() => handleExport('csv')} className="text-[10px] font-normal normal-case text-gray-500 hover:text-gray-300">CSV</button>
+          <button onClick={() => handleExport('json')} className="text-[10px] font-normal normal-case text-gray-500 hover:text-gray-300">JSON</button>
+          <button
+            onClick={() => toggleOverlay('region')}
+            className={`text-[10px] font-normal normal-case ${isEmptyRegion(region) ? 'text-gray-500' : 'text-indigo-400'} hover:text-gray-300`}
+          >
+            {overlay === 'region' ? 'Hide region' : isEmptyRegion(region) ? 'Region' : 'Region ✓'}
+          </button>
+          <button
+            onClick={() => toggleOverlay('ruler')}
+            className={`text-[10px] font-normal normal-case ${imageScale?.source === 'ruler' ? 'text-indigo-400' : 'text-gray-500'} hover:text-gray-300`}
+          >
+            {overlay === 'ruler' ? 'Hide ruler' : 'Ruler'}
+          </button>
+          <button
+            onClick={() => toggleOverlay('sensitivity')}
+            className={`text-[10px] font-normal normal-case ${systematic !== null ? 'text-indigo-400' : 'text-gray-500'} hover:text-gray-300`}
+          >
+            {overlay === 'sensitivity' ? 'Hide sensitivity' : systematic !== null ? 'Sensitivity ✓' : 'Sensitivity'}
+          </button>
+          {loading && <span className="text-[10px] font-normal normal-case text-gray-500 animate-pulse">updating…</span>}
+        </span>
+        <span className="text-sm font-mono text-green-400">
+          σ = {fit.sigma.toFixed(3)} mm
+          {systematic !== null && <span className="text-[10px] text-amber-300 ml-1" title="Systematic from the sensitivity scan">± {systematic.toFixed(3)} syst</span>}
+        </span>
+      </div>
+      <div className="text-[10px] font-mono text-gray-500 -mt-1">
+        {(fit.pixelToMm * fit.scale).toFixed(4)} mm/px ({SCALE_LABELS[imageScale?.source ?? 'default'](fit.pixelToMm * fit.scale)})
+        {fit.scale < 1 ? ` · analysed at ${fit.pixelToMm.toFixed(4)} mm/px (×${(1 / fit.scale).toFixed(2)})` : ' · full resolution'}
+        {fit.background?.flatField && ' · flat-field'}
+        {fit.background && fit.background.subtraction !== 'none' && ` · ${BACKGROUND_LABELS[fit.background.subtraction]} bkg −${fit.background.level.toFixed(calibration ? 3 : 1)}`}
       </div>
+
+      {overlay === 'sensitivity' && (
+        <SensitivityScan
+          imageSrc={imageSrc}
+          pixelToMm={pixelToMm}
+          maxSize={maxSize}
+          calibration={calibration}
+          region={region}
+          background={background}
+          settings={settings}
+          systematic={systematic}
+          onSystematicChange={onSystematicChange}
+        />
+      )}
+
+      {overlay === 'ruler' && <RulerTool imageSrc={imageSrc} scale={imageScale} onChange={onScaleChange} />}
+
+      {overlay === 'region' && (
+        <RegionEditor
+          imageSrc={imageSrc}
+          region={region}
+          onChange={onRegionChange}
+          fittedCentroid={{ x: (fit.centroid.x + 0.5) / fit.scale, y: (fit.centroid.y + 0.5) / fit.scale }}
+        />
+      )}
       
       <div className="h-32 w-full">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={chartData}>
+          <LineChart data={fit.points}>
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
             <XAxis dataKey="radius" hide />
             <YAxis hide domain={[0, 'auto']} />
@@ -86,7 +211,7 @@ const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, onAnal
                 contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
                 itemStyle={{ color: '#e5e7eb' }}
                 labelStyle={{ color: '#9ca3af' }}
-                formatter={(value: number) => [value.toFixed(1), 'Intensity']}
+                formatter={(value: number) => calibration ? [value.toFixed(3), 'Dose (Gy)'] : [value.toFixed(1), 'Intensity']}
                 labelFormatter={(label) => `r: ${Number(label).toFixed(1)} mm`}
             />
             {/* Raw Data */}
@@ -97,8 +222,165 @@ const FilmAnalyzer: React.FC<FilmAnalyzerProps> = ({ imageSrc, pixelToMm, onAnal
         </ResponsiveContainer>
       </div>
       <div className="text-[10px] text-center text-gray-500">
-        Blue: Measured Profile | Green: Gaussian Fit (Core)
+        Blue: Measured {calibration ? 'Dose Profile' : 'Profile'} | Green: Gaussian Fit (Core)
       </div>
+
+      {fit.halo && (
+        <div className="border-t border-gray-700 pt-2 space-y-1">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] font-bold uppercase text-gray-500">Tails</span>
+            <select
+              value={haloModel ?? ''}
+              onChange={(e) => setHaloModel((e.target.value || null) as HaloModel | null)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 outline-none"
+            >
+              <option value="">Core only</option>
+              {HALO_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+          </div>
+          {halo?.failure && <div className="text-[11px] text-yellow-500">{halo.failure}</div>}
+          {halo && !halo.failure && (
+            <>
+              <div className="text-[10px] font-mono text-gray-500">{HALO_MODELS.find(m => m.id === halo.model)?.formula}</div>
+              <div className="grid grid-cols-3 gap-x-3 text-[11px] font-mono text-gray-300">
+                <span>σ core {halo.coreSigma.toFixed(3)} ± {formatError(halo.coreSigmaError)}</span>
+                <span title={halo.model === 'rutherford' ? `RMS within the scanned range; screening radius ${halo.haloScale.toFixed(3)} mm` : undefined}>
+                  σ halo {halo.haloSigma.toFixed(3)} ± {formatError(halo.haloSigmaError)}
+                </span>
+                <span>halo {(halo.haloFraction * 100).toFixed(2)} ± {formatError(halo.haloFractionError * 100, 2)}%</span>
+                <span className="col-span-3 text-[10px] text-gray-500">χ²/ndf {halo.reducedChiSquare.toFixed(2)} · B {halo.background.toFixed(calibration ? 3 : 1)}</span>
+              </div>
+              <div className="h-32 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={haloCurves}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="radius" type="number" hide domain={['dataMin', 'dataMax']} />
+                    <YAxis hide scale="log" domain={['auto', 'auto']} allowDataOverflow />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
+                      formatter={(value: number) => value.toExponential(2)}
+                      labelFormatter={(label) => `r: ${Number(label).toFixed(1)} mm`}
+                    />
+                    <Line type="monotone" dataKey="measured" stroke="#60a5fa" dot={false} strokeWidth={1} />
+                    <Line type="monotone" dataKey="core" stroke="#34d399" dot={false} strokeWidth={1.5} strokeDasharray="5 5" />
+                    <Line type="monotone" dataKey="halo" stroke="#f59e0b" dot={false} strokeWidth={1.5} strokeDasharray="5 5" />
+                    <Line type="monotone" dataKey="total" stroke="#e5e7eb" dot={false} strokeWidth={1} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="text-[10px] text-center text-gray-500">
+                Log scale, background subtracted · Blue: Measured | Green: Core | Amber: Halo | White: Sum
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {diagnostics && (
+        <div className="border-t border-gray-700 pt-2 space-y-1">
+          {diagnostics.failure && <div className="text-[11px] text-red-400">{diagnostics.failure}</div>}
+          {diagnostics.flags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {diagnostics.flags.map(f => (
+                <span key={f} className="text-[10px] px-1.5 py-0.5 rounded bg-red-900/40 text-red-300">{FIT_FLAG_LABELS[f]}</span>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-x-3 text-[10px] font-mono text-gray-500">
+            <span>R² {fit.rSquared.toFixed(4)}</span>
+            <span>χ²/ndf {diagnostics.reducedChiSquare !== null ? diagnostics.reducedChiSquare.toFixed(1) : '—'}</span>
+            <span>{diagnostics.pointsInWindow} pts in window</span>
+            <span>clipped {(diagnostics.saturationFraction * 100).toFixed(1)}%</span>
+            <span>edge {diagnostics.edgeDistance.toFixed(1)} mm{fit.sigma > 0 && ` (${(diagnostics.edgeDistance / fit.sigma).toFixed(1)}σ)`}</span>
+            <span>S/N {diagnostics.signalToNoise !== null ? diagnostics.signalToNoise.toFixed(0) : '—'}</span>
+            {diagnostics.tailExcess !== null && <span className="col-span-3">tail excess (2–4σ) {(diagnostics.tailExcess * 100).toFixed(1)}% of peak</span>}
+          </div>
+          {residuals.length > 0 && (
+            <div className="h-16 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={residuals}>
+                  <XAxis dataKey="radius" type="number" hide domain={['dataMin', 'dataMax']} />
+                  <YAxis hide />
+                  {diagnostics.windowRadius?.map((r, i) => (
+                    <ReferenceLine key={i} x={r} stroke="#34d399" strokeDasharray="2 2" />
+                  ))}
+                  <ReferenceLine y={0} stroke="#4b5563" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
+                    formatter={(value: number) => [value.toFixed(calibration ? 4 : 2), 'Residual']}
+                    labelFormatter={(label) => `r: ${Number(label).toFixed(1)} mm`}
+                  />
+                  <Line type="monotone" dataKey="residual" stroke="#f472b6" dot={false} strokeWidth={1} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          <div className="text-[10px] text-center text-gray-500">Residual (measured − fit); dashed: fit window</div>
+        </div>
+      )}
+
+      {fit.fit2D && (
+        <div className="border-t border-gray-700 pt-2">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-[10px] font-bold uppercase text-gray-500">2D Elliptical Fit</span>
+            <span className={`text-[10px] font-mono ${fit.fit2D.converged ? 'text-gray-500' : 'text-yellow-500'}`}>
+              χ²/ndf = {fit.fit2D.reducedChiSquare.toFixed(2)}{fit.fit2D.converged ? '' : ' (not converged)'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 text-[11px] font-mono text-gray-300">
+            <span>σx = {fit.fit2D.sigmaX.toFixed(3)} ± {formatError(fit.fit2D.errors.sigmaX)} mm</span>
+            <span>σy = {fit.fit2D.sigmaY.toFixed(3)} ± {formatError(fit.fit2D.errors.sigmaY)} mm</span>
+            <span>φ = {(fit.fit2D.angle * 180 / Math.PI).toFixed(1)} ± {formatError(fit.fit2D.errors.angle * 180 / Math.PI, 1)}°</span>
+            <span>B = {fit.fit2D.background.toFixed(2)} ± {formatError(fit.fit2D.errors.background, 2)}</span>
+            <span className="col-span-2 text-gray-500">
+              centroid ({(fit.fit2D.centroid.x * fit.pixelToMm).toFixed(2)} ± {formatError(fit.fit2D.errors.x)}, {(fit.fit2D.centroid.y * fit.pixelToMm).toFixed(2)} ± {formatError(fit.fit2D.errors.y)}) mm
+            </span>
+          </div>
+        </div>
+      )}
+
+      {fit.axes && (
+        <div className="border-t border-gray-700 pt-2">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-[10px] font-bold uppercase text-gray-500">x / y Profiles</span>
+            <span className="text-[10px] font-mono text-gray-500">band ±{fit.axes.bandHalfWidth.toFixed(2)} mm</span>
+          </div>
+          <div className="grid grid-cols-3 gap-x-3 text-[11px] font-mono text-gray-300">
+            <span className="text-gray-500"></span>
+            <span>σx (mm)</span>
+            <span>σy (mm)</span>
+            <span className="text-gray-500">projection</span>
+            <span className="text-sky-300">{axisSigma(fit.axes.projection.x.fit)}</span>
+            <span className="text-orange-300">{axisSigma(fit.axes.projection.y.fit)}</span>
+            <span className="text-gray-500">line</span>
+            <span>{axisSigma(fit.axes.line.x.fit)}</span>
+            <span>{axisSigma(fit.axes.line.y.fit)}</span>
+          </div>
+          {fit.axes.projection.y.fit.sigma > 0 && fit.axes.projection.x.fit.sigma > 0 && (
+            <div className="text-[10px] font-mono text-gray-500">
+              σx / σy = {(fit.axes.projection.x.fit.sigma / fit.axes.projection.y.fit.sigma).toFixed(3)}
+            </div>
+          )}
+          <div className="h-24 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart>
+                <XAxis dataKey="position" type="number" hide domain={['dataMin', 'dataMax']} />
+                <YAxis hide />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '12px' }}
+                  formatter={(value: number) => value.toFixed(calibration ? 3 : 1)}
+                  labelFormatter={(label) => `${Number(label).toFixed(1)} mm`}
+                />
+                <Line data={fit.axes.projection.x.points} dataKey="intensity" name="x" stroke="#38bdf8" dot={false} strokeWidth={1} />
+                <Line data={fit.axes.projection.x.points} dataKey="fit" name="x fit" stroke="#38bdf8" dot={false} strokeWidth={1.5} strokeDasharray="4 3" />
+                <Line data={fit.axes.projection.y.points} dataKey="intensity" name="y" stroke="#fb923c" dot={false} strokeWidth={1} />
+                <Line data={fit.axes.projection.y.points} dataKey="fit" name="y fit" stroke="#fb923c" dot={false} strokeWidth={1.5} strokeDasharray="4 3" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-[10px] text-center text-gray-500">Blue: x projection | Orange: y projection | dashed: Gaussian + background fits</div>
+        </div>
+      )}
     </div>
   );
 };
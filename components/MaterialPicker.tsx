@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import { Material, MaterialComponent } from '../types';
+import { ELEMENTS, MATERIAL_CATEGORIES, makeMixture, radLengthCm } from '../utils/materials';
+
+interface MaterialPickerProps {
+  materials: Material[];
+  selectedId: string | null;
+  density: number; // g/cm^3 currently in use, which may differ from the nominal density
+  onSelect: (material: Material | null) => void;
+  onSaveCustom: (material: Material) => void;
+  onDeleteCustom: (id: string) => void;
+}
+
+interface DraftComponent extends MaterialComponent {
+  key: number;
+}
+
+const newDraftComponent = (symbol: string, massFraction: number): DraftComponent => ({ key: Date.now() + Math.random(), symbol, massFraction });
+
+const MaterialPicker: React.FC<MaterialPickerProps> = ({ materials, selectedId, density, onSelect, onSaveCustom, onDeleteCustom }) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('My Compound');
+  const [draftDensity, setDraftDensity] = useState(1.0);
+  const [components, setComponents] = useState<DraftComponent[]>([newDraftComponent('H', 0.112), newDraftComponent('O', 0.888)]);
+
+  const selected = materials.find(m => m.id === selectedId) ?? null;
+
+  // Live mixture preview; errors are shown instead of the computed properties
+  const preview = useMemo(() => {
+    try {
+      return { material: makeMixture('custom', name.trim() || 'Custom', 'custom', draftDensity, components.map(({ symbol, massFraction }) => ({ symbol, massFraction }))), error: null };
+    } catch (err) {
+      return { material: null, error: (err as Error).message };
+    }
+  }, [name, draftDensity, components]);
+
+  const fractionTotal = components.reduce((s, c) => s + (c.massFraction || 0), 0);
+
+  const handleSave = () => {
+    if (!preview.material) return;
+    if (!(draftDensity > 0)) {
+      alert('Density must be a positive number.');
+      return;
+    }
+    const material = { ...preview.material, id: `custom-${Date.now()}` };
+    onSaveCustom(material);
+    onSelect(material);
+    setEditing(false);
+  };
+
+  const updateComponent = (key: number, patch: Partial<MaterialComponent>) => {
+    setComponents(prev => prev.map(c => c.key === key ? { ...c, ...patch } : c));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-1">Material Library</label>
+        <div className="flex gap-2">
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => onSelect(materials.find(m => m.id === e.target.value) ?? null)}
+            className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+          >
+            <option value="">Manual entry</option>
+            {MATERIAL_CATEGORIES.map(cat => {
+              const items = materials.filter(m => m.category === cat.id);
+              if (items.length === 0) return null;
+              return (
+                <optgroup key={cat.id} label={cat.label}>
+                  {items.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </optgroup>
+              );
+            })}
+          </select>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="bg-gray-700 hover:bg-gray-600 text-sm px-3 py-2 rounded-lg text-white transition-colors"
+          >
+            {editing ? 'Close' : 'New Compound'}
+          </button>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 font-mono flex flex-wrap gap-x-4 gap-y-1">
+          <span>X₀ = {selected.radLength.toFixed(2)} g/cm² = {radLengthCm(selected, density).toFixed(3)} cm</span>
+          <span>ρ₀ = {selected.density.toPrecision(4)} g/cm³</span>
+          <span>⟨Z/A⟩ = {selected.zOverA.toFixed(4)}</span>
+          <span>I = {selected.meanExcitation.toFixed(1)} eV</span>
+          {selected.category === 'custom' && (
+            <button
+              onClick={() => { if (confirm(`Delete custom material "${selected.name}"?`)) onDeleteCustom(selected.id); }}
+              className="text-red-400 hover:text-red-300"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Density (g/cm³)</label>
+              <input
+                type="number" step="0.001" min="0"
+                value={draftDensity}
+                onChange={(e) => setDraftDensity(parseFloat(e.target.value))}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {components.map(c => (
+              <div key={c.key} className="flex items-center gap-3 text-sm">
+                <select
+                  value={c.symbol}
+                  onChange={(e) => updateComponent(c.key, { symbol: e.target.value })}
+                  className="w-36 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+                >
+                  {Object.values(ELEMENTS).map(el => <option key={el.symbol} value={el.symbol}>{el.symbol} · {el.name}</option>)}
+                </select>
+                <label className="text-gray-400 text-xs">Mass fraction:</label>
+                <input
+                  type="number" step="0.001" min="0"
+                  value={c.massFraction}
+                  onChange={(e) => updateComponent(c.key, { massFraction: parseFloat(e.target.value) })}
+                  className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-right font-mono"
+                />
+                <button onClick={() => setComponents(prev => prev.filter(p => p.key !== c.key))} className="text-xs text-red-400 hover:text-red-300">Remove</button>
+              </div>
+            ))}
+            <button
+              onClick={() => setComponents(prev => [...prev, newDraftComponent('C', 0)])}
+              className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-white transition-colors"
+            >
+              + Add Element
+            </button>
+          </div>
+
+          {Math.abs(fractionTotal - 1) > 1e-3 && fractionTotal > 0 && (
+            <div className="text-xs text-yellow-500">Mass fractions add up to {fractionTotal.toFixed(3)}; they will be normalised.</div>
+          )}
+          {preview.error && <div className="text-xs text-yellow-500">{preview.error}</div>}
+          {preview.material && (
+            <div className="text-xs text-gray-400 font-mono">
+              X₀ = {preview.material.radLength.toFixed(2)} g/cm² = {radLengthCm(preview.material).toFixed(3)} cm · ⟨Z/A⟩ = {preview.material.zOverA.toFixed(4)} · I = {preview.material.meanExcitation.toFixed(1)} eV
+            </div>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={!preview.material}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-semibold rounded-lg transition-colors text-sm"
+          >
+            Save Compound
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaterialPicker;
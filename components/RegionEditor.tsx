@@ -0,0 +1,190 @@
+import React, { useState, useRef } from 'react';
+import { FilmRegion, Point, Roi } from '../types';
+import { roiContains } from '../utils/region';
+import ScanImage from './ScanImage';
+
+interface RegionEditorProps {
+  imageSrc: string;
+  region: FilmRegion | null;
+  onChange: (region: FilmRegion | null) => void;
+  fittedCentroid: Point | null; // centroid used by the last analysis, in original px
+}
+
+type Tool = 'roi-rect' | 'roi-circle' | 'mask' | 'centroid';
+
+type Drag =
+  | { kind: 'draw'; start: Point }
+  | { kind: 'move'; start: Point; original: Roi };
+
+const TOOLS: { id: Tool; label: string; help: string }[] = [
+  { id: 'roi-rect', label: 'ROI ▭', help: 'Drag to draw the ROI, or drag inside it to move it.' },
+  { id: 'roi-circle', label: 'ROI ◯', help: 'Drag to draw the ROI, or drag inside it to move it.' },
+  { id: 'mask', label: 'Mask', help: 'Drag to exclude an area; click one to remove it.' },
+  { id: 'centroid', label: 'Centroid', help: 'Click the beam centre.' }
+];
+
+const MIN_SIZE = 3; // px; smaller drags are treated as clicks
+
+const EMPTY_REGION: FilmRegion = { roi: null, masks: [], centroid: null, refineCentroid: true };
+
+/**
+ * Box spanned by two corners; circles get a square box so they stay round.
+ */
+const boxFrom = (a: Point, b: Point, shape: Roi['shape']): Roi => {
+  let dx = b.x - a.x, dy = b.y - a.y;
+  if (shape === 'circle') {
+    const side = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = Math.sign(dx || 1) * side;
+    dy = Math.sign(dy || 1) * side;
+  }
+  return { shape, x: Math.min(a.x, a.x + dx), y: Math.min(a.y, a.y + dy), width: Math.abs(dx), height: Math.abs(dy) };
+};
+
+const RoiShape: React.FC<{ roi: Roi } & React.SVGProps<SVGElement>> = ({ roi, ...props }) => {
+  if (roi.shape === 'circle') {
+    const r = Math.min(roi.width, roi.height) / 2;
+    return <circle cx={roi.x + roi.width / 2} cy={roi.y + roi.height / 2} r={r} vectorEffect="non-scaling-stroke" {...(props as React.SVGProps<SVGCircleElement>)} />;
+  }
+  return <rect x={roi.x} y={roi.y} width={roi.width} height={roi.height} vectorEffect="non-scaling-stroke" {...(props as React.SVGProps<SVGRectElement>)} />;
+};
+
+const RegionEditor: React.FC<RegionEditorProps> = ({ imageSrc, region, onChange, fittedCentroid }) => {
+  const [tool, setTool] = useState<Tool>('roi-rect');
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<Roi | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const current = region ?? EMPTY_REGION;
+  const update = (patch: Partial<FilmRegion>) => {
+    const next = { ...current, ...patch };
+    onChange(!next.roi && next.masks.length === 0 && !next.centroid ? null : next);
+  };
+
+  const toImage = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * size!.width,
+      y: ((e.clientY - rect.top) / rect.height) * size!.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!size) return;
+    const p = toImage(e);
+    if (tool === 'centroid') {
+      update({ centroid: p });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool !== 'mask' && current.roi && roiContains(current.roi, p.x, p.y)) {
+      setDrag({ kind: 'move', start: p, original: current.roi });
+    } else {
+      setDrag({ kind: 'draw', start: p });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const p = toImage(e);
+    if (drag.kind === 'move') {
+      setDraft({ ...drag.original, x: drag.original.x + p.x - drag.start.x, y: drag.original.y + p.y - drag.start.y });
+    } else {
+      setDraft(boxFrom(drag.start, p, tool === 'roi-circle' ? 'circle' : 'rect'));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const p = toImage(e);
+    const isClick = !draft || (drag.kind === 'draw' && Math.max(draft.width, draft.height) < MIN_SIZE);
+    if (tool === 'mask') {
+      if (isClick) {
+        // Clicking a mask removes it
+        const hit = current.masks.findIndex(m => roiContains(m, p.x, p.y));
+        if (hit >= 0) update({ masks: current.masks.filter((_, i) => i !== hit) });
+      } else {
+        update({ masks: [...current.masks, draft!] });
+      }
+    } else if (!isClick) {
+      update({ roi: draft });
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  const roi = drag?.kind === 'move' && draft ? draft : current.roi;
+  const cross = size ? Math.max(size.width, size.height) / 40 : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1 text-[10px]">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`px-2 py-0.5 rounded ${tool === t.id ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <span className="flex-1" />
+        {current.roi && <button onClick={() => update({ roi: null })} className="text-gray-400 hover:text-gray-200">Clear ROI</button>}
+        {current.masks.length > 0 && <button onClick={() => update({ masks: [] })} className="text-gray-400 hover:text-gray-200">Clear masks ({current.masks.length})</button>}
+        {current.centroid && <button onClick={() => update({ centroid: null })} className="text-gray-400 hover:text-gray-200">Auto centroid</button>}
+      </div>
+
+      <div className="relative w-full bg-black rounded overflow-hidden">
+        <ScanImage
+          src={imageSrc}
+          alt="Scan"
+          className="w-full h-auto block select-none"
+          draggable={false}
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {size && (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${size.width} ${size.height}`}
+            preserveAspectRatio="none"
+            className={`absolute inset-0 w-full h-full ${tool === 'centroid' ? 'cursor-crosshair' : 'cursor-cell'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {roi && <RoiShape roi={roi} fill="none" stroke="#60a5fa" strokeWidth={2} />}
+            {current.masks.map((m, i) => <RoiShape key={i} roi={m} fill="rgba(248,113,113,0.35)" stroke="#f87171" strokeWidth={1} />)}
+            {draft && drag?.kind === 'draw' && (
+              <RoiShape roi={draft} fill={tool === 'mask' ? 'rgba(248,113,113,0.2)' : 'none'} stroke={tool === 'mask' ? '#f87171' : '#60a5fa'} strokeWidth={1} strokeDasharray="4 3" />
+            )}
+            {fittedCentroid && (
+              <g stroke="#34d399" strokeWidth={1} vectorEffect="non-scaling-stroke">
+                <line x1={fittedCentroid.x - cross} y1={fittedCentroid.y} x2={fittedCentroid.x + cross} y2={fittedCentroid.y} vectorEffect="non-scaling-stroke" />
+                <line x1={fittedCentroid.x} y1={fittedCentroid.y - cross} x2={fittedCentroid.x} y2={fittedCentroid.y + cross} vectorEffect="non-scaling-stroke" />
+              </g>
+            )}
+            {current.centroid && (
+              <circle cx={current.centroid.x} cy={current.centroid.y} r={cross / 2} fill="none" stroke="#fbbf24" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            )}
+          </svg>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-gray-500">
+        <span>
+          {TOOLS.find(t => t.id === tool)?.help}
+          <span className="ml-1 text-green-400">+</span> analysed centroid
+          {current.centroid && <><span className="ml-1 text-amber-400">◯</span> manual</>}
+        </span>
+        {current.centroid && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={current.refineCentroid} onChange={(e) => update({ refineCentroid: e.target.checked })} className="w-3 h-3" />
+            Subpixel refine
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionEditor;
@@ -1,45 +1,103 @@
-import React from 'react';
-import { AnalysisSummary } from '../types';
+import React, { useMemo } from 'react';
+import { AnalysisSummary, LinearFitModel, LinearFitResult, ModelPrediction, ThetaMethod } from '../types';
+import { ExportFormat } from '../utils/export';
+import { getScatteringModel, primaryPrediction } from '../utils/scattering';
+import { FIT_FLAG_LABELS } from '../utils/diagnostics';
 import { 
-  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, Legend, ResponsiveContainer 
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, Legend, ResponsiveContainer, ErrorBar 
 } from 'recharts';
 
 interface ResultsTableProps {
   data: AnalysisSummary[];
   thetaRms: number;
+  thetaRmsError: number;
+  linearFit: LinearFitResult | null;
+  thetaMethod: ThetaMethod;
+  fitModel: LinearFitModel;
+  onThetaMethodChange: (method: ThetaMethod) => void;
+  onFitModelChange: (model: LinearFitModel) => void;
   theoreticalTheta: number;
+  modelPredictions: ModelPrediction[];
   onSave?: () => void;
+  onExport?: (format: ExportFormat) => void;
+  onToggleExcluded?: (distance: number) => void;
+  axisThetaRms?: Record<'x' | 'y', { value: number; error: number }> | null; // from the band projections
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ data, thetaRms, theoreticalTheta, onSave }) => {
+const ResultsTable: React.FC<ResultsTableProps> = ({
+  data, thetaRms, thetaRmsError, linearFit, thetaMethod, fitModel, onThetaMethodChange, onFitModelChange, theoreticalTheta, modelPredictions, onSave, onExport, onToggleExcluded, axisThetaRms
+}) => {
+
+  // Headline experimental theta according to the selected method
+  const thetaFit = thetaMethod === 'fit' ? linearFit : null;
+  const thetaExp = thetaFit ? thetaFit.slope : thetaRms;
+  const thetaExpError = thetaFit ? thetaFit.slopeError : thetaRmsError;
   
   // Calculate match percentage
   // Avoid division by zero
   const matchPercentage = theoreticalTheta > 0 
-    ? Math.max(0, 100 - (Math.abs(thetaRms - theoreticalTheta) / theoreticalTheta) * 100)
+    ? Math.max(0, 100 - (Math.abs(thetaExp - theoreticalTheta) / theoreticalTheta) * 100)
     : 0;
 
+  // Deviation from theory in units of the experimental uncertainty
+  const pull = thetaExpError > 0 ? (thetaExp - theoreticalTheta) / thetaExpError : null;
+
+  const excludedCount = data.filter(r => r.excluded).length;
+  const flaggedCount = data.filter(r => (r.flags?.length ?? 0) > 0).length;
+  const axisRows = data.filter(r => r.sigmaCorrectedX !== undefined);
+
+  const reference = primaryPrediction(modelPredictions);
+  const availablePredictions = useMemo(() => modelPredictions.filter(p => p.theta0 !== null && p.theta0 > 0), [modelPredictions]);
+
+  // Overlay the fitted line and each model's sigma(L) = theta0 L on the measured points
+  const chartData = useMemo(() => data.map(row => ({
+    ...row,
+    fitSigma: linearFit ? linearFit.intercept + linearFit.slope * row.distance : undefined,
+    ...Object.fromEntries(availablePredictions.map(p => [`model_${p.model}`, p.theta0! * row.distance]))
+  })), [data, linearFit, availablePredictions]);
+
   return (
     <div className="space-y-8">
       
       {/* Metrics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="bg-gray-800 p-6 rounded-lg border border-indigo-500/30">
-          <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider">Experimental θ RMS</h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider">Experimental θ</h3>
+            <select
+              value={thetaMethod}
+              onChange={(e) => onThetaMethodChange(e.target.value as ThetaMethod)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 outline-none"
+            >
+              <option value="rms">RMS</option>
+              <option value="fit">Fit slope</option>
+            </select>
+          </div>
           <div className="mt-2 flex items-baseline gap-2">
-            <span className="text-3xl font-bold text-white">{thetaRms.toExponential(3)}</span>
+            <span className="text-3xl font-bold text-white">{thetaExp.toExponential(3)}</span>
             <span className="text-gray-400">rad</span>
           </div>
-          <p className="mt-1 text-xs text-gray-500">Root Mean Square of all points</p>
+          <p className="mt-1 text-xs text-gray-500 font-mono">± {thetaExpError.toExponential(2)} rad</p>
+          <p className="mt-1 text-xs text-gray-500">
+            {thetaFit ? 'Slope θ₀ of σ Corrected vs L' : 'Root Mean Square of all points'}
+          </p>
+          {excludedCount > 0 && (
+            <p className="mt-1 text-xs text-yellow-500">{excludedCount} of {data.length} distances excluded</p>
+          )}
         </div>
 
         <div className="bg-gray-800 p-6 rounded-lg border border-purple-500/30">
-          <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider">Highland Theoretical θ</h3>
+          <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider">Theoretical θ</h3>
           <div className="mt-2 flex items-baseline gap-2">
             <span className="text-3xl font-bold text-purple-200">{theoreticalTheta.toExponential(3)}</span>
             <span className="text-gray-400">rad</span>
           </div>
-          <p className="mt-1 text-xs text-gray-500">Based on material properties</p>
+          <p className="mt-1 text-xs text-gray-500">{reference ? getScatteringModel(reference.model).name : 'No model could be evaluated'}</p>
+          {availablePredictions.filter(p => p !== reference).map(p => (
+            <p key={p.model} className="text-xs font-mono" style={{ color: getScatteringModel(p.model).color }}>
+              {getScatteringModel(p.model).name}: {p.theta0!.toExponential(3)}
+            </p>
+          ))}
         </div>
 
         <div className="bg-gray-800 p-6 rounded-lg border border-green-500/30">
@@ -49,14 +107,20 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, thetaRms, theoretical
                 {matchPercentage.toFixed(1)}%
             </span>
           </div>
-          <p className="mt-1 text-xs text-gray-500">Agreement with Highland formula</p>
+          <p className="mt-1 text-xs text-gray-500">
+            Agreement with the reference model{pull !== null && (
+              <span className={`ml-1 font-mono ${Math.abs(pull) <= 2 ? 'text-green-400' : Math.abs(pull) <= 3 ? 'text-yellow-400' : 'text-red-400'}`}>
+                ({pull >= 0 ? '+' : ''}{pull.toFixed(1)}σ)
+              </span>
+            )}
+          </p>
         </div>
 
         {/* Action Card */}
         <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex flex-col justify-between items-start">
              <div>
                 <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider">Session Actions</h3>
-                <p className="mt-1 text-xs text-gray-500">Save run for comparison.</p>
+                <p className="mt-1 text-xs text-gray-500">Save run for comparison or export the table.</p>
              </div>
              {onSave && (
                 <button 
@@ -69,6 +133,12 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, thetaRms, theoretical
                     Save
                 </button>
              )}
+             {onExport && (
+                <div className="mt-2 w-full grid grid-cols-2 gap-2">
+                    <button onClick={() => onExport('csv')} className="bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold py-1.5 rounded transition-colors">Export CSV</button>
+                    <button onClick={() => onExport('json')} className="bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold py-1.5 rounded transition-colors">Export JSON</button>
+                </div>
+             )}
         </div>
       </div>
 
@@ -77,7 +147,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, thetaRms, theoretical
         <h4 className="text-sm font-bold text-gray-300 mb-4">Beam Width Evolution: Exp vs Theory</h4>
         <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
-                <ComposedChart data={data}>
+                <ComposedChart data={chartData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                     <XAxis dataKey="distance" label={{ value: 'Distance L (mm)', position: 'insideBottom', offset: -5, fill: '#9ca3af' }} tick={{fill: '#9ca3af'}} />
                     <YAxis label={{ value: 'Sigma (mm)', angle: -90, position: 'insideLeft', fill: '#9ca3af' }} tick={{fill: '#9ca3af'}} />
@@ -87,40 +157,191 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, thetaRms, theoretical
                         formatter={(value: number, name: string) => [value.toFixed(3), name]}
                     />
                     <Legend />
-                    <Bar dataKey="sigmaCorrected" name="σ Corrected (Exp)" fill="#34d399" barSize={40} fillOpacity={0.8} />
-                    <Line type="monotone" dataKey="theoreticalSigma" name="Highland Theory" stroke="#a78bfa" strokeWidth={3} dot={false} strokeDasharray="5 5" />
+                    <Bar dataKey="sigmaCorrected" name="σ Corrected (Exp)" fill="#34d399" barSize={40} fillOpacity={0.8}>
+                        <ErrorBar dataKey="sigmaCorrectedError" width={6} strokeWidth={1.5} stroke="#d1fae5" direction="y" />
+                    </Bar>
+                    {availablePredictions.map(p => {
+                        const model = getScatteringModel(p.model);
+                        return (
+                            <Line key={p.model} type="linear" dataKey={`model_${p.model}`} name={model.name} stroke={model.color} strokeWidth={p === reference ? 3 : 2} dot={false} strokeDasharray={model.dash} />
+                        );
+                    })}
+                    {linearFit && (
+                        <Line type="linear" dataKey="fitSigma" name="Linear Fit" stroke="#fbbf24" strokeWidth={2} dot={false} />
+                    )}
                 </ComposedChart>
             </ResponsiveContainer>
         </div>
         <div className="mt-2 text-center text-xs text-gray-500">
-            The corrected experimental sigma should follow the linear Highland Theoretical prediction if the scattering is purely multiple Coulomb scattering.
+            The corrected experimental sigma should follow the linear theoretical prediction if the scattering is purely multiple Coulomb scattering.
+        </div>
+      </div>
+
+      {/* Linear Fit */}
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-sm font-bold text-gray-300">Linear Fit: σ Corrected vs L</h4>
+          <select
+            value={fitModel}
+            onChange={(e) => onFitModelChange(e.target.value as LinearFitModel)}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 outline-none"
+          >
+            <option value="intercept">σ = σ₀ + θ₀·L</option>
+            <option value="origin">σ = θ₀·L (through origin)</option>
+          </select>
         </div>
+        {linearFit ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-2 gap-y-2 text-sm font-mono">
+              <span className="text-gray-400">θ₀ (slope)</span>
+              <span className="text-amber-300">{linearFit.slope.toExponential(3)} ± {linearFit.slopeError.toExponential(2)} rad</span>
+              <span className="text-gray-400">σ₀ (intercept)</span>
+              <span className="text-amber-300">
+                {linearFit.model === 'intercept' ? `${linearFit.intercept.toFixed(3)} ± ${linearFit.interceptError.toFixed(3)} mm` : 'fixed at 0'}
+              </span>
+              <span className="text-gray-400">χ² / ndf</span>
+              <span className="text-gray-200">{linearFit.chiSquare.toFixed(2)} / {linearFit.ndf} = {linearFit.reducedChiSquare.toFixed(2)}</span>
+              {!linearFit.weighted && (
+                <span className="col-span-2 text-xs text-yellow-500 font-sans">Unweighted fit: some points have no uncertainty, errors estimated from scatter.</span>
+              )}
+            </div>
+            <div className="h-32">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={linearFit.residuals}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="x" tick={{fill: '#9ca3af', fontSize: 10}} />
+                  <YAxis tick={{fill: '#9ca3af', fontSize: 10}} />
+                  <ChartTooltip
+                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151' }}
+                    labelFormatter={(label) => `L = ${label} mm`}
+                    formatter={(value: number) => [`${value.toFixed(3)} mm`, 'Residual']}
+                  />
+                  <Bar dataKey="residual" fill="#fbbf24" barSize={12} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">Not enough films with a positive σ Corrected to fit.</p>
+        )}
       </div>
 
+      {/* Beam asymmetry */}
+      {axisRows.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+          <h4 className="text-sm font-bold text-gray-300 mb-1">Beam Asymmetry: x / y Projections</h4>
+          <p className="text-xs text-gray-500 mb-4">
+            Gaussian fits to band projections through the centroid (±2σ radial). σ corrected and θ are derived per axis as for the radial width.
+          </p>
+          {axisThetaRms && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-y-1 text-sm font-mono mb-4">
+              <span className="text-gray-400">θx RMS</span>
+              <span className="md:col-span-2 text-gray-200">{axisThetaRms.x.value.toExponential(3)} ± {axisThetaRms.x.error.toExponential(2)} rad</span>
+              <span className="text-gray-400">θy RMS</span>
+              <span className="md:col-span-2 text-gray-200">{axisThetaRms.y.value.toExponential(3)} ± {axisThetaRms.y.error.toExponential(2)} rad</span>
+              <span className="text-gray-400">θx / θy</span>
+              <span className="md:col-span-2 text-gray-200">{axisThetaRms.y.value > 0 ? (axisThetaRms.x.value / axisThetaRms.y.value).toFixed(3) : '–'}</span>
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs font-mono">
+              <thead className="text-gray-400 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">L (mm)</th>
+                  <th className="px-3 py-2 text-right text-blue-400">σx / σy Air</th>
+                  <th className="px-3 py-2 text-right text-pink-400">σx / σy Mat</th>
+                  <th className="px-3 py-2 text-right text-green-400">σx Corr</th>
+                  <th className="px-3 py-2 text-right text-green-400">σy Corr</th>
+                  <th className="px-3 py-2 text-right">σx / σy</th>
+                  <th className="px-3 py-2 text-right text-purple-400">θx (rad)</th>
+                  <th className="px-3 py-2 text-right text-purple-400">θy (rad)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {axisRows.map(row => (
+                  <tr key={row.sampleId} className={row.excluded ? 'opacity-40' : ''}>
+                    <td className="px-3 py-2 text-gray-300">{row.distance}</td>
+                    <td className="px-3 py-2 text-right text-blue-300">{row.sigmaAirX!.toFixed(3)} / {row.sigmaAirY!.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right text-pink-300">{row.sigmaMaterialX!.toFixed(3)} / {row.sigmaMaterialY!.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right text-green-300">{row.sigmaCorrectedX!.toFixed(3)} ± {row.sigmaCorrectedXError!.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right text-green-300">{row.sigmaCorrectedY!.toFixed(3)} ± {row.sigmaCorrectedYError!.toFixed(3)}</td>
+                    <td className={`px-3 py-2 text-right ${Math.abs((row.sigmaRatio ?? 1) - 1) > 0.1 ? 'text-yellow-400' : 'text-gray-200'}`}>
+                      {row.sigmaRatio ? row.sigmaRatio.toFixed(3) : '–'}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-400">{row.thetaX!.toExponential(3)} ± {row.thetaXError!.toExponential(2)}</td>
+                    <td className="px-3 py-2 text-right text-gray-400">{row.thetaY!.toExponential(3)} ± {row.thetaYError!.toExponential(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Detailed Table */}
+      {flaggedCount > 0 && (
+        <p className="-mb-6 text-xs text-red-400">
+          ⚠ {flaggedCount} distance{flaggedCount === 1 ? '' : 's'} flagged by the fit diagnostics (hover for details).
+          {onToggleExcluded && ' Untick "Use" to leave a row out of θ and the linear fit.'}
+        </p>
+      )}
       <div className="overflow-x-auto bg-gray-800 rounded-lg shadow border border-gray-700">
         <table className="min-w-full divide-y divide-gray-700">
           <thead className="bg-gray-900">
             <tr>
+              {onToggleExcluded && (
+                <th scope="col" className="pl-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider" title="Include in θ">Use</th>
+              )}
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">L (mm)</th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-blue-400 uppercase tracking-wider">σ Air (mm)</th>
+              <th scope="col" className="px-2 py-3 text-left text-xs font-medium text-blue-400/60 uppercase tracking-wider" title="Fit uncertainty">±</th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-pink-400 uppercase tracking-wider">σ Mat (mm)</th>
+              <th scope="col" className="px-2 py-3 text-left text-xs font-medium text-pink-400/60 uppercase tracking-wider" title="Fit uncertainty">±</th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-green-400 uppercase tracking-wider group cursor-help relative">
                 <span className="border-b border-dashed border-green-500">σ Corrected</span>
               </th>
+              <th scope="col" className="px-2 py-3 text-left text-xs font-medium text-green-400/60 uppercase tracking-wider" title="Fit, distance and pixel-scale uncertainty">±</th>
                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-purple-400 uppercase tracking-wider">σ Theory</th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-purple-400 uppercase tracking-wider">θ (rad)</th>
+              <th scope="col" className="px-2 py-3 text-left text-xs font-medium text-purple-400/60 uppercase tracking-wider">±</th>
             </tr>
           </thead>
           <tbody className="bg-gray-800 divide-y divide-gray-700">
             {data.map((row) => (
-              <tr key={row.sampleId} className="hover:bg-gray-700 transition-colors">
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">{row.distance}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-blue-300 font-mono">{row.sigmaAir.toFixed(3)}</td>
+              <tr key={row.sampleId} className={`hover:bg-gray-700 transition-colors ${row.excluded ? 'opacity-40' : ''}`}>
+                {onToggleExcluded && (
+                  <td className="pl-4 py-4">
+                    <input type="checkbox" checked={!row.excluded} onChange={() => onToggleExcluded(row.distance)} />
+                  </td>
+                )}
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                  {row.distance}
+                  {(row.flags?.length ?? 0) > 0 && (
+                    <span className="ml-2 text-xs text-red-400 cursor-help" title={row.flags!.map(f => FIT_FLAG_LABELS[f]).join('\n')}>
+                      ⚠ {row.flags!.length}
+                    </span>
+                  )}
+                  {(row.filmCount ?? 1) > 1 && (
+                    <span
+                      className="ml-2 text-xs text-amber-400"
+                      title={`Mean of ${row.filmCount} films · std σ air ${(row.sigmaAirStd ?? 0).toFixed(3)} mm, σ mat ${(row.sigmaMaterialStd ?? 0).toFixed(3)} mm`}
+                    >
+                      ×{row.filmCount}
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-blue-300 font-mono" title={row.airFromBaseline ? 'From the air baseline model' : undefined}>
+                  {row.airFromBaseline && <span className="text-[10px] text-sky-400 mr-1">fit</span>}
+                  {row.sigmaAir.toFixed(3)}
+                </td>
+                <td className="px-2 py-4 whitespace-nowrap text-xs text-left text-blue-300/60 font-mono">± {row.sigmaAirError.toFixed(3)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-pink-300 font-mono">{row.sigmaMaterial.toFixed(3)}</td>
+                <td className="px-2 py-4 whitespace-nowrap text-xs text-left text-pink-300/60 font-mono">± {row.sigmaMaterialError.toFixed(3)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-300 font-bold font-mono">{row.sigmaCorrected.toFixed(3)}</td>
+                <td className="px-2 py-4 whitespace-nowrap text-xs text-left text-green-300/60 font-mono">± {row.sigmaCorrectedError.toFixed(3)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-purple-300 font-mono italic">{row.theoreticalSigma.toFixed(3)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-400 font-mono">{row.theta.toExponential(3)}</td>
+                <td className="px-2 py-4 whitespace-nowrap text-xs text-left text-gray-500 font-mono">± {row.thetaError.toExponential(2)}</td>
               </tr>
             ))}
           </tbody>
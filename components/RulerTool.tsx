@@ -0,0 +1,97 @@
+import React, { useState, useRef } from 'react';
+import { PixelScale, Point } from '../types';
+import { scaleFromMetadata } from '../utils/scanMetadata';
+import ScanImage from './ScanImage';
+
+interface RulerToolProps {
+  imageSrc: string;
+  scale: PixelScale | null; // the image's own scale, null when it uses the session default
+  onChange: (scale: PixelScale | null) => void;
+}
+
+/**
+ * Two-point ruler: click both ends of a known length on a printed scale to set the image's mm/px.
+ */
+const RulerTool: React.FC<RulerToolProps> = ({ imageSrc, scale, onChange }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [points, setPoints] = useState<Point[]>([]);
+  const [distance, setDistance] = useState(10); // mm
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!size) return;
+    const rect = svgRef.current!.getBoundingClientRect();
+    const p = {
+      x: ((e.clientX - rect.left) / rect.width) * size.width,
+      y: ((e.clientY - rect.top) / rect.height) * size.height
+    };
+    setPoints(points.length >= 2 ? [p] : [...points, p]);
+  };
+
+  const lengthPx = points.length === 2 ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) : 0;
+  const mmPerPixel = lengthPx > 0 && distance > 0 ? distance / lengthPx : null;
+
+  const handleReset = async () => {
+    // Back to the file's DPI if it has one, else the session default
+    onChange(await scaleFromMetadata(imageSrc));
+    setPoints([]);
+  };
+
+  const mark = size ? Math.max(size.width, size.height) / 80 : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative w-full bg-black rounded overflow-hidden">
+        <ScanImage
+          src={imageSrc}
+          alt="Scan"
+          className="w-full h-auto block select-none"
+          draggable={false}
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {size && (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${size.width} ${size.height}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full cursor-crosshair"
+            onClick={handleClick}
+          >
+            {points.length === 2 && (
+              <line x1={points[0].x} y1={points[0].y} x2={points[1].x} y2={points[1].y} stroke="#fbbf24" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            )}
+            {points.map((p, i) => (
+              <circle key={i} cx={p.x} cy={p.y} r={mark} fill="none" stroke="#fbbf24" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            ))}
+          </svg>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        <span className="text-gray-500">
+          {points.length < 2 ? `Click ${points.length === 0 ? 'both ends' : 'the other end'} of a known length.` : `${lengthPx.toFixed(1)} px`}
+        </span>
+        <span className="flex-1" />
+        <label className="text-gray-400">Length (mm):</label>
+        <input
+          type="number" step="0.5" min="0"
+          value={distance}
+          onChange={(e) => setDistance(parseFloat(e.target.value))}
+          className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white text-right font-mono"
+        />
+        <button
+          disabled={mmPerPixel === null}
+          onClick={() => onChange({ mmPerPixel: mmPerPixel!, source: 'ruler' })}
+          className="px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+        >
+          {mmPerPixel !== null ? `Use ${mmPerPixel.toFixed(4)} mm/px` : 'Use'}
+        </button>
+        {scale?.source === 'ruler' && (
+          <button onClick={handleReset} className="text-gray-400 hover:text-gray-200">Reset</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RulerTool;
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { loadImageData } from '../utils/imageLoader';
+import { isTiffSource } from '../utils/tiff';
+
+type ScanImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src: string };
+
+/**
+ * 8-bit PNG rendering of a TIFF scan at full resolution, so overlays keep the scan's pixel coordinates.
+ */
+const tiffPreviewUrl = async (src: string): Promise<string> => {
+  const { image } = await loadImageData(src, 0);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not render the TIFF preview');
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * <img> for a stored scan. Browsers can't display TIFF, so those are decoded and shown as PNG.
+ */
+const ScanImage: React.FC<ScanImageProps> = ({ src, ...props }) => {
+  const tiff = isTiffSource(src);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!tiff) return;
+    let active = true;
+    let url: string | null = null;
+    setPreview(null);
+    setFailed(false);
+    tiffPreviewUrl(src)
+      .then(u => {
+        url = u;
+        if (active) setPreview(u);
+        else URL.revokeObjectURL(u);
+      })
+      .catch(err => {
+        console.error(err);
+        if (active) setFailed(true);
+      });
+    return () => {
+      active = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [src, tiff]);
+
+  if (!tiff) return <img src={src} {...props} />;
+  if (failed) return <div className="p-4 text-xs text-red-400 text-center">Could not display this TIFF</div>;
+  if (!preview) return <div className="p-4 text-xs text-gray-500 text-center animate-pulse">Decoding TIFF…</div>;
+  return <img src={preview} {...props} />;
+};
+
+export default ScanImage;
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { ModelPrediction, ScatteringModelId, ScatteringSettings } from '../types';
+import {
+  SCATTERING_MODELS, ScatteringInput, ThickTargetResult, moliereParameters, moliereTheta, moliereDistribution, gaussianDistribution, primaryPrediction
+} from '../utils/scattering';
+
+interface ScatteringModelPanelProps {
+  settings: ScatteringSettings;
+  onChange: (settings: ScatteringSettings) => void;
+  input: ScatteringInput;
+  predictions: ModelPrediction[];
+  thickTarget: ThickTargetResult | null;
+}
+
+const DISTRIBUTION_POINTS = 60;
+
+const ScatteringModelPanel: React.FC<ScatteringModelPanelProps> = ({ settings, onChange, input, predictions, thickTarget }) => {
+  const primary = primaryPrediction(predictions);
+
+  const toggleModel = (id: ScatteringModelId) => {
+    const models = settings.models.includes(id)
+      ? settings.models.filter(m => m !== id)
+      : [...settings.models, id];
+    if (models.length > 0) onChange({ ...settings, models });
+  };
+
+  // Molière angular distribution against a Gaussian of the same width, out to the single-scattering tail
+  const distribution = useMemo(() => {
+    if (!settings.models.includes('moliere')) return null;
+    const params = moliereParameters(input);
+    const theta0 = moliereTheta(input);
+    if (!params || !theta0) return null;
+    const thetas = Array.from({ length: DISTRIBUTION_POINTS }, (_, i) => (5 * theta0 * (i + 0.5)) / DISTRIBUTION_POINTS);
+    const moliere = moliereDistribution(params, thetas);
+    const gaussian = gaussianDistribution(theta0, thetas);
+    const peak = moliere[0];
+    return thetas.map((theta, i) => ({
+      theta: theta * 1000, // mrad
+      moliere: moliere[i] > 0 ? moliere[i] / peak : undefined,
+      gaussian: gaussian[i] / peak > 1e-6 ? gaussian[i] / peak : undefined
+    }));
+  }, [settings.models, input]);
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">Scattering Models</label>
+      <div className="space-y-1">
+        {SCATTERING_MODELS.map(model => {
+          const prediction = predictions.find(p => p.model === model.id);
+          const checked = settings.models.includes(model.id);
+          return (
+            <label key={model.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={checked}
+                onChange={() => toggleModel(model.id)}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700"
+              />
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: model.color }} />
+              <span className="text-gray-300 flex-1">{model.name}</span>
+              {primary?.model === model.id && <span className="text-[10px] uppercase tracking-wider text-purple-400">reference</span>}
+              <span className="font-mono text-xs text-gray-400 w-24 text-right">
+                {checked && (prediction?.theta0
+                  ? `${(prediction.theta0 * 1000).toFixed(3)} mrad`
+                  : <span className="text-yellow-500" title={model.needsComposition ? 'Needs a material from the library (composition) and a thick enough target' : 'Check the inputs'}>n/a</span>)}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      {settings.models.includes('lynch-dahl') && (
+        <div className="flex items-center gap-3 text-sm">
+          <label className="text-gray-400">Lynch–Dahl fraction <span className="italic">F</span>:</label>
+          <input
+            type="number" step="0.01" min="0.5" max="0.999"
+            value={settings.lynchDahlF}
+            onChange={(e) => onChange({ ...settings, lynchDahlF: parseFloat(e.target.value) })}
+            className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-right font-mono"
+          />
+        </div>
+      )}
+
+      {settings.models.includes('differential-highland') && (
+        <div className="flex items-center gap-3 text-sm">
+          <label className="text-gray-400">Target slices:</label>
+          <input
+            type="number" step="10" min="1" max="5000"
+            value={settings.thickTargetSlices}
+            onChange={(e) => onChange({ ...settings, thickTargetSlices: parseInt(e.target.value, 10) })}
+            className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-right font-mono"
+          />
+        </div>
+      )}
+
+      {thickTarget && (
+        <div className={`text-xs p-2 rounded border font-mono ${thickTarget.stopped ? 'text-red-400 bg-red-900/20 border-red-900/50' : 'text-gray-400 bg-gray-900/50 border-gray-700/50'}`}>
+          {thickTarget.stopped
+            ? `The beam stops inside the target (T₀ = ${thickTarget.entranceEnergy.toFixed(1)} MeV).`
+            : `Energy loss (Bethe–Bloch): T ${thickTarget.entranceEnergy.toFixed(1)} → ${thickTarget.exitEnergy.toFixed(1)} MeV at exit (ΔE = ${(thickTarget.entranceEnergy - thickTarget.exitEnergy).toFixed(2)} MeV)`}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">The first selected model that can be evaluated is the reference for the theory match.</p>
+
+      {distribution && (
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={distribution}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="theta" type="number" tick={{ fill: '#9ca3af', fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: 'θ (mrad)', position: 'insideBottom', offset: -2, fill: '#9ca3af', fontSize: 10 }} />
+              <YAxis scale="log" domain={['auto', 1]} allowDataOverflow tick={{ fill: '#9ca3af', fontSize: 10 }} tickFormatter={(v: number) => v.toExponential(0)} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151' }}
+                formatter={(value: number, name: string) => [value.toExponential(3), name]}
+                labelFormatter={(label: number) => `θ = ${label.toFixed(2)} mrad`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line type="monotone" dataKey="moliere" name="Molière f(θ)" stroke="#fb923c" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="gaussian" name="Gaussian, same θ₀" stroke="#9ca3af" strokeWidth={1} dot={false} strokeDasharray="4 4" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScatteringModelPanel;
@@ -0,0 +1,232 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { AnalysisSettings, BackgroundSettings, CalibrationCurve, FilmRegion } from '../types';
+import { loadImageData } from '../utils/imageLoader';
+import { loadBackgroundReferences, scanSensitivityAsync, SensitivityJob } from '../utils/analysisClient';
+import {
+  SCANNED_PARAMETERS, DEFAULT_SENSITIVITY_RANGES, MAX_COMBINATIONS, ScannedParameter, SensitivityRanges, SensitivityResult,
+  combinationCount, marginal
+} from '../utils/sensitivity';
+
+interface SensitivityScanProps {
+  imageSrc: string;
+  pixelToMm: number;
+  maxSize: number;
+  calibration: CalibrationCurve | null;
+  region: FilmRegion | null;
+  background: BackgroundSettings;
+  settings: AnalysisSettings;
+  systematic: number | null; // mm, currently in this film's error budget
+  onSystematicChange: (systematic: number | null) => void;
+}
+
+/**
+ * Background colour of a heatmap cell: blue below the nominal σ, red above, white-ish at it.
+ */
+const cellColor = (sigma: number, nominal: number, scale: number): string => {
+  if (!(sigma > 0)) return '#111827';
+  const t = scale > 0 ? Math.max(-1, Math.min(1, (sigma - nominal) / scale)) : 0;
+  const alpha = 0.15 + 0.65 * Math.abs(t);
+  return t >= 0 ? `rgba(248, 113, 113, ${alpha})` : `rgba(96, 165, 250, ${alpha})`;
+};
+
+const SensitivityScan: React.FC<SensitivityScanProps> = ({
+  imageSrc, pixelToMm, maxSize, calibration, region, background, settings, systematic, onSystematicChange
+}) => {
+  const [ranges, setRanges] = useState<SensitivityRanges>(DEFAULT_SENSITIVITY_RANGES);
+  const [result, setResult] = useState<SensitivityResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const job = useRef<SensitivityJob | null>(null);
+
+  // A scan still running when the film closes is stopped
+  useEffect(() => () => job.current?.cancel(), []);
+
+  const combinations = combinationCount(ranges);
+  const updateRange = (key: ScannedParameter, field: 'min' | 'max' | 'steps', value: number) =>
+    setRanges({ ...ranges, [key]: { ...ranges[key], [field]: value } });
+
+  const handleRun = async () => {
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const { image, scale } = await loadImageData(imageSrc, maxSize);
+      const references = await loadBackgroundReferences(background, maxSize);
+      job.current = scanSensitivityAsync(image, { pixelToMm, scale, calibration, region, background, settings }, references, ranges, setProgress);
+      const scanned = await job.current.result;
+      if (scanned) setResult(scanned);
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message || 'Sensitivity scan failed');
+    } finally {
+      job.current = null;
+      setRunning(false);
+    }
+  };
+
+  // σ over the fit band (low × high), averaged over the centroid gates and bin widths
+  const heatmap = useMemo(() => {
+    if (!result) return null;
+    const values = (key: 'fitLow' | 'fitHigh') => Array.from(new Set<number>(result.points.map(p => p[key]))).sort((a, b) => a - b);
+    const lows = values('fitLow'), highs = values('fitHigh');
+    const cell = (low: number, high: number) => {
+      const s = result.points.filter(p => p.fitLow === low && p.fitHigh === high && p.sigma > 0).map(p => p.sigma);
+      return s.length > 0 ? s.reduce((t, v) => t + v, 0) / s.length : 0;
+    };
+    return { lows, highs, cells: lows.map(low => highs.map(high => cell(low, high))) };
+  }, [result]);
+
+  const colorScale = result ? Math.max(result.max - result.nominal, result.nominal - result.min) : 0;
+
+  return (
+    <div className="border border-gray-700 rounded p-2 space-y-3 bg-gray-950">
+      <div className="text-[10px] text-gray-500">
+        Re-runs the centroid, radial profile and core fit for every combination below. Calibration, masks and background use the session settings.
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="text-left font-normal">Parameter</th>
+            <th className="font-normal">Min</th>
+            <th className="font-normal">Max</th>
+            <th className="font-normal">Steps</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SCANNED_PARAMETERS.map(p => (
+            <tr key={p.key}>
+              <td className="text-gray-400 pr-2">{p.label} <span className="text-gray-600">({p.unit})</span></td>
+              {(['min', 'max', 'steps'] as const).map(field => (
+                <td key={field} className="px-1">
+                  <input
+                    type="number"
+                    step={field === 'steps' ? 1 : p.key === 'centroidGate' ? 1 : p.key === 'binWidth' ? 0.25 : 0.01}
+                    min={field === 'steps' ? 1 : 0}
+                    value={ranges[p.key][field]}
+                    onChange={(e) => updateRange(p.key, field, parseFloat(e.target.value))}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white font-mono"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRun}
+          disabled={running || combinations > MAX_COMBINATIONS}
+          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs font-semibold rounded transition-colors"
+        >
+          {running ? `Running… ${Math.round(progress * 100)}%` : 'Run Scan'}
+        </button>
+        {running && (
+          <button
+            onClick={() => job.current?.cancel()}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <span className={`text-[10px] ${combinations > MAX_COMBINATIONS ? 'text-yellow-500' : 'text-gray-500'}`}>
+          {combinations} combinations{combinations > MAX_COMBINATIONS && ` (limit ${MAX_COMBINATIONS})`}
+        </span>
+      </div>
+      {error && <div className="text-[11px] text-red-400">{error}</div>}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 gap-x-4 text-[11px] font-mono text-gray-300">
+            <span>σ nominal {result.nominal.toFixed(3)} mm</span>
+            <span>σ mean {result.mean.toFixed(3)} mm</span>
+            <span className="text-amber-300">spread (1 s.d.) ± {result.spread.toFixed(3)} mm</span>
+            <span>range {result.min.toFixed(3)} – {result.max.toFixed(3)} mm</span>
+            {result.failed > 0 && <span className="col-span-2 text-yellow-500">{result.failed} of {result.points.length} fits failed</span>}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onSystematicChange(result.spread)}
+              disabled={!(result.spread > 0)}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs font-semibold rounded transition-colors"
+            >
+              Add ± {result.spread.toFixed(3)} mm to error budget
+            </button>
+          </div>
+
+          {heatmap && heatmap.lows.length > 1 && heatmap.highs.length > 1 && (
+            <div>
+              <div className="text-[10px] font-bold uppercase text-gray-500 mb-1">σ (mm) over the fit band, mean of gates and bins</div>
+              <table className="text-[10px] font-mono">
+                <thead>
+                  <tr>
+                    <th className="px-1 text-gray-500 font-normal text-left">low \ high</th>
+                    {heatmap.highs.map(h => <th key={h} className="px-1 text-gray-500 font-normal">{h.toFixed(2)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmap.lows.map((low, i) => (
+                    <tr key={low}>
+                      <td className="px-1 text-gray-500">{low.toFixed(2)}</td>
+                      {heatmap.cells[i].map((sigma, j) => (
+                        <td key={j} className="px-2 py-0.5 text-center text-gray-100" style={{ backgroundColor: cellColor(sigma, result.nominal, colorScale) }}>
+                          {sigma > 0 ? sigma.toFixed(3) : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {SCANNED_PARAMETERS.map(p => {
+              const data = marginal(result.points, p.key);
+              if (data.length < 2) return null;
+              return (
+                <div key={p.key}>
+                  <div className="text-[10px] text-gray-500">{p.label}</div>
+                  <div className="h-24 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={data}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                        <XAxis dataKey="value" type="number" domain={['dataMin', 'dataMax']} tick={{ fill: '#9ca3af', fontSize: 9 }} />
+                        <YAxis domain={['auto', 'auto']} tick={{ fill: '#9ca3af', fontSize: 9 }} width={40} tickFormatter={(v: number) => v.toFixed(2)} />
+                        <Tooltip
+                          contentStyle={{ backgroundColor: '#1f2937', border: 'none', fontSize: '11px' }}
+                          formatter={(value: number) => `${value.toFixed(3)} mm`}
+                          labelFormatter={(label) => `${p.label}: ${Number(label).toFixed(2)}`}
+                        />
+                        <ReferenceLine x={settings[p.key]} stroke="#6b7280" strokeDasharray="2 2" />
+                        <Line type="monotone" dataKey="min" stroke="#60a5fa" dot={false} strokeWidth={1} strokeDasharray="3 3" />
+                        <Line type="monotone" dataKey="mean" stroke="#34d399" dot strokeWidth={1.5} />
+                        <Line type="monotone" dataKey="max" stroke="#f87171" dot={false} strokeWidth={1} strokeDasharray="3 3" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="text-[10px] text-center text-gray-500">Green: mean σ | dashed: min / max over the other parameters | grey: session setting</div>
+        </>
+      )}
+
+      {systematic !== null && (
+        <div className="flex items-center justify-between text-[11px] border-t border-gray-800 pt-2">
+          <span className="text-amber-300 font-mono">Systematic in error budget: ± {systematic.toFixed(3)} mm</span>
+          <button onClick={() => onSystematicChange(null)} className="text-red-400 hover:text-red-300">Remove</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityScan;
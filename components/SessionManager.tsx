@@ -0,0 +1,83 @@
+import React from 'react';
+import { StoredSession } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../utils/projectFile';
+
+interface SessionManagerProps {
+  sessions: StoredSession[];
+  currentId: string | null;
+  currentName: string;
+  onRename: (name: string) => void;
+  onSwitch: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const SessionManager: React.FC<SessionManagerProps> = ({ sessions, currentId, currentName, onRename, onSwitch, onNew, onDelete, onExport, onImport }) => {
+  // The current session may not be in the stored list until its first autosave
+  const options = currentId && !sessions.some(s => s.id === currentId)
+    ? [{ id: currentId, name: currentName, updatedAt: Date.now() }, ...sessions]
+    : sessions;
+
+  const handleDelete = () => {
+    if (!currentId) return;
+    if (confirm(`Delete session "${currentName}"? Its films and settings will be lost.`)) {
+      onDelete(currentId);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 px-6 py-4 rounded-xl border border-gray-700 shadow-xl flex flex-wrap items-end gap-4">
+      <div className="flex-1 min-w-[12rem]">
+        <label className="block text-sm font-medium text-gray-400 mb-1">Session Name</label>
+        <input
+          type="text"
+          value={currentName}
+          onChange={(e) => onRename(e.target.value)}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+        />
+      </div>
+      <div className="flex-1 min-w-[12rem]">
+        <label className="block text-sm font-medium text-gray-400 mb-1">Open Session</label>
+        <select
+          value={currentId ?? ''}
+          onChange={(e) => onSwitch(e.target.value)}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white outline-none"
+        >
+          {options.map(s => (
+            <option key={s.id} value={s.id}>
+              {s.id === currentId ? currentName : s.name} · {new Date(s.updatedAt).toLocaleString()}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onNew} className="bg-gray-700 hover:bg-gray-600 text-sm px-4 py-2 rounded-lg text-white transition-colors">
+          New Session
+        </button>
+        <button onClick={onExport} className="bg-gray-700 hover:bg-gray-600 text-sm px-4 py-2 rounded-lg text-white transition-colors">
+          Export
+        </button>
+        <label className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-sm px-4 py-2 rounded-lg text-white transition-colors">
+          Import
+          <input
+            type="file"
+            className="hidden"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button onClick={handleDelete} className="bg-gray-900 hover:bg-red-900/50 border border-gray-700 text-sm px-4 py-2 rounded-lg text-red-400 transition-colors">
+          Delete
+        </button>
+      </div>
+      <p className="w-full text-xs text-gray-500">Sessions, including uploaded scans, are saved automatically in this browser. Export a {PROJECT_FILE_EXTENSION} project file to share a complete analysis.</p>
+    </div>
+  );
+};
+
+export default SessionManager;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { AirBaseline, AirBaselineModel, AirBaselinePoint } from '../types';
+import { emittanceParameters, evaluateAirBaseline, fitAirBaseline } from '../utils/airBaseline';
+
+const DISTANCES = [100, 200, 300, 400, 500];
+
+const baseline = (model: AirBaselineModel, points: AirBaselinePoint[]): AirBaseline =>
+  ({ id: 'b', name: 'b', model, points, createdAt: 0, ...fitAirBaseline(points, model) });
+
+describe('fitAirBaseline', () => {
+  it('recovers a linear beam envelope', () => {
+    const points = DISTANCES.map(L => ({ distance: L, sigma: 1.5 + 0.002 * L, sigmaError: 0.01 }));
+    const fit = baseline('linear', points);
+    expect(fit.coefficients[0]).toBeCloseTo(1.5, 8);
+    expect(fit.coefficients[1]).toBeCloseTo(0.002, 10);
+    expect(fit.chiSquare).toBeCloseTo(0, 10);
+    expect(fit.ndf).toBe(3);
+    expect(evaluateAirBaseline(fit, 250).sigma).toBeCloseTo(2, 8);
+  });
+
+  it('recovers the emittance parameters from σ²', () => {
+    const [sigma0, divergence, correlation] = [1.2, 0.003, 0.4];
+    const points = DISTANCES.map(L => ({
+      distance: L,
+      sigma: Math.sqrt(sigma0 ** 2 + 2 * correlation * sigma0 * divergence * L + divergence ** 2 * L ** 2),
+      sigmaError: 0.02
+    }));
+    const fit = baseline('emittance', points);
+    const parameters = emittanceParameters(fit)!;
+    expect(parameters.sigma0).toBeCloseTo(sigma0, 6);
+    expect(parameters.divergence).toBeCloseTo(divergence, 8);
+    expect(parameters.correlation).toBeCloseTo(correlation, 5);
+    expect(evaluateAirBaseline(fit, 300).sigma).toBeCloseTo(points[2].sigma, 8);
+  });
+
+  it('weights the points by their errors', () => {
+    const points = DISTANCES.map(L => ({ distance: L, sigma: 2 + 0.001 * L, sigmaError: 0.01 }));
+    points[4] = { ...points[4], sigma: points[4].sigma + 1, sigmaError: 100 };
+    const weighted = fitAirBaseline(points, 'linear');
+    const unweighted = fitAirBaseline(points.map(p => ({ ...p, sigmaError: 0 })), 'linear');
+    expect(weighted.coefficients[1]).toBeCloseTo(0.001, 6);
+    expect(Math.abs(unweighted.coefficients[1] - 0.001)).toBeGreaterThan(1e-3);
+  });
+
+  it('scales the covariance by χ²/ndf without errors', () => {
+    const points = DISTANCES.map((L, i) => ({ distance: L, sigma: 2 + 0.001 * L + (i % 2 ? 0.05 : -0.05), sigmaError: 0 }));
+    const fit = fitAirBaseline(points, 'linear');
+    expect(fit.chiSquare).toBeGreaterThan(0);
+    expect(fit.covariance[0][0]).toBeGreaterThan(0);
+  });
+
+  it('needs more distances than coefficients', () => {
+    expect(() => fitAirBaseline(DISTANCES.slice(0, 3).map(L => ({ distance: L, sigma: 2, sigmaError: 0.1 })), 'quadratic'))
+      .toThrow(/4 or more distances/);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFilm } from '../utils/analysis';
+import { calculateRadialProfile, fitGaussian, toIntensityMap, DEFAULT_ANALYSIS_SETTINGS } from '../utils/physics';
+import { gaussianScan } from './fixtures';
+
+const PIXEL_TO_MM = 0.1;
+
+describe('radial Gaussian fit', () => {
+  it.each([0.5, 1, 2])('recovers a known sigma with %s px bins', binWidth => {
+    const map = toIntensityMap(gaussianScan({ width: 121, height: 121, sigma: 20 }));
+    const fit = fitGaussian(calculateRadialProfile(map, { x: 60, y: 60 }, PIXEL_TO_MM, binWidth));
+    expect(fit.failure).toBeNull();
+    expect(fit.sigma).toBeCloseTo(2, 2);
+  });
+
+  it('fails with a reason when too few rings fall inside the fit band', () => {
+    const map = toIntensityMap(gaussianScan({ width: 21, height: 21, sigma: 1 }));
+    const fit = fitGaussian(calculateRadialProfile(map, { x: 10, y: 10 }, PIXEL_TO_MM));
+    expect(fit.sigma).toBe(0);
+    expect(fit.failure).toMatch(/profile point/);
+  });
+});
+
+describe('analyzeFilm', () => {
+  it('finds the centroid and sigma of an off-centre spot', () => {
+    const fit = analyzeFilm(gaussianScan({ width: 140, height: 120, sigma: 15, center: { x: 62, y: 55 } }), {
+      pixelToMm: PIXEL_TO_MM,
+      scale: 1,
+      calibration: null
+    });
+    expect(fit.centroid.x).toBeCloseTo(62, 1);
+    expect(fit.centroid.y).toBeCloseTo(55, 1);
+    expect(fit.sigma).toBeCloseTo(1.5, 2);
+    expect(fit.rSquared).toBeGreaterThan(0.99);
+  });
+
+  it('converts with the effective pixel size of a reduced scan', () => {
+    const image = gaussianScan({ width: 121, height: 121, sigma: 20 });
+    const full = analyzeFilm(image, { pixelToMm: PIXEL_TO_MM, scale: 1, calibration: null });
+    // The same analysed grid, taken from a scan with two pixels per analysed pixel
+    const reduced = analyzeFilm(image, { pixelToMm: PIXEL_TO_MM / 2, scale: 0.5, calibration: null });
+    expect(reduced.pixelToMm).toBe(PIXEL_TO_MM);
+    expect(reduced.sigma).toBe(full.sigma);
+    expect(full.sigma).toBeCloseTo(2, 2);
+  });
+
+  it('removes a tilted background with the annular plane fit', () => {
+    const image = gaussianScan({ width: 161, height: 161, sigma: 12, background: (x, y) => 20 + 0.05 * x - 0.03 * y });
+    const options = { pixelToMm: PIXEL_TO_MM, scale: 1, calibration: null };
+    const plain = analyzeFilm(image, options);
+    const corrected = analyzeFilm(image, { ...options, background: { subtraction: 'annular', annulusSigma: 3 } });
+
+    expect(corrected.background?.subtraction).toBe('annular');
+    expect(Math.abs(corrected.sigma - 1.2)).toBeLessThan(0.01);
+    expect(Math.abs(plain.sigma - 1.2)).toBeGreaterThan(Math.abs(corrected.sigma - 1.2));
+  });
+
+  it('uses the session thresholds', () => {
+    const fit = analyzeFilm(gaussianScan({ width: 81, height: 81, sigma: 10 }), {
+      pixelToMm: PIXEL_TO_MM,
+      scale: 1,
+      calibration: null,
+      settings: { ...DEFAULT_ANALYSIS_SETTINGS, minFitPoints: 1000 }
+    });
+    expect(fit.sigma).toBe(0);
+    expect(fit.diagnostics?.failure).toMatch(/need 1000/);
+  });
+});
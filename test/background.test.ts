@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { fitAnnularBackground, subtractPlane } from '../utils/background';
+import { toIntensityMap } from '../utils/physics';
+import { gaussianScan } from './fixtures';
+
+describe('fitAnnularBackground', () => {
+  const plane = (x: number, y: number) => 12 + 0.04 * x - 0.07 * y;
+  const map = toIntensityMap(gaussianScan({ width: 100, height: 80, sigma: 6, background: plane }));
+
+  // 8-bit scans: the rounding averages out over the annulus, not to the last digit
+  it('fits the plane outside the spot', () => {
+    const fit = fitAnnularBackground(map, { x: 49.5, y: 39.5 }, 30)!;
+    expect(fit.a).toBeCloseTo(12, 1);
+    expect(fit.bx).toBeCloseTo(0.04, 3);
+    expect(fit.by).toBeCloseTo(-0.07, 3);
+
+    const flat = subtractPlane(map, fit);
+    expect(Math.abs(flat.data[0])).toBeLessThan(0.5);
+    expect(Math.abs(flat.data[flat.data.length - 1])).toBeLessThan(0.5);
+  });
+
+  it('ignores masked pixels', () => {
+    const mask = new Uint8Array(map.width * map.height).fill(1);
+    const spoiled = { ...map, data: map.data.slice(), mask };
+    for (let p = 0; p < 200; p++) {
+      spoiled.data[p] = 255;
+      mask[p] = 0;
+    }
+    expect(fitAnnularBackground(spoiled, { x: 49.5, y: 39.5 }, 30)!.a).toBeCloseTo(12, 1);
+  });
+
+  it('needs pixels outside the radius', () => {
+    expect(fitAnnularBackground(map, { x: 49.5, y: 39.5 }, 200)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ImportEntry, parseScanName, planBatchImport } from '../utils/batchImport';
+import { film } from './fixtures';
+
+const entry = (distance: number, kind: ImportEntry['kind'], src: string): ImportEntry => ({ distance, kind, src, scale: null });
+
+describe('parseScanName', () => {
+  it('guesses distance and type from common names', () => {
+    expect(parseScanName('run3_L250_air.tif', '')).toEqual({ distance: 250, kind: 'air' });
+    expect(parseScanName('PMMA 300mm mat.png', '')).toEqual({ distance: 300, kind: 'material' });
+  });
+
+  it('follows an explicit pattern', () => {
+    expect(parseScanName('scan-12,5-material-2.tif', 'scan-{L}-{type}-*')).toEqual({ distance: 12.5, kind: 'material' });
+    expect(parseScanName('other.tif', 'scan-{L}-{type}')).toEqual({ distance: null, kind: null });
+  });
+
+  it('requires a placeholder written twice to match the same text', () => {
+    expect(parseScanName('L250_air_250mm.tif', 'L{L}_{type}_{L}mm')).toEqual({ distance: 250, kind: 'air' });
+    expect(parseScanName('L250_air_300mm.tif', 'L{L}_{type}_{l}mm')).toEqual({ distance: null, kind: null });
+  });
+});
+
+describe('planBatchImport', () => {
+  it('pairs air and material at one distance and turns repeats into new stations', () => {
+    const { films, targets } = planBatchImport([], [
+      entry(100, 'air', 'a1'),
+      entry(100, 'material', 'm1'),
+      entry(100, 'material', 'm2'),
+      entry(200, 'air', 'a2')
+    ], false);
+    expect(films.map(f => [f.distanceL, f.airImageSrc, f.materialImageSrc])).toEqual([
+      [100, 'a1', 'm1'],
+      [100, null, 'm2'],
+      [200, 'a2', null]
+    ]);
+    expect(targets.map(t => t.filmId)).toEqual([1, 1, 2, 3]);
+    expect(targets.every(t => t.isNew)).toBe(true);
+  });
+
+  it('fills empty slots of existing stations and resets their fits', () => {
+    const existing = [film(4, 100, { airImageSrc: 'old', airSigma: 1.2, materialSigma: 9, materialSystematic: 0.1 })];
+    const { films, targets } = planBatchImport(existing, [entry(100, 'material', 'm')], false);
+    expect(films).toHaveLength(1);
+    expect(films[0]).toMatchObject({ airImageSrc: 'old', airSigma: 1.2, materialImageSrc: 'm', materialSigma: null, materialSystematic: null });
+    expect(targets).toEqual([{ filmId: 4, isNew: false }]);
+  });
+
+  it('removes empty stations on request and never reuses their ids', () => {
+    const existing = [film(1, 100), film(2, 200, { airImageSrc: 'kept' })];
+    const { films } = planBatchImport(existing, [entry(300, 'air', 'new')], true);
+    expect(films.map(f => f.id)).toEqual([2, 3]);
+    expect(existing).toHaveLength(2);
+  });
+});
@@ -0,0 +1,130 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'vite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Material } from '../types';
+import { serializeProject } from '../utils/projectFile';
+import { DEFAULT_SESSION_STATE } from '../utils/session';
+import { encodePng, gaussianScan } from './fixtures';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+
+let work = '';
+
+const run = (...args: string[]) => {
+  const result = spawnSync(process.execPath, [path.join(work, 'dist', 'bbsa.js'), ...args], { encoding: 'utf8' });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+};
+
+// An 8-bit grey scan of a round spot, as a scanner would save it
+const writeScan = (dir: string, name: string, sigma: number) => {
+  const size = 101;
+  const { data } = gaussianScan({ width: size, height: size, sigma });
+  const rows = Array.from({ length: size }, (_, y) =>
+    new Uint8Array(Array.from({ length: size }, (_, x) => Math.round(data[(y * size + x) * 4]))));
+  writeFileSync(path.join(dir, name), encodePng({ width: size, height: size, depth: 8, colorType: 0, rows }));
+};
+
+const writeFile = (name: string, content: string) => {
+  const file = path.join(work, name);
+  writeFileSync(file, content);
+  return file;
+};
+
+describe('bbsa analyze', () => {
+  beforeAll(async () => {
+    work = mkdtempSync(path.join(tmpdir(), 'bbsa-cli-'));
+    await build({
+      root: ROOT,
+      configFile: path.join(ROOT, 'vite.cli.config.ts'),
+      logLevel: 'silent',
+      build: { outDir: path.join(work, 'dist') }
+    });
+  }, 120_000);
+
+  afterAll(() => {
+    if (work) rmSync(work, { recursive: true, force: true });
+  });
+
+  it('writes the results table and exits with 0', () => {
+    const scans = path.join(work, 'good');
+    mkdirSync(scans);
+    writeScan(scans, 'L100_air.png', 10);
+    writeScan(scans, 'L100_mat.png', 14);
+    writeScan(scans, 'L200_air.png', 10);
+    writeScan(scans, 'L200_mat.png', 18);
+    const config = writeFile('run.json', JSON.stringify({ pixelToMm: 0.1, analysisMaxSize: 0 }));
+
+    const { status, stdout, stderr } = run('analyze', '--config', config, scans);
+    expect(stderr).toMatch(/theta_RMS/);
+    expect(status).toBe(0);
+    const { rows } = JSON.parse(stdout);
+    expect(rows.map((r: Record<string, number>) => r.distance_mm)).toEqual([100, 200]);
+    expect(rows[0].sigma_air_mm).toBeCloseTo(1, 1);
+    expect(rows[1].sigma_material_mm).toBeCloseTo(1.8, 1);
+  });
+
+  it('exits with 1 when a fit fails', () => {
+    const scans = path.join(work, 'blank');
+    mkdirSync(scans);
+    writeScan(scans, 'L100_air.png', 10);
+    writeScan(scans, 'L100_mat.png', 0.01); // a single dark pixel
+    const config = writeFile('blank.json', JSON.stringify({ pixelToMm: 0.1 }));
+
+    const { status, stderr } = run('analyze', '--config', config, scans);
+    expect(stderr).toMatch(/L100_mat\.png: fit failed/);
+    expect(status).toBe(1);
+  });
+
+  it('exits with 2 on usage and config errors', () => {
+    const missing = run();
+    expect(missing.status).toBe(2);
+    expect(missing.stderr).toMatch(/No command given[\s\S]*Usage:/);
+
+    expect(run('analyze', '--format', 'xml').stderr).toMatch(/Unknown format "xml"/);
+
+    const list = writeFile('list.json', '[]');
+    const notObject = run('analyze', '--config', list, work);
+    expect(notObject.status).toBe(2);
+    expect(notObject.stderr).toMatch(/must be a JSON object/);
+
+    const config = writeFile('empty.json', '{}');
+    const noDirectory = run('analyze', '--config', config, path.join(work, 'missing'));
+    expect(noDirectory.status).toBe(2);
+    expect(noDirectory.stderr).toMatch(/Cannot read the scan directory/);
+  });
+
+  it.each([
+    ['a mistyped field', { pixelToMm: '0.1' }, /"pixelToMm" must be a positive number/],
+    ['an unknown model', { scattering: { models: ['gaussian'] } }, /"scattering" must be an object with known models/],
+    ['an unknown field', { pixelSize: 0.1 }, /unknown field "pixelSize"/]
+  ])('exits with 2 on %s in the config', (_, content, message) => {
+    const config = writeFile('typed.json', JSON.stringify(content));
+    const { status, stderr } = run('analyze', '--config', config, work);
+    expect(status).toBe(2);
+    expect(stderr).toMatch(message);
+  });
+
+  it('uses the custom material of a project file', () => {
+    const scans = path.join(work, 'project');
+    mkdirSync(scans);
+    writeScan(scans, 'L100_air.png', 10);
+    writeScan(scans, 'L100_mat.png', 14);
+    const material: Material = {
+      id: 'custom-resin', name: 'Resin', category: 'custom', density: 1.2, radLength: 41,
+      zOverA: 0.54, meanExcitation: 70, composition: [{ symbol: 'C', massFraction: 0.9 }, { symbol: 'H', massFraction: 0.1 }]
+    };
+    const project = (materials: Material[]) => writeFile(`resin${materials.length}.bbsa`, serializeProject({
+      sessionName: 'Resin', session: { ...DEFAULT_SESSION_STATE, pixelToMm: 0.1, materialId: material.id },
+      results: [], savedRuns: [], calibrationCurves: [], airBaselines: [], materials
+    }));
+
+    expect(run('analyze', '--config', project([]), scans).stderr).toMatch(/"custom-resin" is not in the library/);
+    const { status, stderr } = run('analyze', '--config', project([material]), scans);
+    expect(status).toBe(0);
+    expect(stderr).not.toMatch(/not in the library/);
+  });
+});
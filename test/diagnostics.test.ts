@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFilm } from '../utils/analysis';
+import { distanceFlags } from '../utils/diagnostics';
+import { film, gaussianScan } from './fixtures';
+
+const OPTIONS = { pixelToMm: 0.1, scale: 1, calibration: null };
+
+describe('fit diagnostics', () => {
+  it('raises no flags for a clean, centred spot', () => {
+    const fit = analyzeFilm(gaussianScan({ width: 121, height: 121, sigma: 12 }), OPTIONS);
+    expect(fit.diagnostics?.flags).toEqual([]);
+  });
+
+  it('flags a spot that saturates the scanner', () => {
+    const fit = analyzeFilm(gaussianScan({ width: 121, height: 121, sigma: 12, peak: 400 }), OPTIONS);
+    expect(fit.diagnostics?.flags).toContain('clipped');
+  });
+
+  it('flags a spot close to the scan edge', () => {
+    const fit = analyzeFilm(gaussianScan({ width: 121, height: 121, sigma: 12, center: { x: 20, y: 60 } }), OPTIONS);
+    expect(fit.diagnostics?.flags).toContain('nearEdge');
+  });
+
+  it('flags a distance whose material width is not above the air width', () => {
+    const films = [film(1, 100, { airSigma: 2, materialSigma: 1.9 })];
+    expect(distanceFlags(films, 2, 1.9, true)).toEqual(['materialBelowAir']);
+    expect(distanceFlags(films, 2, 2.5, true)).toEqual([]);
+  });
+});
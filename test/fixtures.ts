@@ -0,0 +1,318 @@
+import { deflateSync } from 'node:zlib';
+import { FilmSample, GaussianFitResult, RgbaImage } from '../types';
+import { newFilm } from '../utils/stations';
+
+/**
+ * Synthetic scans and minimal encoders for the decoder and pipeline tests.
+ */
+
+export interface BeamSpot {
+  width: number;
+  height: number;
+  sigma: number; // px
+  peak?: number; // intensity above the background, 8-bit scale
+  background?: (x: number, y: number) => number;
+  center?: { x: number; y: number }; // px, pixel centres at integer coordinates
+}
+
+/**
+ * An 8-bit film scan of a round Gaussian spot: intensity 255 - brightness, as toIntensityMap reads it.
+ */
+export const gaussianScan = ({ width, height, sigma, peak = 200, background = () => 0, center }: BeamSpot): RgbaImage => {
+  const cx = center?.x ?? (width - 1) / 2, cy = center?.y ?? (height - 1) / 2;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const intensity = peak * Math.exp(-((x - cx) ** 2 + (y - cy) ** 2) / (2 * sigma * sigma)) + background(x, y);
+      const o = (y * width + x) * 4;
+      data[o] = data[o + 1] = data[o + 2] = 255 - intensity;
+      data[o + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+export const film = (id: number, distanceL: number, fields: Partial<FilmSample> = {}): FilmSample => ({ ...newFilm(id, distanceL), ...fields });
+
+/**
+ * A radial fit result with the given width, for code that only reads σ and its error.
+ */
+export const fitResult = (sigma: number, sigmaError: number): GaussianFitResult => ({
+  sigma, sigmaError, amplitude: 200, rSquared: 1, centroid: { x: 0, y: 0 }, points: [], pixelToMm: 0.1, scale: 1, fit2D: null
+});
+
+// --- TIFF -------------------------------------------------------------------
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 0);
+  return out;
+};
+
+/**
+ * TIFF LZW: MSB-first codes, a clear code first, the code width growing one code early.
+ */
+export const lzwEncode = (input: Uint8Array): Uint8Array => {
+  const CLEAR = 256, EOI = 257;
+  const bytes: number[] = [];
+  let buffer = 0, bits = 0, width = 9;
+  const emit = (code: number) => {
+    buffer = (buffer << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+    buffer &= (1 << bits) - 1;
+  };
+
+  let table = new Map<number, number>();
+  let next = 258;
+  emit(CLEAR);
+  let prefix = -1;
+  for (const b of input) {
+    if (prefix < 0) {
+      prefix = b;
+      continue;
+    }
+    const key = prefix * 256 + b;
+    const known = table.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    emit(prefix);
+    table.set(key, next++);
+    if (next >= 1 << width && width < 12) width++;
+    if (next >= 4094) {
+      emit(CLEAR);
+      table = new Map();
+      next = 258;
+      width = 9;
+    }
+    prefix = b;
+  }
+  if (prefix >= 0) {
+    emit(prefix);
+    // The decoder adds an entry for this code too, and may widen before reading EOI
+    if (next + 1 >= 1 << width && width < 12) width++;
+  }
+  emit(EOI);
+  if (bits > 0) bytes.push((buffer << (8 - bits)) & 0xff);
+  return new Uint8Array(bytes);
+};
+
+export const packBitsEncode = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    let run = 1;
+    while (i + run < input.length && run < 128 && input[i + run] === input[i]) run++;
+    if (run > 1) {
+      out.push(257 - run, input[i]);
+      i += run;
+      continue;
+    }
+    let literal = 1;
+    while (i + literal < input.length && literal < 128 && input[i + literal] !== input[i + literal - 1]) literal++;
+    out.push(literal - 1, ...input.subarray(i, i + literal));
+    i += literal;
+  }
+  return new Uint8Array(out);
+};
+
+export interface TiffFixture {
+  width: number;
+  height: number;
+  bitsPerSample: 8 | 16;
+  samples: number[]; // width × height × samplesPerPixel, row-major
+  samplesPerPixel?: number;
+  photometric?: number; // default 1 (BlackIsZero) or 2 (RGB) for three samples
+  compression?: 'none' | 'lzw' | 'packbits' | 'deflate';
+  predictor?: 1 | 2;
+  rowsPerStrip?: number;
+  reducedResolution?: boolean;
+}
+
+const COMPRESSION_CODES = { none: 1, lzw: 5, packbits: 32773, deflate: 8 };
+
+const stripBytes = (page: TiffFixture, little: boolean): Uint8Array[] => {
+  const spp = page.samplesPerPixel ?? 1;
+  const rowsPerStrip = page.rowsPerStrip ?? page.height;
+  const rowSamples = page.width * spp;
+  const strips: Uint8Array[] = [];
+  for (let y0 = 0; y0 < page.height; y0 += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, page.height - y0);
+    const samples: number[] = [];
+    for (let r = 0; r < rows; r++) {
+      const row = page.samples.slice((y0 + r) * rowSamples, (y0 + r + 1) * rowSamples);
+      const max = 2 ** page.bitsPerSample - 1;
+      samples.push(...(page.predictor === 2 ? row.map((v, i) => i < spp ? v : (v - row[i - spp]) & max) : row));
+    }
+    const raw = new Uint8Array(samples.length * (page.bitsPerSample / 8));
+    const view = new DataView(raw.buffer);
+    samples.forEach((v, i) => page.bitsPerSample === 8 ? view.setUint8(i, v) : view.setUint16(2 * i, v, little));
+    const compression = page.compression ?? 'none';
+    strips.push(compression === 'lzw' ? lzwEncode(raw)
+      : compression === 'packbits' ? packBitsEncode(raw)
+      : compression === 'deflate' ? new Uint8Array(deflateSync(raw))
+      : raw);
+  }
+  return strips;
+};
+
+/**
+ * Encodes a (multi-page) baseline TIFF with one IFD per page, after all the image data.
+ */
+export const encodeTiff = (pages: TiffFixture[], little = true): ArrayBuffer => {
+  const parts: Uint8Array[] = [];
+  let size = 8;
+  const add = (bytes: Uint8Array): number => {
+    const at = size;
+    parts.push(bytes);
+    size += bytes.length + (bytes.length & 1); // word-aligned
+    if (bytes.length & 1) parts.push(new Uint8Array(1));
+    return at;
+  };
+
+  const ifds = pages.map(page => {
+    const strips = stripBytes(page, little);
+    const spp = page.samplesPerPixel ?? 1;
+    const entries: [number, number, number[]][] = [ // tag, type (3 SHORT, 4 LONG), values
+      [254, 4, [page.reducedResolution ? 1 : 0]],
+      [256, 4, [page.width]],
+      [257, 4, [page.height]],
+      [258, 3, new Array(spp).fill(page.bitsPerSample)],
+      [259, 3, [COMPRESSION_CODES[page.compression ?? 'none']]],
+      [262, 3, [page.photometric ?? (spp >= 3 ? 2 : 1)]],
+      [273, 4, strips.map(add)],
+      [277, 3, [spp]],
+      [278, 4, [page.rowsPerStrip ?? page.height]],
+      [279, 4, strips.map(s => s.length)],
+      [284, 3, [1]],
+      [317, 3, [page.predictor ?? 1]]
+    ];
+    return entries;
+  });
+
+  const ifdOffsets: number[] = [];
+  const ifdParts = ifds.map(entries => {
+    // Values that do not fit in the entry go after it
+    const extra = entries.map(([, type, values]) => (type === 3 ? 2 : 4) * values.length > 4 ? (type === 3 ? 2 : 4) * values.length : 0);
+    const length = 2 + entries.length * 12 + 4 + extra.reduce((s, n) => s + n, 0);
+    const bytes = new Uint8Array(length);
+    const view = new DataView(bytes.buffer);
+    const at = size;
+    ifdOffsets.push(at);
+    view.setUint16(0, entries.length, little);
+    let overflow = 2 + entries.length * 12 + 4;
+    entries.forEach(([tag, type, values], i) => {
+      const e = 2 + i * 12;
+      view.setUint16(e, tag, little);
+      view.setUint16(e + 2, type, little);
+      view.setUint32(e + 4, values.length, little);
+      let target = e + 8;
+      if (extra[i] > 0) {
+        view.setUint32(e + 8, at + overflow, little);
+        target = overflow;
+        overflow += extra[i];
+      }
+      values.forEach((v, k) => type === 3 ? view.setUint16(target + 2 * k, v, little) : view.setUint32(target + 4 * k, v, little));
+    });
+    add(bytes);
+    return { bytes, view, nextAt: 2 + entries.length * 12 };
+  });
+  ifdParts.forEach(({ view, nextAt }, i) => view.setUint32(nextAt, ifdOffsets[i + 1] ?? 0, little));
+
+  const header = new Uint8Array(8);
+  const view = new DataView(header.buffer);
+  header.set(little ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, ifdOffsets[0], little);
+  return concat([header, ...parts]).buffer as ArrayBuffer;
+};
+
+// --- PNG --------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, body: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  out.set([...type].map(c => c.charCodeAt(0)), 4);
+  out.set(body, 8);
+  view.setUint32(8 + body.length, crc32(out.subarray(4, 8 + body.length)));
+  return out;
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+export interface PngFixture {
+  width: number;
+  height: number;
+  depth: number;
+  colorType: number;
+  rows: Uint8Array[]; // packed scanlines, unfiltered
+  palette?: number[];
+  transparency?: number[];
+  interlace?: number;
+  chunks?: string[]; // extra empty ancillary chunks
+  pixelsPerMetre?: { x: number; y: number }; // written as a pHYs chunk
+}
+
+/**
+ * Encodes a PNG, filtering row y with filter type y % 5 so every filter is exercised.
+ */
+export const encodePng = ({ width, height, depth, colorType, rows, palette, transparency, interlace = 0, chunks = [], pixelsPerMetre }: PngFixture): Uint8Array => {
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType]!;
+  const bpp = Math.max(1, (channels * depth) >> 3);
+  const filtered = rows.flatMap((row, y) => {
+    const type = y % 5, prev = rows[y - 1];
+    const out = row.map((raw, x) => {
+      const a = x >= bpp ? row[x - bpp] : 0;
+      const b = prev ? prev[x] : 0;
+      const c = x >= bpp && prev ? prev[x - bpp] : 0;
+      const predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][type];
+      return (raw - predictor) & 0xff;
+    });
+    return [type, ...out];
+  });
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([depth, colorType, 0, 0, interlace], 8);
+  const physical = new Uint8Array(9);
+  if (pixelsPerMetre) {
+    const phys = new DataView(physical.buffer);
+    phys.setUint32(0, pixelsPerMetre.x);
+    phys.setUint32(4, pixelsPerMetre.y);
+    physical[8] = 1; // unit: metre
+  }
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...chunks.map(type => chunk(type, new Uint8Array(0))),
+    ...(pixelsPerMetre ? [chunk('pHYs', physical)] : []),
+    ...(palette ? [chunk('PLTE', new Uint8Array(palette))] : []),
+    ...(transparency ? [chunk('tRNS', new Uint8Array(transparency))] : []),
+    chunk('IDAT', deflateSync(new Uint8Array(filtered))),
+    chunk('IEND', new Uint8Array(0))
+  ]);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { HaloModel, RadialDataPoint, RadialGaussianFit } from '../types';
+import { fitHalo, fitHaloModels } from '../utils/haloFits';
+
+const CORE = { amplitude: 100, sigma: 1 };
+const BACKGROUND = 2;
+
+const profile = (model: HaloModel, haloAmplitude: number, s: number): RadialDataPoint[] =>
+  Array.from({ length: 150 }, (_, i) => {
+    const r = 0.05 + i * 0.1;
+    const halo = model === 'doubleGaussian' ? Math.exp(-(r * r) / (2 * s * s)) : s ** 4 / (r * r + s * s) ** 2;
+    return {
+      radius: r,
+      intensity: CORE.amplitude * Math.exp(-(r * r) / (2 * CORE.sigma ** 2)) + haloAmplitude * halo + BACKGROUND,
+      count: 100,
+      spread: 1
+    };
+  });
+
+// A core-only fit that is slightly off, as the windowed fit of a haloed profile would be
+const core: RadialGaussianFit = { sigma: 1.1, sigmaError: 0.01, amplitude: 105, pointsInWindow: 10, windowRadius: [0.3, 1.5], failure: null };
+
+describe('fitHalo', () => {
+  it('separates a wide Gaussian halo from the core', () => {
+    const fit = fitHalo(profile('doubleGaussian', 4, 4), core, 'doubleGaussian');
+    expect(fit.failure).toBeNull();
+    expect(fit.coreSigma).toBeCloseTo(1, 4);
+    expect(fit.haloSigma).toBeCloseTo(4, 3);
+    expect(fit.background).toBeCloseTo(BACKGROUND, 3);
+    // 4·16 / (100·1 + 4·16) of the integral sits in the halo
+    expect(fit.haloFraction).toBeCloseTo(64 / 164, 4);
+  });
+
+  it('fits a Rutherford tail', () => {
+    const fit = fitHalo(profile('rutherford', 3, 2), core, 'rutherford');
+    expect(fit.failure).toBeNull();
+    expect(fit.coreSigma).toBeCloseTo(1, 4);
+    expect(fit.haloScale).toBeCloseTo(2, 3);
+  });
+
+  it('reports no halo for a pure Gaussian', () => {
+    const fit = fitHalo(profile('doubleGaussian', 0, 4), core, 'doubleGaussian');
+    expect(fit.failure).not.toBeNull();
+    expect(fit.coreSigma).toBe(0);
+  });
+
+  it('needs a core fit to start from', () => {
+    expect(fitHaloModels(profile('doubleGaussian', 4, 4), { ...core, sigma: 0, failure: 'no fit' })).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { decodePng, isPng } from '../cli/png';
+import { encodePng } from './fixtures';
+
+const pixel = (data: ArrayLike<number>, i: number) => Array.from(data).slice(i * 4, i * 4 + 4);
+
+describe('decodePng', () => {
+  it('round-trips 8-bit RGBA through every scanline filter', () => {
+    const width = 7, height = 10;
+    const rgba = Array.from({ length: width * height * 4 }, (_, i) => (i * 37 + (i >> 3) * 11) & 0xff);
+    const rows = Array.from({ length: height }, (_, y) => new Uint8Array(rgba.slice(y * width * 4, (y + 1) * width * 4)));
+    const bytes = encodePng({ width, height, depth: 8, colorType: 6, rows });
+
+    expect(isPng(bytes)).toBe(true);
+    const { image, colourChunks } = decodePng(bytes);
+    expect([image.width, image.height]).toEqual([width, height]);
+    expect(Array.from(image.data)).toEqual(rgba);
+    expect(colourChunks).toEqual([]);
+  });
+
+  it('keeps the high byte of 16-bit grey samples', () => {
+    const values = [0, 0x01ff, 0x8000, 0xfffe, 0x1234, 0xabcd];
+    const rows = [0, 1].map(y => new Uint8Array(values.slice(y * 3, y * 3 + 3).flatMap(v => [v >> 8, v & 0xff])));
+    const { image } = decodePng(encodePng({ width: 3, height: 2, depth: 16, colorType: 0, rows }));
+    values.forEach((v, i) => expect(pixel(image.data, i)).toEqual([v >> 8, v >> 8, v >> 8, 255]));
+  });
+
+  it('scales low bit depths to 0-255', () => {
+    // 2-bit grey, values 0..3 packed four to a byte
+    const { image } = decodePng(encodePng({ width: 4, height: 1, depth: 2, colorType: 0, rows: [new Uint8Array([0b00011011])] }));
+    expect([0, 1, 2, 3].map(i => image.data[i * 4])).toEqual([0, 85, 170, 255]);
+  });
+
+  it('expands palettes with their tRNS alpha', () => {
+    const { image } = decodePng(encodePng({
+      width: 2, height: 1, depth: 8, colorType: 3, rows: [new Uint8Array([1, 0])],
+      palette: [10, 20, 30, 40, 50, 60], transparency: [128]
+    }));
+    expect(pixel(image.data, 0)).toEqual([40, 50, 60, 255]);
+    expect(pixel(image.data, 1)).toEqual([10, 20, 30, 128]);
+  });
+
+  it('reports colour-management chunks it does not apply', () => {
+    const bytes = encodePng({ width: 1, height: 1, depth: 8, colorType: 0, rows: [new Uint8Array([5])], chunks: ['gAMA', 'sRGB'] });
+    expect(decodePng(bytes).colourChunks).toEqual(['gAMA', 'sRGB']);
+  });
+
+  it('rejects interlaced files and non-PNG input', () => {
+    expect(() => decodePng(encodePng({ width: 1, height: 1, depth: 8, colorType: 0, rows: [new Uint8Array([5])], interlace: 1 })))
+      .toThrow(/Interlaced/);
+    expect(() => decodePng(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))).toThrow('Not a PNG file');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AirBaseline, SessionState } from '../types';
+import { fitAirBaseline } from '../utils/airBaseline';
+import { analyzeFilm } from '../utils/analysis';
+import { PROJECT_FORMAT, PROJECT_SCHEMA_VERSION, ProjectFileError, parseProject, serializeProject } from '../utils/projectFile';
+import { DEFAULT_SESSION_STATE } from '../utils/session';
+import { groupByDistance } from '../utils/stations';
+import { summarizeSession } from '../utils/summary';
+import { film, gaussianScan } from './fixtures';
+
+const session: SessionState = {
+  ...DEFAULT_SESSION_STATE,
+  excludedDistances: [200],
+  films: [film(1, 100, { airImageSrc: 'data:image/png;base64,AAAA', airSigma: 1.25, airScale: { mmPerPixel: 0.04, source: 'ruler' } }), film(2, 200)]
+};
+
+const project = {
+  sessionName: 'Beam test',
+  session,
+  results: [],
+  savedRuns: [],
+  calibrationCurves: [],
+  airBaselines: [],
+  materials: []
+};
+
+// A project as the app writes it after an analysis: fits, results and an air baseline model
+const analysed = () => {
+  const fit = (sigma: number) => analyzeFilm(gaussianScan({ width: 121, height: 121, sigma }), { pixelToMm: 0.1, scale: 1, calibration: null });
+  const films = [100, 200, 300].map((L, i) => {
+    const airFit = fit(10), materialFit = fit(10 + i * 4);
+    return film(i + 1, L, { airFit, airSigma: airFit.sigma, materialFit, materialSigma: materialFit.sigma });
+  });
+  const points = films.map(f => ({ distance: f.distanceL, sigma: f.airSigma!, sigmaError: f.airFit!.sigmaError }));
+  const airBaseline: AirBaseline = { id: 'b', name: 'Air', model: 'linear', points, createdAt: 1, ...fitAirBaseline(points, 'linear') };
+  const { results } = summarizeSession({
+    films, groups: groupByDistance(films), airBaseline, uncertainties: DEFAULT_SESSION_STATE.uncertainties,
+    excludedDistances: [], theoreticalTheta: 0.01, fitModel: 'intercept'
+  });
+  return { ...project, session: { ...session, films, airBaselineId: 'b' }, results, airBaselines: [airBaseline] };
+};
+
+const withChange = (change: (file: Record<string, unknown>) => void, base: Parameters<typeof serializeProject>[0] = project): string => {
+  const file = JSON.parse(serializeProject(base));
+  change(file);
+  return JSON.stringify(file);
+};
+
+type RawFile = { session: { films: Record<string, Record<string, unknown>>[] }; airBaselines: Record<string, unknown>[]; results: unknown[] };
+const analysedWith = (change: (file: RawFile) => void) => withChange(file => change(file as unknown as RawFile), analysed());
+
+describe('parseProject', () => {
+  it('round-trips a serialized project', () => {
+    const parsed = parseProject(serializeProject(project));
+    expect(parsed).toMatchObject({ format: PROJECT_FORMAT, schemaVersion: PROJECT_SCHEMA_VERSION, ...project });
+    expect(parsed.exportedAt).toBeGreaterThan(0);
+  });
+
+  it('accepts the fits, results and air baselines of an analysed session', () => {
+    const parsed = parseProject(serializeProject(analysed()));
+    expect(parsed.session.films[2].materialFit!.sigma).toBeGreaterThan(0);
+    expect(parsed.results).toHaveLength(3);
+    expect(parsed.airBaselines[0].covariance).toHaveLength(2);
+  });
+
+  it('fills film fields that older files lack', () => {
+    const text = withChange(file => {
+      (file.session as { films: unknown[] }).films = [{ id: 3, distanceL: 300, airImageSrc: null, materialImageSrc: null }];
+    });
+    expect(parseProject(text).session.films[0]).toMatchObject({ airSigma: null, materialFit: null, materialScale: null });
+  });
+
+  it.each([
+    ['invalid JSON', '{"format":', /not valid JSON/],
+    ['another format', withChange(file => { file.format = 'other'; }), /not a Bose Beamline/],
+    ['a JSON array', '[]', /not a Bose Beamline/],
+    ['a newer schema', withChange(file => { file.schemaVersion = PROJECT_SCHEMA_VERSION + 1; }), /newer version/],
+    ['a missing schema', withChange(file => { delete file.schemaVersion; }), /no valid schema version/],
+    ['a film without an id', withChange(file => { delete (file.session as { films: Record<string, unknown>[] }).films[0].id; }), /film #1 has no id/],
+    ['a linked scan', withChange(file => { (file.session as { films: Record<string, unknown>[] }).films[0].airImageSrc = 'blob:x'; }), /invalid embedded image/],
+    ['a zero pixel scale', withChange(file => { (file.session as { films: Record<string, unknown>[] }).films[0].airScale = { mmPerPixel: 0, source: 'ruler' }; }), /invalid airScale/],
+    ['a linked background reference', withChange(file => { (file.session as { background: Record<string, unknown> }).background.blankImageSrc = 'blob:x'; }), /background has an invalid embedded image/],
+    ['results that are not a list', withChange(file => { file.results = {}; }), /results must be a list/],
+    ['air baselines that are not a list', withChange(file => { file.airBaselines = 'none'; }), /air baselines must be a list/],
+    ['a fit without sigma', analysedWith(file => { delete file.session.films[0].airFit.sigma; }), /film #1 has an invalid airFit/],
+    ['a fit with unlabelled points', analysedWith(file => { file.session.films[1].materialFit.points = [1, 2]; }), /film #2 has an invalid materialFit/],
+    ['a region without masks', withChange(file => {
+      (file.session as RawFile['session']).films[0].airRegion = { roi: null, centroid: null, refineCentroid: false };
+    }), /film #1 has an invalid airRegion/],
+    ['a baseline covariance of the wrong size', analysedWith(file => { file.airBaselines[0].covariance = [[1]]; }), /air baseline #1 has an invalid covariance/],
+    ['a baseline with an unknown model', analysedWith(file => { file.airBaselines[0].model = 'cubic'; }), /air baseline #1 has an unknown model/],
+    ['a calibration curve without coefficients', withChange(file => {
+      file.calibrationCurves = [{ id: 'c', name: 'c', channel: 'red', model: 'rational', coefficients: [1], unexposedPixelValue: 200, points: [], rSquared: 1, createdAt: 0 }];
+    }), /calibration curve #1 has invalid coefficients/],
+    ['a result row without θ', analysedWith(file => { delete (file.results[1] as Record<string, unknown>).theta; }), /result #2 is not a valid result row/],
+    ['an unknown particle', withChange(file => { (file.session as { beam: object }).beam = { particle: 'kaon', kineticEnergy: 100, manual: false }; }), /invalid beam settings/],
+    ['a material without a composition', withChange(file => { file.materials = [{ id: 'm', name: 'm', density: 1, radLength: 40, zOverA: 0.5, meanExcitation: 70 }]; }), /material #1 is not a valid material/],
+    ['analysis settings that are not numbers', withChange(file => { (file.session as { analysisSettings: object }).analysisSettings = { fitLow: 'low' }; }), /invalid analysis settings/]
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseProject(text)).toThrow(ProjectFileError);
+    expect(() => parseProject(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { readScanDpi } from '../utils/scanMetadata';
+import { encodePng } from './fixtures';
+
+const PER_INCH = 1000 / 25.4; // pixels per metre for 1 DPI
+
+const pngWithDpi = (x: number, y: number) => {
+  const bytes = encodePng({
+    width: 1, height: 1, depth: 8, colorType: 0, rows: [new Uint8Array([5])],
+    pixelsPerMetre: { x: Math.round(x * PER_INCH), y: Math.round(y * PER_INCH) }
+  });
+  return `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`;
+};
+
+describe('readScanDpi', () => {
+  it('reads the PNG resolution', async () => {
+    const dpi = await readScanDpi(pngWithDpi(600, 600));
+    expect(dpi!.x).toBeCloseTo(600, 1);
+    expect(dpi!.y).toBeCloseTo(600, 1);
+  });
+
+  it.each([
+    ['a screen default', 72, 72],
+    ['a screen default on the y axis only', 600, 96],
+    ['non-square pixels', 600, 1200]
+  ])('ignores %s', async (_, x, y) => {
+    expect(await readScanDpi(pngWithDpi(x, y))).toBeNull();
+  });
+});
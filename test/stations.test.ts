@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { groupByDistance, remapExclusions } from '../utils/stations';
+import { film, fitResult } from './fixtures';
+
+describe('groupByDistance', () => {
+  it('averages repeats at one distance, in ascending L', () => {
+    const groups = groupByDistance([
+      film(1, 300, { airSigma: 2, materialSigma: 3 }),
+      film(2, 100, { airSigma: 1, materialSigma: 2 }),
+      film(3, 300, { airSigma: 2.2, materialSigma: 3.4 })
+    ]);
+    expect(groups.map(g => g.distance)).toEqual([100, 300]);
+    expect(groups[1].filmIds).toEqual([1, 3]);
+    expect(groups[1].measurement.sigmaAir).toBeCloseTo(2.1, 12);
+    expect(groups[1].measurement.sigmaMaterial).toBeCloseTo(3.2, 12);
+    expect(groups[1].sigmaMaterialStd).toBeCloseTo(Math.sqrt(0.08), 12);
+    // No fit errors: the error of the mean is the observed scatter, std/√n
+    expect(groups[1].measurement.sigmaMaterialError).toBeCloseTo(0.2, 12);
+  });
+
+  it('averages air and material over the films that have them', () => {
+    const [group] = groupByDistance([film(1, 200, { airSigma: 1.5 }), film(2, 200, { materialSigma: 2.5 })]);
+    expect(group.measurement.sigmaAir).toBe(1.5);
+    expect(group.measurement.sigmaMaterial).toBe(2.5);
+    expect(group.sigmaAirStd).toBe(0);
+  });
+
+  it('propagates fit errors and sensitivity systematics to the mean', () => {
+    const [group] = groupByDistance([
+      film(1, 200, { materialSigma: 2, materialFit: fitResult(2, 0.03), materialSystematic: 0.04 }),
+      film(2, 200, { materialSigma: 2, materialFit: fitResult(2, 0.03), materialSystematic: 0.04 })
+    ]);
+    expect(group.measurement.sigmaMaterialError).toBeCloseTo(Math.sqrt(2 * 0.05 ** 2) / 2, 12);
+  });
+
+  it('counts a scan shared by cloned stations once', () => {
+    const shared = { airImageSrc: 'data:air', airSigma: 1, materialImageSrc: 'data:mat', materialSigma: 2 };
+    const [group] = groupByDistance([
+      film(1, 200, shared),
+      film(2, 200, shared),
+      film(3, 200, { ...shared, materialImageSrc: 'data:mat2', materialSigma: 3 })
+    ]);
+    expect(group.filmIds).toEqual([1, 2, 3]);
+    expect(group.measurement.sigmaAir).toBe(1);
+    expect(group.measurement.sigmaMaterial).toBe(2.5);
+  });
+});
+
+describe('remapExclusions', () => {
+  const before = [film(1, 100), film(2, 200), film(3, 200), film(4, 300)];
+
+  it('keeps exclusions whose distance still has stations', () => {
+    const after = before.map(f => f.id === 2 ? { ...f, distanceL: 250 } : f);
+    expect(remapExclusions([200], before, after)).toEqual([200]);
+  });
+
+  it('follows stations that all move to a new distance', () => {
+    expect(remapExclusions([300, 100], before, before.map(f => f.id === 4 ? { ...f, distanceL: 350 } : f))).toEqual([350, 100]);
+    expect(remapExclusions([200], before, before.map(f => f.distanceL === 200 ? { ...f, distanceL: 220 } : f))).toEqual([220]);
+  });
+
+  it('drops an exclusion when its stations join an included distance, split up or are removed', () => {
+    expect(remapExclusions([300], before, before.map(f => f.id === 4 ? { ...f, distanceL: 100 } : f))).toEqual([]);
+    expect(remapExclusions([200], before, before.map(f => f.id === 2 ? { ...f, distanceL: 210 } : f.id === 3 ? { ...f, distanceL: 220 } : f)))
+      .toEqual([]);
+    expect(remapExclusions([300], before, before.filter(f => f.id !== 4))).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AirBaseline } from '../types';
+import { DEFAULT_SESSION_STATE } from '../utils/session';
+import { groupByDistance } from '../utils/stations';
+import { summarizeSession } from '../utils/summary';
+import { film } from './fixtures';
+
+const THETA = 0.005;
+const AIR = 1;
+
+// Material widths that give θ at each distance after subtracting the air width
+const films = [[100, THETA], [200, 2 * THETA], [300, THETA], [400, THETA]].map(([L, theta], i) =>
+  film(i + 1, L, { airSigma: AIR, materialSigma: Math.hypot(AIR, theta * L) }));
+
+const summarize = (excludedDistances: number[], airBaseline: AirBaseline | null = null) => summarizeSession({
+  films,
+  groups: groupByDistance(films),
+  airBaseline,
+  uncertainties: DEFAULT_SESSION_STATE.uncertainties,
+  excludedDistances,
+  theoreticalTheta: THETA,
+  fitModel: 'intercept'
+});
+
+describe('summarizeSession', () => {
+  it('subtracts the air width in quadrature at each distance', () => {
+    const { results } = summarize([]);
+    expect(results.map(r => r.theta)).toEqual([THETA, 2 * THETA, THETA, THETA].map(t => expect.closeTo(t, 12)));
+    expect(results[2].sigmaCorrected).toBeCloseTo(THETA * 300, 12);
+    expect(results[2].theoreticalSigma).toBeCloseTo(THETA * 300, 12);
+    expect(results.every(r => !r.excluded && !r.airFromBaseline)).toBe(true);
+  });
+
+  it('leaves excluded rows out of θ_RMS and the line fit only', () => {
+    const all = summarize([]);
+    const kept = summarize([200]);
+    expect(all.thetaRms).toBeCloseTo(Math.sqrt((3 * THETA ** 2 + (2 * THETA) ** 2) / 4), 12);
+    expect(kept.thetaRms).toBeCloseTo(THETA, 12);
+    expect(kept.results[1]).toMatchObject({ excluded: true, theta: all.results[1].theta });
+    expect(kept.linearFit!.slope).toBeCloseTo(THETA, 10);
+    expect(kept.linearFit!.intercept).toBeCloseTo(0, 8);
+  });
+
+  it('takes the air width from a baseline model when one is set', () => {
+    const baseline: AirBaseline = {
+      id: 'b', name: 'b', model: 'linear', coefficients: [0.5, 0], covariance: [[0, 0], [0, 0]],
+      points: [], chiSquare: 0, ndf: 0, createdAt: 0
+    };
+    const { results } = summarize([], baseline);
+    expect(results.every(r => r.airFromBaseline && r.sigmaAir === 0.5)).toBe(true);
+    expect(results[0].sigmaCorrected).toBeCloseTo(Math.sqrt(films[0].materialSigma! ** 2 - 0.25), 12);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TiffError, decodeTiffPage, fullResolutionPages, readTiffPages } from '../utils/tiff';
+import { TiffFixture, encodeTiff } from './fixtures';
+
+const ramp = (count: number, max: number) => Array.from({ length: count }, (_, i) => (i * 7919 + (i >> 4) * 31) % (max + 1));
+
+const decode = async (page: TiffFixture, little = true) => {
+  const buffer = encodeTiff([page], little);
+  return decodeTiffPage(buffer, readTiffPages(buffer)[0]);
+};
+
+const channel = (data: ArrayLike<number>, c: number) => Array.from(data).filter((_, i) => i % 4 === c);
+
+describe('decodeTiffPage', () => {
+  const width = 23, height = 17;
+
+  it.each(['none', 'lzw', 'packbits', 'deflate'] as const)('round-trips 8-bit grey strips (%s)', async compression => {
+    const samples = ramp(width * height, 255);
+    const image = await decode({ width, height, bitsPerSample: 8, samples, compression, rowsPerStrip: 5 });
+    expect([image.width, image.height]).toEqual([width, height]);
+    expect(channel(image.data, 0)).toEqual(samples);
+    expect(channel(image.data, 3).every(a => a === 255)).toBe(true);
+  });
+
+  it('round-trips 16-bit big-endian RGB with LZW and the horizontal predictor', async () => {
+    const samples = ramp(width * height * 3, 65535);
+    const image = await decode({ width, height, bitsPerSample: 16, samplesPerPixel: 3, samples, compression: 'lzw', predictor: 2 }, false);
+    for (let c = 0; c < 3; c++) {
+      const expected = samples.filter((_, i) => i % 3 === c).map(v => (v * 255) / 65535);
+      channel(image.data, c).forEach((v, i) => expect(v).toBeCloseTo(expected[i], 3));
+    }
+  });
+
+  it('decodes LZW data long enough to reset the code table', async () => {
+    const samples = Array.from({ length: 160 * 160 }, (_, i) => (i * i * 13 + i) & 0xff);
+    const image = await decode({ width: 160, height: 160, bitsPerSample: 8, samples, compression: 'lzw' });
+    expect(channel(image.data, 0)).toEqual(samples);
+  });
+
+  it('inverts WhiteIsZero grey', async () => {
+    const image = await decode({ width: 3, height: 1, bitsPerSample: 8, samples: [0, 100, 255], photometric: 0 });
+    expect(channel(image.data, 0)).toEqual([255, 155, 0]);
+  });
+
+  it('rejects unsupported photometric interpretations', async () => {
+    await expect(decode({ width: 1, height: 1, bitsPerSample: 8, samples: [0], photometric: 3 })).rejects.toThrow(TiffError);
+  });
+});
+
+describe('readTiffPages', () => {
+  it('lists every page and skips reduced-resolution ones as full-resolution pages', () => {
+    const page = (width: number, reducedResolution = false): TiffFixture =>
+      ({ width, height: 2, bitsPerSample: 8, samples: new Array(width * 2).fill(9), reducedResolution });
+    const pages = readTiffPages(encodeTiff([page(8), page(2, true), page(6)]));
+    expect(pages.map(p => p.width)).toEqual([8, 2, 6]);
+    expect(fullResolutionPages(pages).map(p => p.index)).toEqual([0, 2]);
+  });
+
+  it('rejects files that are not TIFF', () => {
+    expect(() => readTiffPages(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]).buffer)).toThrow(TiffError);
+  });
+});
@@ -5,16 +5,236 @@ export interface Point {
 
 export interface RadialDataPoint {
   radius: number;
+  intensity: number; // mean over the ring
+  fit?: number;
+  count?: number; // pixels in the ring
+  spread?: number; // standard deviation of those pixels
+}
+
+/**
+ * RGBA pixels on the 8-bit 0-255 scale. Structurally compatible with the DOM ImageData,
+ * so the analysis can also run inside a Web Worker; high-bit-depth scans (16-bit TIFF)
+ * keep their precision as fractional values in a Float32Array.
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Float32Array;
+}
+
+/**
+ * A decoded scan plus the factor it was resampled by (analysed px / original px).
+ */
+export interface ScaledImage {
+  image: RgbaImage;
+  scale: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+/**
+ * Per-pixel intensity ready for centroiding and profiling.
+ * Either the legacy inverted brightness (255 - mean RGB) or calibrated dose.
+ */
+export interface IntensityMap {
+  width: number;
+  height: number;
+  data: Float32Array;
+  unit: 'raw' | 'Gy';
+  fullScale: number; // value equivalent to 255 raw counts, used to scale intensity gates
+  mask?: Uint8Array; // 1 = pixel is analysed; absent = every pixel
+}
+
+export interface RadialGaussianFit {
+  sigma: number; // mm, 0 if the fit failed
+  sigmaError: number; // mm, 1σ from the regression
+  amplitude: number; // fitted peak, exp(intercept); 0 if the fit failed
+  pointsInWindow: number; // profile points between the intensity cuts
+  windowRadius: [number, number] | null; // mm, radial extent of those points
+  failure: string | null; // why sigma is 0
+}
+
+export type HaloModel = 'doubleGaussian' | 'rutherford';
+
+/**
+ * Core-plus-halo fit of the full radial profile, I(r) = core(r) + halo(r) + B:
+ * - doubleGaussian: halo = A_h·exp(-r²/2s²)
+ * - rutherford: halo = A_h·s⁴/(r² + s²)², a screened single-scattering tail falling as 1/r⁴
+ */
+export interface HaloFit {
+  model: HaloModel;
+  coreAmplitude: number;
+  coreSigma: number; // mm
+  coreSigmaError: number; // mm, 1σ
+  haloAmplitude: number;
+  haloScale: number; // mm, s in the model above (halo σ or screening radius)
+  haloSigma: number; // mm, per-axis RMS width of the halo (within the fitted range for the 1/r⁴ tail)
+  haloSigmaError: number; // mm, 1σ
+  haloFraction: number; // halo share of the integrated signal above background
+  haloFractionError: number;
+  background: number;
+  reducedChiSquare: number;
+  failure: string | null; // why the fit was rejected; the other fields are then 0
+}
+
+export type ProfileAxis = 'x' | 'y';
+
+export interface AxisProfilePoint {
+  position: number; // mm from the centroid along the axis
   intensity: number;
   fit?: number;
 }
 
+/**
+ * I(u) = A·exp(-(u - u0)²/2σ²) + B fitted to one line or projection.
+ */
+export interface AxisGaussianFit {
+  sigma: number; // mm, 0 if the fit failed
+  sigmaError: number; // mm, 1σ
+  center: number; // u0, mm from the centroid
+  amplitude: number;
+  background: number;
+  reducedChiSquare: number; // in intensity units², points are unweighted
+}
+
+export interface AxisProfile {
+  points: AxisProfilePoint[];
+  fit: AxisGaussianFit;
+}
+
+/**
+ * Horizontal (x) and vertical (y) profiles through the centroid: the single line, and the
+ * projection averaged over a band across the beam.
+ */
+export interface AxisAnalysis {
+  bandHalfWidth: number; // mm either side of the centroid averaged by the projections
+  line: Record<ProfileAxis, AxisProfile>;
+  projection: Record<ProfileAxis, AxisProfile>;
+}
+
+export type FitFlag = 'failed' | 'clipped' | 'lowSignal' | 'nonGaussianTail' | 'nearEdge' | 'poorFit' | 'materialBelowAir';
+
+/**
+ * Quality measures of one film's radial fit and the flags raised from them (see utils/diagnostics).
+ */
+export interface FitDiagnostics {
+  rSquared: number;
+  reducedChiSquare: number | null; // against the ring standard errors, null without enough points
+  pointsInWindow: number;
+  windowRadius: [number, number] | null; // mm
+  saturationFraction: number; // of the pixels above half maximum
+  edgeDistance: number; // mm from the centroid to the nearest image edge or excluded pixel
+  signalToNoise: number | null; // peak over the pixel noise in the tails
+  tailExcess: number | null; // mean excess over the fit between 2σ and 4σ, fraction of the peak
+  failure: string | null;
+  flags: FitFlag[];
+}
+
+/**
+ * Elliptical 2D Gaussian fitted to the whole image:
+ * I(x, y) = A·exp(-(x'²/2σx² + y'²/2σy²)) + B, with (x', y') rotated by `angle` about the centroid.
+ */
+export interface Gaussian2DFit {
+  amplitude: number;
+  background: number;
+  centroid: Point; // in analysed pixels
+  sigmaX: number; // mm, major axis
+  sigmaY: number; // mm, minor axis
+  angle: number; // rad, major axis measured from the image x axis
+  // 1σ errors; positions and widths in mm, angle in rad
+  errors: {
+    amplitude: number;
+    background: number;
+    x: number;
+    y: number;
+    sigmaX: number;
+    sigmaY: number;
+    angle: number;
+  };
+  covariance: number[][]; // order [A, B, x0, y0, σx, σy, angle], mm for lengths
+  reducedChiSquare: number;
+  converged: boolean;
+}
+
 export interface GaussianFitResult {
   sigma: number; // in mm
+  sigmaError: number; // 1σ fit uncertainty in mm
   amplitude: number;
   rSquared: number;
-  centroid: Point;
+  centroid: Point; // in analysed pixels
   points: RadialDataPoint[];
+  pixelToMm: number; // effective mm per analysed pixel (scanner mm/px ÷ scale)
+  scale: number; // analysed px / original px (1 = full resolution)
+  fit2D: Gaussian2DFit | null;
+  background?: BackgroundCorrection; // absent for fits made before background correction existed
+  diagnostics?: FitDiagnostics; // absent for fits made before diagnostics existed
+  axes?: AxisAnalysis; // absent for fits made before per-axis profiles existed
+  halo?: Record<HaloModel, HaloFit> | null; // full-range tail fits; null when the core fit failed
+}
+
+/**
+ * Thresholds of the single-film pipeline (centroid, radial profile and core fit).
+ * Stored with the session and with every saved run.
+ */
+export interface AnalysisSettings {
+  centroidGate: number; // raw 8-bit intensity a pixel must exceed to count towards the centroid
+  fitLow: number; // lower edge of the Gaussian fit band, fraction of the peak
+  fitHigh: number; // upper edge, fraction of the peak
+  minFitPoints: number; // profile points needed inside the band
+  binWidth: number; // radial bin width in analysed px
+}
+
+export type BackgroundSubtraction = 'none' | 'unexposed' | 'annular';
+
+/**
+ * Session-wide background model applied to every exposed scan before the centroid and profile.
+ */
+export interface BackgroundSettings {
+  unexposedImageSrc: string | null; // unexposed film from the same batch (base tint)
+  blankImageSrc: string | null; // empty scanner bed, for flat-field correction when present
+  subtraction: BackgroundSubtraction;
+  annulusSigma: number; // annular mode: background plane fitted beyond this many sigma
+}
+
+export interface BackgroundCorrection {
+  subtraction: BackgroundSubtraction; // what was actually applied
+  flatField: boolean;
+  level: number; // mean value subtracted inside the analysed area (map units)
+}
+
+export type RoiShape = 'rect' | 'circle';
+
+/**
+ * Axis-aligned box in original scan pixels; a circle is the largest one centred in the box.
+ */
+export interface Roi {
+  shape: RoiShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Per-scan analysis region, stored with the film so re-analysis is reproducible.
+ * Coordinates are in original scan pixels (pixel i spans [i, i+1)), independent of the
+ * analysis resolution.
+ */
+export interface FilmRegion {
+  roi: Roi | null; // only pixels inside are analysed
+  masks: Roi[]; // excluded areas (labels, pen marks, fiducials)
+  centroid: Point | null; // manual centroid; null = centre of mass
+  refineCentroid: boolean; // refine the manual centroid to subpixel precision
+}
+
+export type PixelScaleSource = 'metadata' | 'ruler';
+
+/**
+ * Scanner scale of one image, overriding the session's default pixelToMm.
+ */
+export interface PixelScale {
+  mmPerPixel: number; // per original scan pixel
+  source: PixelScaleSource; // file DPI metadata or the two-point ruler
 }
 
 export interface FilmSample {
@@ -24,10 +244,20 @@ export interface FilmSample {
   // Air (Baseline) Data
   airImageSrc: string | null;
   airSigma: number | null; // in mm
+  airFit: GaussianFitResult | null;
+  airRegion: FilmRegion | null;
+  airScale: PixelScale | null; // null: session default
   
   // Material Data
   materialImageSrc: string | null;
   materialSigma: number | null; // in mm
+  materialFit: GaussianFitResult | null;
+  materialRegion: FilmRegion | null;
+  materialScale: PixelScale | null;
+
+  // Systematic σ uncertainty from a sensitivity scan, added in quadrature to the fit error (mm)
+  airSystematic?: number | null;
+  materialSystematic?: number | null;
 }
 
 export interface AnalysisSummary {
@@ -38,6 +268,83 @@ export interface AnalysisSummary {
   sigmaCorrected: number; // sqrt(mat^2 - air^2)
   theta: number; // sigmaCorrected / L
   theoreticalSigma: number; // theta_highland * L
+  // 1σ uncertainties: fit-only for air/material, fully propagated for corrected sigma and theta
+  sigmaAirError: number;
+  sigmaMaterialError: number;
+  sigmaCorrectedError: number;
+  thetaError: number;
+  // Repeated exposures at this distance are averaged; absent in runs saved before grouping
+  filmCount?: number;
+  sigmaAirStd?: number; // sample standard deviation across the repeats
+  sigmaMaterialStd?: number;
+  airFromBaseline?: boolean; // sigmaAir taken from the session's air baseline model
+  // Per-axis widths from the band projections, each corrected and divided by L like the radial one;
+  // absent when no film at this distance has axis fits
+  sigmaAirX?: number;
+  sigmaAirY?: number;
+  sigmaMaterialX?: number;
+  sigmaMaterialY?: number;
+  sigmaCorrectedX?: number;
+  sigmaCorrectedXError?: number;
+  sigmaCorrectedY?: number;
+  sigmaCorrectedYError?: number;
+  sigmaRatio?: number; // sigmaCorrectedX / sigmaCorrectedY, 0 when undefined
+  thetaX?: number;
+  thetaXError?: number;
+  thetaY?: number;
+  thetaYError?: number;
+  flags?: FitFlag[]; // raised by any film at this distance, or by the pair
+  excluded?: boolean; // left out of θ_RMS and the linear fit
+}
+
+export type PropagationMethod = 'analytic' | 'monteCarlo';
+
+/**
+ * User-entered measurement uncertainties (1σ) propagated into the results.
+ */
+export interface MeasurementUncertainties {
+  distance: number; // mm, absolute, per film
+  pixelScale: number; // %, relative, common to all films
+  method: PropagationMethod;
+}
+
+export type MaterialCategory = 'element' | 'plastic' | 'compound' | 'tissue' | 'alloy' | 'custom';
+
+export interface MaterialComponent {
+  symbol: string; // element symbol, e.g. 'H'
+  massFraction: number;
+}
+
+export interface Material {
+  id: string;
+  name: string;
+  category: MaterialCategory;
+  density: number; // g/cm^3
+  radLength: number; // X0 in g/cm^2 (divide by density for cm)
+  zOverA: number; // <Z/A>
+  meanExcitation: number; // I in eV
+  composition: MaterialComponent[];
+}
+
+export type LinearFitModel = 'origin' | 'intercept';
+
+/**
+ * How the experimental θ is extracted from the per-film results:
+ * 'rms' is the RMS of sigma/L, 'fit' the slope of the sigma_corrected vs L line.
+ */
+export type ThetaMethod = 'rms' | 'fit';
+
+export interface LinearFitResult {
+  model: LinearFitModel;
+  slope: number; // rad (mm/mm)
+  slopeError: number;
+  intercept: number; // mm, 0 for the origin model
+  interceptError: number;
+  chiSquare: number;
+  ndf: number;
+  reducedChiSquare: number;
+  weighted: boolean; // false if any point lacked an uncertainty
+  residuals: { x: number; residual: number; pull: number }[];
 }
 
 export interface HighlandParams {
@@ -46,16 +353,126 @@ export interface HighlandParams {
   radLength: number; // X0 (g/cm^2 or cm)
   momentum: number; // p (MeV/c)
   beta: number; // v/c
+  charge: number; // |z| of the beam particle
+}
+
+export type ScatteringModelId = 'highland' | 'highland-legacy' | 'lynch-dahl' | 'moliere' | 'differential-highland';
+
+export interface ScatteringSettings {
+  models: ScatteringModelId[]; // the first available model is the reference prediction
+  lynchDahlF: number; // fraction of the distribution Lynch-Dahl fits to (0.9-0.99)
+  thickTargetSlices: number; // slices the target is cut into for the energy-loss correction
+}
+
+export interface ModelPrediction {
+  model: ScatteringModelId;
+  theta0: number | null; // projected RMS angle (rad), null if the model lacks inputs (e.g. composition)
+}
+
+export type ParticleId = 'proton' | 'deuteron' | 'alpha' | 'carbon' | 'electron' | 'muon' | 'pion';
+
+/**
+ * Beam definition from which p and beta are derived, unless `manual` is set
+ * and the user enters them directly.
+ */
+export interface BeamSettings {
+  particle: ParticleId;
+  kineticEnergy: number; // T (MeV), total for the ion, not per nucleon
+  manual: boolean;
 }
 
 export interface SavedRun {
   id: string;
+  name: string; // display label, defaults to the material name
   materialName: string;
   timestamp: number;
   results: AnalysisSummary[];
   thetaRms: number;
+  thetaRmsError: number;
+  thetaMethod: ThetaMethod;
+  linearFit: LinearFitResult | null; // sigma_corrected vs L, null with fewer than 2-3 valid films
   highlandParams: HighlandParams;
+  beam: BeamSettings | null;
   theoreticalTheta: number;
+  modelPredictions: ModelPrediction[];
+  material: Material | null; // snapshot of the library entry the run was analysed with
+  analysisSettings?: AnalysisSettings; // absent for runs saved before the settings were configurable
+}
+
+export type AirBaselineModel = 'linear' | 'quadratic' | 'emittance';
+
+export interface AirBaselinePoint {
+  distance: number; // mm
+  sigma: number; // mm
+  sigmaError: number; // mm, 1σ
+}
+
+/**
+ * Beam envelope without the target, σ_air(L), fitted once to air scans and reused by later
+ * material sessions at any distance.
+ */
+export interface AirBaseline {
+  id: string;
+  name: string;
+  model: AirBaselineModel;
+  coefficients: number[]; // see AIR_BASELINE_MODELS; the emittance form is fitted to σ²
+  covariance: number[][];
+  points: AirBaselinePoint[];
+  chiSquare: number;
+  ndf: number;
+  createdAt: number;
+}
+
+export type ColorChannel = 'red' | 'green' | 'blue';
+
+export type CalibrationModel = 'polynomial' | 'rational' | 'power';
+
+export interface CalibrationPoint {
+  dose: number; // Gy
+  pixelValue: [number, number, number]; // mean R, G, B (0-255) over the film centre
+}
+
+export interface CalibrationCurve {
+  id: string;
+  name: string;
+  channel: ColorChannel;
+  model: CalibrationModel;
+  coefficients: number[];
+  unexposedPixelValue: number; // PV of the 0 Gy film in the fitted channel
+  points: CalibrationPoint[];
+  rSquared: number;
+  createdAt: number;
+}
+
+/**
+ * Everything needed to restore the working state of the app.
+ * New fields must be optional-safe: older stored sessions are merged over defaults.
+ */
+export interface SessionState {
+  pixelToMm: number;
+  analysisMaxSize: number;
+  materialName: string;
+  materialId: string | null; // library or custom material filling the Highland parameters
+  highlandParams: HighlandParams;
+  beam: BeamSettings;
+  scattering: ScatteringSettings;
+  background: BackgroundSettings;
+  analysisSettings: AnalysisSettings;
+  uncertainties: MeasurementUncertainties;
+  thetaMethod: ThetaMethod;
+  fitModel: LinearFitModel;
+  activeCalibrationId: string | null;
+  airBaselineId: string | null; // replaces the per-station air widths when set
+  excludedDistances: number[]; // results rows left out of the θ calculation
+  films: FilmSample[];
+}
+
+export interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  state: SessionState;
 }
 
 export enum AnalysisStep {
@@ -0,0 +1,115 @@
+import { AirBaseline, AirBaselineModel, AirBaselinePoint } from '../types';
+import { solveLinearSystem, invertMatrix } from './linalg';
+import { FilmMeasurement } from './uncertainty';
+
+const STORAGE_KEY = 'bbsa.airBaselines';
+
+export const AIR_BASELINE_MODELS: { id: AirBaselineModel; label: string; formula: string }[] = [
+  { id: 'linear', label: 'Linear', formula: 'σ = a + b·L' },
+  { id: 'quadratic', label: 'Quadratic', formula: 'σ = a + b·L + c·L²' },
+  { id: 'emittance', label: 'Emittance', formula: 'σ² = σ₀² + 2ρσ₀θ′·L + θ′²·L²' }
+];
+
+// Regressors of one distance; the emittance form is linear in (σ₀², 2ρσ₀θ′, θ′²)
+const designRow = (model: AirBaselineModel, L: number): number[] =>
+  model === 'linear' ? [1, L] : [1, L, L * L];
+
+/**
+ * Weighted least-squares fit of σ_air(L). Weights are 1/δ² on the fitted quantity (σ, or σ²
+ * with δ(σ²) = 2σ·δσ); without errors on every point the fit is unweighted and the covariance
+ * is scaled by χ²/ndf. Throws with a user-facing message when there are too few distances.
+ */
+export const fitAirBaseline = (
+  points: AirBaselinePoint[],
+  model: AirBaselineModel
+): Pick<AirBaseline, 'coefficients' | 'covariance' | 'chiSquare' | 'ndf'> => {
+  const p = designRow(model, 0).length;
+  if (points.length < p + 1) {
+    throw new Error(`The ${model} model needs air widths at ${p + 1} or more distances`);
+  }
+
+  const squared = model === 'emittance';
+  const y = points.map(pt => squared ? pt.sigma * pt.sigma : pt.sigma);
+  const dy = points.map(pt => squared ? 2 * pt.sigma * pt.sigmaError : pt.sigmaError);
+  const weighted = dy.every(d => d > 0);
+  const w = dy.map(d => weighted ? 1 / (d * d) : 1);
+
+  const XtWX = Array.from({ length: p }, () => new Array(p).fill(0));
+  const XtWy = new Array(p).fill(0);
+  points.forEach((pt, i) => {
+    const row = designRow(model, pt.distance);
+    for (let a = 0; a < p; a++) {
+      XtWy[a] += w[i] * row[a] * y[i];
+      for (let b = 0; b < p; b++) XtWX[a][b] += w[i] * row[a] * row[b];
+    }
+  });
+
+  const coefficients = solveLinearSystem(XtWX, XtWy);
+  const inverse = invertMatrix(XtWX);
+  if (!coefficients || !inverse) {
+    throw new Error('Air baseline fit failed (the distances must differ)');
+  }
+
+  let chiSquare = 0;
+  points.forEach((pt, i) => {
+    const residual = y[i] - designRow(model, pt.distance).reduce((s, v, k) => s + v * coefficients[k], 0);
+    chiSquare += w[i] * residual * residual;
+  });
+  const ndf = points.length - p;
+  const scale = weighted ? 1 : chiSquare / ndf;
+
+  return {
+    coefficients,
+    covariance: inverse.map(row => row.map(v => v * scale)),
+    chiSquare,
+    ndf
+  };
+};
+
+/**
+ * σ_air at distance L with its 1σ error from the fit covariance. Valid at any L; far outside
+ * the fitted range the error grows accordingly.
+ */
+export const evaluateAirBaseline = (baseline: AirBaseline, L: number): { sigma: number; error: number } => {
+  const row = designRow(baseline.model, L);
+  const value = row.reduce((s, v, k) => s + v * baseline.coefficients[k], 0);
+  const variance = row.reduce((s, a, i) => s + row.reduce((t, b, j) => t + a * baseline.covariance[i][j] * b, 0), 0);
+  const error = Math.sqrt(Math.max(variance, 0));
+  if (baseline.model !== 'emittance') return { sigma: Math.max(value, 0), error };
+  const sigma = Math.sqrt(Math.max(value, 0));
+  return { sigma, error: sigma > 0 ? error / (2 * sigma) : 0 };
+};
+
+/**
+ * Waist size, divergence and correlation of the emittance fit; null for the polynomial models
+ * or a fit that is not a physical envelope (negative σ₀² or θ′²).
+ */
+export const emittanceParameters = (baseline: Pick<AirBaseline, 'model' | 'coefficients'>): { sigma0: number; divergence: number; correlation: number } | null => {
+  if (baseline.model !== 'emittance') return null;
+  const [a, b, c] = baseline.coefficients;
+  if (!(a > 0) || !(c > 0)) return null;
+  const sigma0 = Math.sqrt(a), divergence = Math.sqrt(c);
+  return { sigma0, divergence, correlation: b / (2 * sigma0 * divergence) };
+};
+
+/**
+ * Replaces a distance's measured air width with the baseline's. The baseline error is
+ * treated as independent per distance, which slightly understates its effect on θ_RMS.
+ */
+export const withAirBaseline = (measurement: FilmMeasurement, baseline: AirBaseline): FilmMeasurement => {
+  const { sigma, error } = evaluateAirBaseline(baseline, measurement.distance);
+  return { ...measurement, sigmaAir: sigma, sigmaAirError: error };
+};
+
+export const loadAirBaselines = (): AirBaseline[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAirBaselines = (baselines: AirBaseline[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(baselines));
+};
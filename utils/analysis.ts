@@ -0,0 +1,172 @@
+import { AnalysisSettings, BackgroundCorrection, BackgroundSubtraction, CalibrationCurve, FilmRegion, GaussianFitResult, IntensityMap, Point, RadialDataPoint, RgbaImage } from '../types';
+import { toIntensityMap, calculateCentroid, refineCentroid, calculateRadialProfile, fitGaussian, calculateFitCurve, DEFAULT_ANALYSIS_SETTINGS } from './physics';
+import { buildRegionMask } from './region';
+import { toDoseMap } from './calibration';
+import { fitGaussian2D } from './gaussian2d';
+import { diagnoseFit } from './diagnostics';
+import { analyzeAxes } from './axisProfiles';
+import { fitHaloModels } from './haloFits';
+import { fitAnnularBackground, flatFieldCorrect, meanDifference, resampleImage, subtractMap, subtractPlane } from './background';
+
+export interface FilmAnalysisOptions {
+  pixelToMm: number; // scanner mm per original pixel
+  scale: number; // analysed px / original px
+  calibration: CalibrationCurve | null;
+  region?: FilmRegion | null; // ROI, exclusion masks and manual centroid, in original px
+  background?: { subtraction: BackgroundSubtraction; annulusSigma: number } | null;
+  settings?: AnalysisSettings; // pipeline thresholds, defaults when absent
+}
+
+/**
+ * Reference scans for background correction; resampled to the film's grid when their size differs.
+ */
+export interface BackgroundReferences {
+  unexposed: RgbaImage | null;
+  blank: RgbaImage | null;
+}
+
+const ANNULAR_ITERATIONS = 3;
+
+const NO_REFERENCES: BackgroundReferences = { unexposed: null, blank: null };
+
+/**
+ * Coefficient of determination of the fit column against the measured profile, inside the fit window.
+ */
+const profileRSquared = (points: RadialDataPoint[], window: [number, number] | null): number => {
+  const withFit = points.filter(p => p.fit !== undefined && Number.isFinite(p.fit)
+    && (!window || (p.radius >= window[0] && p.radius <= window[1])));
+  if (withFit.length === 0) return 0;
+  const mean = withFit.reduce((s, p) => s + p.intensity, 0) / withFit.length;
+  let ssRes = 0, ssTot = 0;
+  for (const p of withFit) {
+    ssRes += (p.intensity - p.fit!) ** 2;
+    ssTot += (p.intensity - mean) ** 2;
+  }
+  return ssTot > 0 ? 1 - ssRes / ssTot : 0;
+};
+
+export interface PreparedFilm {
+  map: IntensityMap; // dose or intensity, masked and background-subtracted
+  background: BackgroundCorrection;
+  findCentroid: (map: IntensityMap, centroidGate?: number) => Point; // automatic or (refined) manual
+  pixelToMm: number; // effective mm per analysed pixel
+}
+
+/**
+ * Steps 1b-3b of the pipeline: the map the profile is measured on, and how to find its centroid.
+ */
+export const prepareFilm = (
+  image: RgbaImage,
+  options: FilmAnalysisOptions,
+  references: BackgroundReferences = NO_REFERENCES
+): PreparedFilm => {
+  // Distances are measured on the resampled grid; convert with the effective pixel size
+  const effectivePixelToMm = options.pixelToMm / options.scale;
+  const settings = options.settings ?? DEFAULT_ANALYSIS_SETTINGS;
+
+  // Step 1b: Flat-field correction against a blank scanner scan
+  const flatField = references.blank !== null;
+  const film = references.blank ? flatFieldCorrect(image, references.blank) : image;
+
+  // Step 2: Intensity (dose if a calibration curve is selected)
+  const toMap = (img: RgbaImage): IntensityMap => options.calibration ? toDoseMap(img, options.calibration) : toIntensityMap(img);
+  let map = toMap(film);
+  map.mask = buildRegionMask(map.width, map.height, options.scale, options.region);
+
+  // Step 3: Centroid. A manual one is in original-scan coordinates (pixel i spans [i, i+1));
+  // analysed pixel indices sit at the pixel centres
+  const manual = options.region?.centroid;
+  const start = manual ? { x: manual.x * options.scale - 0.5, y: manual.y * options.scale - 0.5 } : null;
+  const findCentroid = (m: IntensityMap, gate: number = settings.centroidGate) => start
+    ? (options.region!.refineCentroid ? refineCentroid(m, start, gate) : start)
+    : calculateCentroid(m, gate);
+
+  // Step 3b: Background subtraction (the centroid is then located on the corrected map)
+  let subtraction: BackgroundSubtraction = 'none';
+  const before = map;
+  const mode = options.background?.subtraction ?? 'none';
+  if (mode === 'unexposed' && references.unexposed) {
+    let unexposed = resampleImage(references.unexposed, map.width, map.height);
+    if (references.blank) unexposed = flatFieldCorrect(unexposed, references.blank);
+    map = subtractMap(map, toMap(unexposed));
+    subtraction = 'unexposed';
+  } else if (mode === 'annular') {
+    // The background inflates a first-pass sigma, so seed the plane from the frame's corners
+    // (outside its inscribed circle) and then alternate beam width and annular plane fit
+    let plane = fitAnnularBackground(before, { x: (map.width - 1) / 2, y: (map.height - 1) / 2 }, Math.min(map.width, map.height) / 2);
+    for (let i = 0; i < ANNULAR_ITERATIONS && plane; i++) {
+      const corrected = subtractPlane(before, plane);
+      const c = findCentroid(corrected);
+      const { sigma: sigma0 } = fitGaussian(calculateRadialProfile(corrected, c, effectivePixelToMm, settings.binWidth), settings);
+      if (!(sigma0 > 0)) break;
+      const next = fitAnnularBackground(before, c, (options.background!.annulusSigma * sigma0) / effectivePixelToMm);
+      if (!next) break;
+      plane = next;
+      subtraction = 'annular';
+    }
+    if (subtraction === 'annular') map = subtractPlane(before, plane!);
+  }
+
+  return {
+    map,
+    background: {
+      subtraction,
+      flatField,
+      level: subtraction !== 'none' ? meanDifference(before, map) : 0
+    },
+    findCentroid,
+    pixelToMm: effectivePixelToMm
+  };
+};
+
+/**
+ * Full single-film pipeline (Steps 2-6). Pure and DOM-free, so it can run in a Web Worker.
+ */
+export const analyzeFilm = (
+  image: RgbaImage,
+  options: FilmAnalysisOptions,
+  references: BackgroundReferences = NO_REFERENCES
+): GaussianFitResult => {
+  const settings = options.settings ?? DEFAULT_ANALYSIS_SETTINGS;
+  const { map, background, findCentroid, pixelToMm: effectivePixelToMm } = prepareFilm(image, options, references);
+  const centroid = findCentroid(map);
+
+  // Step 4: Radial Profile
+  const rawProfile = calculateRadialProfile(map, centroid, effectivePixelToMm, settings.binWidth);
+
+  // Step 6: Fit Gaussian
+  const radialFit = fitGaussian(rawProfile, settings);
+  const { sigma, sigmaError } = radialFit;
+
+  // Generate Fit Curve for visual verification
+  const points = calculateFitCurve(rawProfile, sigma, sigma > 0 ? radialFit.amplitude : undefined);
+  const rSquared = sigma > 0 ? profileRSquared(points, radialFit.windowRadius) : 0;
+
+  // Step 6a: Quality measures and flags for the results table
+  const diagnostics = diagnoseFit({ image, map, centroid, points, fit: radialFit, rSquared, pixelToMm: effectivePixelToMm });
+
+  // Step 6b: Full-image elliptical fit (free centroid and background)
+  const fit2D = fitGaussian2D(map, centroid, sigma, effectivePixelToMm);
+
+  // Step 6c: Horizontal and vertical profiles through the centroid
+  const axes = analyzeAxes(map, centroid, sigma, effectivePixelToMm);
+
+  // Step 6d: Core-plus-halo fits over the full radial range, for the single-scattering tails
+  const halo = fitHaloModels(rawProfile, radialFit);
+
+  return {
+    sigma,
+    sigmaError,
+    amplitude: Math.max(...rawProfile.map(p => p.intensity)),
+    rSquared,
+    centroid,
+    points,
+    pixelToMm: effectivePixelToMm,
+    scale: options.scale,
+    fit2D,
+    background,
+    diagnostics,
+    axes,
+    halo
+  };
+};
@@ -0,0 +1,63 @@
+import { analyzeFilm, FilmAnalysisOptions } from './analysis';
+import { scanSensitivity, SensitivityRanges, SensitivityResult } from './sensitivity';
+import { GaussianFitResult, RgbaImage } from '../types';
+
+export interface AnalysisRequest {
+  kind: 'analysis';
+  id: number;
+  image: TransferredImage; // RGBA pixels, transferred from the main thread
+  options: FilmAnalysisOptions;
+  unexposed: TransferredImage | null; // background reference scans, also transferred
+  blank: TransferredImage | null;
+}
+
+/**
+ * A sensitivity scan; sent to a worker of its own, which is terminated to cancel it.
+ */
+export interface SensitivityRequest extends Omit<AnalysisRequest, 'kind'> {
+  kind: 'sensitivity';
+  ranges: SensitivityRanges;
+}
+
+export interface TransferredImage {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  float: boolean; // Float32Array (16-bit TIFF) rather than 8-bit bytes
+}
+
+export type AnalysisResponse =
+  | { id: number; result: GaussianFitResult }
+  | { id: number; error: string };
+
+export type SensitivityResponse =
+  | { id: number; progress: number } // fraction done
+  | { id: number; result: SensitivityResult }
+  | { id: number; error: string };
+
+const toImage = (t: TransferredImage): RgbaImage => ({
+  width: t.width,
+  height: t.height,
+  data: t.float ? new Float32Array(t.buffer) : new Uint8ClampedArray(t.buffer)
+});
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<AnalysisRequest | SensitivityRequest>) => {
+  const { id, image, options, unexposed, blank } = e.data;
+  const references = {
+    unexposed: unexposed && toImage(unexposed),
+    blank: blank && toImage(blank)
+  };
+  try {
+    if (e.data.kind === 'sensitivity') {
+      const result = scanSensitivity(toImage(image), options, references, e.data.ranges,
+        progress => ctx.postMessage({ id, progress } satisfies SensitivityResponse));
+      ctx.postMessage({ id, result } satisfies SensitivityResponse);
+    } else {
+      ctx.postMessage({ id, result: analyzeFilm(toImage(image), options, references) } satisfies AnalysisResponse);
+    }
+  } catch (err) {
+    ctx.postMessage({ id, error: (err as Error).message } satisfies AnalysisResponse);
+  }
+};
@@ -0,0 +1,158 @@
+import { BackgroundSettings, GaussianFitResult, RgbaImage, ScaledImage } from '../types';
+import { loadImageData } from './imageLoader';
+import { analyzeFilm, BackgroundReferences, FilmAnalysisOptions } from './analysis';
+import { scanSensitivity, SensitivityRanges, SensitivityResult } from './sensitivity';
+import type { AnalysisRequest, AnalysisResponse, SensitivityRequest, SensitivityResponse, TransferredImage } from './analysis.worker';
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (r: GaussianFitResult) => void; reject: (e: Error) => void }>();
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  worker = createWorker();
+  if (!worker) return null;
+  worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+    const job = pending.get(e.data.id);
+    if (!job) return;
+    pending.delete(e.data.id);
+    if ('error' in e.data) job.reject(new Error(e.data.error));
+    else job.resolve(e.data.result);
+  };
+  worker.onerror = (e) => {
+    // A broken worker fails everything in flight; the next call falls back to the main thread
+    pending.forEach(job => job.reject(new Error(e.message || 'Analysis worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const transfer = (image: RgbaImage): TransferredImage => ({
+  width: image.width,
+  height: image.height,
+  buffer: image.data.buffer as ArrayBuffer,
+  float: image.data instanceof Float32Array
+});
+
+// The film and reference images of a request, and the buffers to transfer with it
+const transferImages = (image: RgbaImage, references: BackgroundReferences) => {
+  const images = {
+    image: transfer(image),
+    unexposed: references.unexposed && transfer(references.unexposed),
+    blank: references.blank && transfer(references.blank)
+  };
+  const buffers = [images.image, images.unexposed, images.blank].filter(t => t !== null).map(t => t!.buffer);
+  return { images, buffers };
+};
+
+/**
+ * Runs analyzeFilm off the main thread. The pixel buffers (film and references) are
+ * transferred, not copied, so they must not be used by the caller afterwards.
+ */
+export const analyzeFilmAsync = (
+  image: RgbaImage,
+  options: FilmAnalysisOptions,
+  references: BackgroundReferences = { unexposed: null, blank: null }
+): Promise<GaussianFitResult> => {
+  const w = getWorker();
+  if (!w) return Promise.resolve(analyzeFilm(image, options, references));
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const { images, buffers } = transferImages(image, references);
+    const request: AnalysisRequest = { kind: 'analysis', id, options, ...images };
+    w.postMessage(request, buffers);
+  });
+};
+
+export interface SensitivityJob {
+  result: Promise<SensitivityResult | null>; // null once cancelled
+  cancel: () => void;
+}
+
+/**
+ * Runs scanSensitivity in a worker of its own, so that cancelling can stop it mid-scan.
+ * Buffers are transferred as in analyzeFilmAsync. Without workers it runs on the main thread
+ * and cannot be interrupted.
+ */
+export const scanSensitivityAsync = (
+  image: RgbaImage,
+  options: FilmAnalysisOptions,
+  references: BackgroundReferences,
+  ranges: SensitivityRanges,
+  onProgress: (fraction: number) => void
+): SensitivityJob => {
+  const w = createWorker();
+  let cancelled = false;
+  if (!w) {
+    // Let the "running" state paint before the synchronous scan
+    const result = new Promise<void>(resolve => setTimeout(resolve, 0))
+      .then(() => cancelled ? null : scanSensitivity(image, options, references, ranges, onProgress));
+    return { result, cancel: () => { cancelled = true; } };
+  }
+
+  let settle: (result: SensitivityResult | null) => void = () => {};
+  const result = new Promise<SensitivityResult | null>((resolve, reject) => {
+    settle = resolve;
+    w.onmessage = (e: MessageEvent<SensitivityResponse>) => {
+      if ('progress' in e.data) return onProgress(e.data.progress);
+      w.terminate();
+      if ('error' in e.data) reject(new Error(e.data.error));
+      else resolve(e.data.result);
+    };
+    w.onerror = (e) => {
+      w.terminate();
+      reject(new Error(e.message || 'Sensitivity scan failed'));
+    };
+  });
+  const { images, buffers } = transferImages(image, references);
+  const request: SensitivityRequest = { kind: 'sensitivity', id: 0, options, ranges, ...images };
+  w.postMessage(request, buffers);
+  return {
+    result,
+    cancel: () => {
+      w.terminate();
+      settle(null);
+    }
+  };
+};
+
+// Decoded reference scans, shared by every film analyser. Keyed by size and source.
+const referenceCache = new Map<string, Promise<ScaledImage>>();
+
+const loadReference = async (src: string | null, maxSize: number): Promise<RgbaImage | null> => {
+  if (!src) return null;
+  const key = `${maxSize}:${src}`;
+  let entry = referenceCache.get(key);
+  if (!entry) {
+    entry = loadImageData(src, maxSize);
+    referenceCache.set(key, entry);
+    entry.catch(() => referenceCache.delete(key));
+  }
+  const { image } = await entry;
+  // analyzeFilmAsync transfers the buffers, so each analysis gets its own copy
+  return { width: image.width, height: image.height, data: image.data.slice() };
+};
+
+/**
+ * Loads the reference scans the background settings need, at the films' analysis size.
+ */
+export const loadBackgroundReferences = async (settings: BackgroundSettings, maxSize: number): Promise<BackgroundReferences> => {
+  const [unexposed, blank] = await Promise.all([
+    settings.subtraction === 'unexposed' ? loadReference(settings.unexposedImageSrc, maxSize) : Promise.resolve(null),
+    loadReference(settings.blankImageSrc, maxSize)
+  ]);
+  return { unexposed, blank };
+};
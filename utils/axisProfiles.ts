@@ -0,0 +1,118 @@
+import { AxisAnalysis, AxisGaussianFit, AxisProfile, AxisProfilePoint, IntensityMap, Point, ProfileAxis } from '../types';
+import { levenbergMarquardt } from './fitting';
+
+const BAND_SIGMAS = 2; // projections average the map within ±2 radial σ of the centroid
+const MIN_POINTS = 8;
+
+const FAILED_FIT: AxisGaussianFit = { sigma: 0, sigmaError: 0, center: 0, amplitude: 0, background: 0, reducedChiSquare: 0 };
+
+/**
+ * Mean of the unmasked pixels along the other axis, for every position along `axis`.
+ * Rows/columns are weighted by their overlap with [centre - halfWidth, centre + halfWidth],
+ * so a zero half-width interpolates the single line through a fractional centroid.
+ */
+const sampleAlongAxis = (map: IntensityMap, centroid: Point, axis: ProfileAxis, halfWidth: number, pixelToMm: number): AxisProfilePoint[] => {
+  const { width, height, data, mask } = map;
+  const length = axis === 'x' ? width : height;
+  const across = axis === 'x' ? height : width;
+  const centre = axis === 'x' ? centroid.y : centroid.x;
+  const origin = axis === 'x' ? centroid.x : centroid.y;
+
+  // Weight of each row (x axis) or column (y axis) across the band
+  const weights: { index: number; weight: number }[] = [];
+  if (halfWidth <= 0) {
+    const lower = Math.floor(centre);
+    const t = centre - lower;
+    if (lower >= 0 && lower < across) weights.push({ index: lower, weight: 1 - t });
+    if (t > 0 && lower + 1 >= 0 && lower + 1 < across) weights.push({ index: lower + 1, weight: t });
+  } else {
+    // Pixel k covers [k - 0.5, k + 0.5]
+    for (let k = Math.max(0, Math.floor(centre - halfWidth)); k <= Math.min(across - 1, Math.ceil(centre + halfWidth)); k++) {
+      const overlap = Math.min(k + 0.5, centre + halfWidth) - Math.max(k - 0.5, centre - halfWidth);
+      if (overlap > 0) weights.push({ index: k, weight: overlap });
+    }
+  }
+
+  const points: AxisProfilePoint[] = [];
+  for (let i = 0; i < length; i++) {
+    let sum = 0, total = 0;
+    for (const { index, weight } of weights) {
+      const p = axis === 'x' ? index * width + i : i * width + index;
+      if (mask && !mask[p]) continue;
+      sum += data[p] * weight;
+      total += weight;
+    }
+    if (total > 0) points.push({ position: (i - origin) * pixelToMm, intensity: sum / total });
+  }
+  return points;
+};
+
+/**
+ * Nonlinear fit of I(u) = A·exp(-(u - u0)²/2σ²) + B to a 1D profile (u in mm from the centroid).
+ * Points carry no error, so the parameter errors are scaled by the residual variance.
+ */
+export const fitGaussian1D = (points: AxisProfilePoint[], initialSigma: number): AxisGaussianFit => {
+  if (points.length < MIN_POINTS) return FAILED_FIT;
+
+  const sorted = points.map(p => p.intensity).sort((a, b) => a - b);
+  const background = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[sorted.length - 1];
+  const span = points[points.length - 1].position - points[0].position;
+  const sigmaGuess = initialSigma > 0 ? initialSigma : span / 8;
+
+  const result = levenbergMarquardt({
+    count: points.length,
+    observed: (i) => points[i].intensity,
+    evaluate: ([A, u0, s, B], i, grad) => {
+      const d = points[i].position - u0;
+      const g = Math.exp(-(d * d) / (2 * s * s));
+      grad[0] = g;
+      grad[1] = (A * g * d) / (s * s);
+      grad[2] = (A * g * d * d) / (s * s * s);
+      grad[3] = 1;
+      return A * g + B;
+    }
+  }, [Math.max(peak - background, 1e-6), 0, sigmaGuess, background]);
+
+  const [A, u0, s, B] = result.params;
+  const sigma = Math.abs(s);
+  if (!result.converged || !Number.isFinite(sigma) || sigma === 0 || !(A > 0) || sigma > span) return FAILED_FIT;
+
+  const reducedChiSquare = result.chiSquare / result.degreesOfFreedom;
+  const variance = result.covariance ? result.covariance[2][2] * reducedChiSquare : NaN;
+  return {
+    sigma,
+    sigmaError: Number.isFinite(variance) ? Math.sqrt(Math.max(variance, 0)) : 0,
+    center: u0,
+    amplitude: A,
+    background: B,
+    reducedChiSquare
+  };
+};
+
+const profileWithFit = (points: AxisProfilePoint[], initialSigma: number): AxisProfile => {
+  const fit = fitGaussian1D(points, initialSigma);
+  return {
+    points: fit.sigma > 0
+      ? points.map(p => ({ ...p, fit: fit.amplitude * Math.exp(-((p.position - fit.center) ** 2) / (2 * fit.sigma * fit.sigma)) + fit.background }))
+      : points,
+    fit
+  };
+};
+
+/**
+ * STEP 6c: Horizontal and vertical profiles through the centroid, as single lines and as
+ * projections averaged over a band of ±2σ (radial) across the beam, each with its own Gaussian fit.
+ */
+export const analyzeAxes = (map: IntensityMap, centroid: Point, radialSigma: number, pixelToMm: number): AxisAnalysis => {
+  // Without a radial width the projection spans the whole scan
+  const halfWidthPx = radialSigma > 0 ? (BAND_SIGMAS * radialSigma) / pixelToMm : Math.max(map.width, map.height);
+  const profile = (axis: ProfileAxis, halfWidth: number) =>
+    profileWithFit(sampleAlongAxis(map, centroid, axis, halfWidth, pixelToMm), radialSigma);
+
+  return {
+    bandHalfWidth: radialSigma > 0 ? BAND_SIGMAS * radialSigma : halfWidthPx * pixelToMm,
+    line: { x: profile('x', 0), y: profile('y', 0) },
+    projection: { x: profile('x', halfWidthPx), y: profile('y', halfWidthPx) }
+  };
+};
@@ -0,0 +1,146 @@
+import { IntensityMap, Point, RgbaImage } from '../types';
+import { solveLinearSystem } from './linalg';
+
+const FLAT_FIELD_SMOOTHING = 0.02; // box-blur radius as a fraction of the longest edge
+
+/**
+ * Bilinear resampling, for reference scans whose size differs from the film's.
+ * The result is float so 16-bit scans keep their precision.
+ */
+export const resampleImage = (image: RgbaImage, width: number, height: number): RgbaImage => {
+  if (image.width === width && image.height === height) return image;
+  const out = new Float32Array(width * height * 4);
+  const sx = image.width / width, sy = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(Math.max((y + 0.5) * sy - 0.5, 0), image.height - 1);
+    const y0 = Math.floor(fy), y1 = Math.min(y0 + 1, image.height - 1), ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(Math.max((x + 0.5) * sx - 0.5, 0), image.width - 1);
+      const x0 = Math.floor(fx), x1 = Math.min(x0 + 1, image.width - 1), tx = fx - x0;
+      for (let c = 0; c < 4; c++) {
+        const a = image.data[(y0 * image.width + x0) * 4 + c];
+        const b = image.data[(y0 * image.width + x1) * 4 + c];
+        const d = image.data[(y1 * image.width + x0) * 4 + c];
+        const e = image.data[(y1 * image.width + x1) * 4 + c];
+        out[(y * width + x) * 4 + c] = (a * (1 - tx) + b * tx) * (1 - ty) + (d * (1 - tx) + e * tx) * ty;
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+/**
+ * Separable box blur with edge clamping (running sums, O(n) per row/column).
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  if (radius < 1) return values;
+  const tmp = new Float32Array(values.length);
+  const out = new Float32Array(values.length);
+  const pass = (src: Float32Array, dst: Float32Array, len: number, lines: number, at: (line: number, i: number) => number) => {
+    for (let line = 0; line < lines; line++) {
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += src[at(line, Math.min(Math.max(i, 0), len - 1))];
+      for (let i = 0; i < len; i++) {
+        dst[at(line, i)] = sum / (2 * radius + 1);
+        sum += src[at(line, Math.min(i + radius + 1, len - 1))] - src[at(line, Math.max(i - radius, 0))];
+      }
+    }
+  };
+  pass(values, tmp, width, height, (row, i) => row * width + i);
+  pass(tmp, out, height, width, (col, i) => i * width + col);
+  return out;
+};
+
+/**
+ * Divides out the scanner's spatial response, estimated per channel from a smoothed blank
+ * scan normalised to its mean (flat-field correction). The blank is resampled to the film's size.
+ */
+export const flatFieldCorrect = (image: RgbaImage, blank: RgbaImage): RgbaImage => {
+  const { width, height } = image;
+  const ref = resampleImage(blank, width, height);
+  const radius = Math.round(Math.max(width, height) * FLAT_FIELD_SMOOTHING);
+  const out = Float32Array.from(image.data);
+  const channel = new Float32Array(width * height);
+
+  for (let c = 0; c < 3; c++) {
+    let mean = 0;
+    for (let p = 0; p < channel.length; p++) {
+      channel[p] = ref.data[p * 4 + c];
+      mean += channel[p];
+    }
+    mean /= channel.length;
+    if (mean <= 0) continue;
+    const response = boxBlur(channel, width, height, radius);
+    for (let p = 0; p < channel.length; p++) {
+      if (response[p] > 0) out[p * 4 + c] = (image.data[p * 4 + c] * mean) / response[p];
+    }
+  }
+  return { width, height, data: out };
+};
+
+/**
+ * Pixel-wise map - reference (e.g. the unexposed film converted the same way). Keeps the mask.
+ */
+export const subtractMap = (map: IntensityMap, reference: IntensityMap): IntensityMap => {
+  const data = new Float32Array(map.data.length);
+  for (let p = 0; p < data.length; p++) data[p] = map.data[p] - reference.data[p];
+  return { ...map, data };
+};
+
+export interface BackgroundPlane {
+  a: number; // value at the origin
+  bx: number; // per analysed px
+  by: number;
+}
+
+/**
+ * Least-squares plane a + bx x + by y through the pixels further than `radius` px from the
+ * centroid (and inside the mask). Null if too few pixels lie outside the radius.
+ */
+export const fitAnnularBackground = (map: IntensityMap, centroid: Point, radius: number): BackgroundPlane | null => {
+  const { width, height, data, mask } = map;
+  // Normal equations accumulated directly: the annulus can hold millions of pixels
+  const S = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const t = [0, 0, 0];
+  let n = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (mask && !mask[p]) continue;
+      if ((x - centroid.x) ** 2 + (y - centroid.y) ** 2 <= radius * radius) continue;
+      const row = [1, x, y];
+      for (let i = 0; i < 3; i++) {
+        t[i] += row[i] * data[p];
+        for (let j = 0; j < 3; j++) S[i][j] += row[i] * row[j];
+      }
+      n++;
+    }
+  }
+  if (n < 30) return null;
+  const solution = solveLinearSystem(S, t);
+  return solution ? { a: solution[0], bx: solution[1], by: solution[2] } : null;
+};
+
+export const subtractPlane = (map: IntensityMap, plane: BackgroundPlane): IntensityMap => {
+  const data = new Float32Array(map.data.length);
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const p = y * map.width + x;
+      data[p] = map.data[p] - (plane.a + plane.bx * x + plane.by * y);
+    }
+  }
+  return { ...map, data };
+};
+
+/**
+ * Mean of (before - after) over the analysed pixels, to report how much was subtracted.
+ */
+export const meanDifference = (before: IntensityMap, after: IntensityMap): number => {
+  let sum = 0, n = 0;
+  for (let p = 0; p < before.data.length; p++) {
+    if (before.mask && !before.mask[p]) continue;
+    sum += before.data[p] - after.data[p];
+    n++;
+  }
+  return n > 0 ? sum / n : 0;
+};
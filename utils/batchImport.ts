@@ -0,0 +1,133 @@
+import { FilmSample, PixelScale } from '../types';
+import { newFilm, nextFilmId } from './stations';
+
+export type ScanKind = 'air' | 'material';
+
+export interface ScanName {
+  distance: number | null; // mm
+  kind: ScanKind | null;
+}
+
+const AIR_WORDS = ['air', 'open'];
+const MATERIAL_WORDS = ['mat', 'material', 'sample', 'target'];
+
+const IMPORT_PATTERN_KEY = 'bbsa.importPattern';
+
+/**
+ * Filename patterns: `{L}` is the distance in mm, `{type}` the air/material word,
+ * `*` matches anything; a placeholder used twice must match the same text both times.
+ * Case-insensitive, matched against the name without extension.
+ * An empty pattern guesses both from common conventions.
+ */
+export const IMPORT_PATTERN_PRESETS: { pattern: string; example: string }[] = [
+  { pattern: '', example: 'Auto' },
+  { pattern: '{type}_L{L}', example: 'air_L250.png' },
+  { pattern: '*_{L}mm_{type}', example: 'Pb5mm_300mm_mat.tif' },
+  { pattern: '{L}_{type}', example: '250_air.png' }
+];
+
+export const loadImportPattern = (): string => {
+  try {
+    return localStorage.getItem(IMPORT_PATTERN_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveImportPattern = (pattern: string) => {
+  localStorage.setItem(IMPORT_PATTERN_KEY, pattern);
+};
+
+const classifyWord = (word: string): ScanKind | null => {
+  const w = word.toLowerCase();
+  if (AIR_WORDS.includes(w)) return 'air';
+  if (MATERIAL_WORDS.includes(w)) return 'material';
+  return null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A repeated placeholder becomes a back-reference: a regex cannot declare a group name twice
+const patternRegExp = (pattern: string): RegExp => {
+  const seen = new Set<string>();
+  const group = (name: string, source: string) => {
+    if (seen.has(name)) return `\\k<${name}>`;
+    seen.add(name);
+    return `(?<${name}>${source})`;
+  };
+  const source = pattern
+    .split(/(\{L\}|\{type\}|\*)/i)
+    .map(part => {
+      const token = part.toLowerCase();
+      if (token === '{l}') return group('L', '\\d+(?:[.,]\\d+)?');
+      if (token === '{type}') return group('type', '[a-z]+');
+      if (token === '*') return '.*?';
+      return escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Conventions tried by the automatic mode: an `air`/`mat` word anywhere, and the distance
+ * from `L250` or else the last `300mm`.
+ */
+const guessScanName = (name: string): ScanName => {
+  const words = name.split(/[_\-\s.]+/);
+  const kind = words.map(classifyWord).find(k => k !== null) ?? null;
+  const prefixed = name.match(/(?:^|[_\-\s])L(\d+(?:\.\d+)?)/i);
+  const withUnit = [...name.matchAll(/(\d+(?:\.\d+)?)\s*mm/gi)].pop();
+  const value = prefixed?.[1] ?? withUnit?.[1];
+  return { distance: value !== undefined ? parseFloat(value) : null, kind };
+};
+
+export const parseScanName = (fileName: string, pattern: string): ScanName => {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  if (!pattern.trim()) return guessScanName(name);
+  const match = name.match(patternRegExp(pattern.trim()));
+  if (!match) return { distance: null, kind: null };
+  const L = match.groups?.L;
+  const type = match.groups?.type;
+  return {
+    distance: L !== undefined ? parseFloat(L.replace(',', '.')) : null,
+    kind: type !== undefined ? classifyWord(type) : null
+  };
+};
+
+export interface ImportEntry {
+  distance: number;
+  kind: ScanKind;
+  src: string;
+  scale: PixelScale | null;
+}
+
+export interface ImportPlan {
+  films: FilmSample[];
+  targets: { filmId: number; isNew: boolean }[]; // per entry
+}
+
+/**
+ * Places each scan in the first station at its distance whose slot is still empty
+ * (so air and material files at one L pair up), otherwise in a new station;
+ * repeats therefore become extra stations at the same L.
+ */
+export const planBatchImport = (films: FilmSample[], entries: ImportEntry[], removeEmpty: boolean): ImportPlan => {
+  const next = removeEmpty ? films.filter(f => f.airImageSrc || f.materialImageSrc) : [...films];
+  const existing = new Set(next.map(f => f.id));
+  const targets: ImportPlan['targets'] = [];
+
+  for (const entry of entries) {
+    const slot = entry.kind === 'air' ? 'airImageSrc' : 'materialImageSrc';
+    let index = next.findIndex(f => f.distanceL === entry.distance && !f[slot]);
+    if (index < 0) {
+      next.push(newFilm(nextFilmId([...films, ...next]), entry.distance));
+      index = next.length - 1;
+    }
+    const film = next[index];
+    next[index] = entry.kind === 'air'
+      ? { ...film, airImageSrc: entry.src, airRegion: null, airScale: entry.scale, airSigma: null, airFit: null, airSystematic: null }
+      : { ...film, materialImageSrc: entry.src, materialRegion: null, materialScale: entry.scale, materialSigma: null, materialFit: null, materialSystematic: null };
+    targets.push({ filmId: film.id, isNew: !existing.has(film.id) });
+  }
+  return { films: next, targets };
+};
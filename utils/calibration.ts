@@ -0,0 +1,171 @@
+import { CalibrationCurve, CalibrationModel, CalibrationPoint, ColorChannel, IntensityMap, RgbaImage } from '../types';
+import { linearLeastSquares } from './linalg';
+
+const STORAGE_KEY = 'bbsa.calibrationCurves';
+const CENTRE_FRACTION = 0.5; // Average the central 50% of a calibration film
+const MIN_PIXEL_VALUE = 0.5; // Avoid log(0) on fully saturated pixels
+
+export const CHANNEL_INDEX: Record<ColorChannel, number> = { red: 0, green: 1, blue: 2 };
+
+export const CALIBRATION_MODELS: { id: CalibrationModel; label: string; formula: string }[] = [
+  { id: 'polynomial', label: 'Polynomial (cubic)', formula: 'D = a·x + b·x² + c·x³' },
+  { id: 'rational', label: 'Rational', formula: 'D = a·x / (1 − b·x)' },
+  { id: 'power', label: 'Power (Devic)', formula: 'D = a·x + b·xⁿ' }
+];
+
+/**
+ * Mean R, G, B pixel value over the central region of a uniformly exposed calibration film.
+ */
+export const measureCalibrationFilm = (imgData: RgbaImage): [number, number, number] => {
+  const { width, height, data } = imgData;
+  const x0 = Math.floor(width * (1 - CENTRE_FRACTION) / 2);
+  const y0 = Math.floor(height * (1 - CENTRE_FRACTION) / 2);
+  const x1 = Math.max(x0 + 1, Math.ceil(width * (1 + CENTRE_FRACTION) / 2));
+  const y1 = Math.max(y0 + 1, Math.ceil(height * (1 + CENTRE_FRACTION) / 2));
+
+  const sums = [0, 0, 0];
+  let n = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      sums[0] += data[i];
+      sums[1] += data[i + 1];
+      sums[2] += data[i + 2];
+      n++;
+    }
+  }
+  return [sums[0] / n, sums[1] / n, sums[2] / n];
+};
+
+/**
+ * netOD = log10(PV_unexposed / PV_exposed)
+ */
+export const netOpticalDensity = (pixelValue: number, unexposedPixelValue: number): number => {
+  return Math.log10(unexposedPixelValue / Math.max(pixelValue, MIN_PIXEL_VALUE));
+};
+
+/**
+ * Evaluates the calibration function D(netOD) for a given model.
+ * All models pass through the origin: zero net darkening means zero dose.
+ */
+export const evaluateCalibrationModel = (model: CalibrationModel, coefficients: number[], netOD: number): number => {
+  const x = netOD;
+  switch (model) {
+    case 'polynomial': {
+      const [a, b, c] = coefficients;
+      return a * x + b * x * x + c * x * x * x;
+    }
+    case 'rational': {
+      const [a, b] = coefficients;
+      // Keep the pole out of reach for films darker than the calibration range
+      const denom = Math.max(1 - b * x, 1e-3);
+      return (a * x) / denom;
+    }
+    case 'power': {
+      const [a, b, n] = coefficients;
+      return a * x + b * Math.sign(x) * Math.pow(Math.abs(x), n);
+    }
+  }
+};
+
+export const doseFromPixelValue = (curve: CalibrationCurve, pixelValue: number): number => {
+  const netOD = netOpticalDensity(pixelValue, curve.unexposedPixelValue);
+  return evaluateCalibrationModel(curve.model, curve.coefficients, netOD);
+};
+
+/**
+ * Fits dose as a function of netOD in one channel.
+ * Needs an unexposed (0 Gy) film among the points to define PV_unexposed.
+ */
+export const fitCalibrationCurve = (
+  points: CalibrationPoint[],
+  channel: ColorChannel,
+  model: CalibrationModel
+): Pick<CalibrationCurve, 'coefficients' | 'unexposedPixelValue' | 'rSquared'> => {
+  const ch = CHANNEL_INDEX[channel];
+  const unexposed = points.filter(p => p.dose === 0);
+  if (unexposed.length === 0) {
+    throw new Error('Calibration needs an unexposed (0 Gy) film');
+  }
+  const unexposedPixelValue = unexposed.reduce((s, p) => s + p.pixelValue[ch], 0) / unexposed.length;
+
+  const exposed = points.filter(p => p.dose > 0);
+  const xs = exposed.map(p => netOpticalDensity(p.pixelValue[ch], unexposedPixelValue));
+  const ds = exposed.map(p => p.dose);
+
+  const minPoints = model === 'rational' ? 2 : 3;
+  if (exposed.length < minPoints) {
+    throw new Error(`The ${model} model needs at least ${minPoints} exposed films`);
+  }
+
+  let coefficients: number[] | null = null;
+  let rSquared = 0;
+
+  if (model === 'polynomial') {
+    const fit = linearLeastSquares(xs.map(x => [x, x * x, x * x * x]), ds);
+    if (fit) { coefficients = fit.coefficients; rSquared = fit.rSquared; }
+  } else if (model === 'rational') {
+    // D·(1 - b·x) = a·x  =>  D = a·x + b·(x·D), linear in a and b
+    const fit = linearLeastSquares(xs.map((x, i) => [x, x * ds[i]]), ds);
+    if (fit) coefficients = fit.coefficients;
+  } else {
+    // Linear in a and b for a fixed exponent: scan n for the smallest residual
+    let bestSsr = Infinity;
+    for (let n = 1.5; n <= 4.0001; n += 0.05) {
+      const fit = linearLeastSquares(xs.map(x => [x, Math.sign(x) * Math.pow(Math.abs(x), n)]), ds);
+      if (fit && fit.residualSumSquares < bestSsr) {
+        bestSsr = fit.residualSumSquares;
+        coefficients = [...fit.coefficients, n];
+        rSquared = fit.rSquared;
+      }
+    }
+  }
+
+  if (!coefficients) {
+    throw new Error('Calibration fit failed (degenerate netOD values)');
+  }
+
+  if (model === 'rational') {
+    // R² of the linearised system is not meaningful; recompute on the dose scale
+    const mean = ds.reduce((s, d) => s + d, 0) / ds.length;
+    let ssRes = 0, ssTot = 0;
+    xs.forEach((x, i) => {
+      ssRes += (ds[i] - evaluateCalibrationModel(model, coefficients!, x)) ** 2;
+      ssTot += (ds[i] - mean) ** 2;
+    });
+    rSquared = ssTot > 0 ? 1 - ssRes / ssTot : 1;
+  }
+
+  return { coefficients, unexposedPixelValue, rSquared };
+};
+
+/**
+ * STEP 2 (calibrated): Convert a film scan to a dose map in Gy.
+ */
+export const toDoseMap = (imgData: RgbaImage, curve: CalibrationCurve): IntensityMap => {
+  const { width, height, data } = imgData;
+  const ch = CHANNEL_INDEX[curve.channel];
+  const out = new Float32Array(width * height);
+  let maxDose = 0;
+
+  for (let p = 0; p < out.length; p++) {
+    const dose = Math.max(0, doseFromPixelValue(curve, data[p * 4 + ch]));
+    out[p] = dose;
+    if (dose > maxDose) maxDose = dose;
+  }
+
+  return { width, height, data: out, unit: 'Gy', fullScale: maxDose > 0 ? maxDose : 1 };
+};
+
+export const loadCalibrationCurves = (): CalibrationCurve[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCalibrationCurves = (curves: CalibrationCurve[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+};
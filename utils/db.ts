@@ -0,0 +1,101 @@
+import { SavedRun, StoredSession } from '../types';
+
+const DB_NAME = 'bbsa';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const RUNS = 'runs';
+const META = 'meta';
+
+const ACTIVE_SESSION_KEY = 'activeSessionId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Opens (and on first use creates) the app database. The connection is shared.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(RUNS)) db.createObjectStore(RUNS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(name, mode);
+  // Resolve only once the transaction has committed, not just when the request succeeded
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  committed.catch(() => undefined); // a failed request already rejects below
+  const result = await requestToPromise(fn(tx.objectStore(name)));
+  await committed;
+  return result;
+};
+
+// Sessions
+
+export const listSessions = async (): Promise<StoredSession[]> => {
+  const sessions = await withStore<StoredSession[]>(SESSIONS, 'readonly', s => s.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string): Promise<StoredSession | undefined> => {
+  return withStore<StoredSession | undefined>(SESSIONS, 'readonly', s => s.get(id));
+};
+
+export const putSession = async (session: StoredSession): Promise<void> => {
+  await withStore(SESSIONS, 'readwrite', s => s.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(SESSIONS, 'readwrite', s => s.delete(id));
+};
+
+export const getActiveSessionId = (): Promise<string | undefined> => {
+  return withStore<string | undefined>(META, 'readonly', s => s.get(ACTIVE_SESSION_KEY));
+};
+
+export const setActiveSessionId = async (id: string): Promise<void> => {
+  await withStore(META, 'readwrite', s => s.put(id, ACTIVE_SESSION_KEY));
+};
+
+// Saved runs
+
+export const listRuns = async (): Promise<SavedRun[]> => {
+  const runs = await withStore<SavedRun[]>(RUNS, 'readonly', s => s.getAll());
+  return runs.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const putRun = async (run: SavedRun): Promise<void> => {
+  await withStore(RUNS, 'readwrite', s => s.put(run));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore(RUNS, 'readwrite', s => s.delete(id));
+};
@@ -0,0 +1,147 @@
+import { FilmSample, FitDiagnostics, FitFlag, IntensityMap, Point, RadialDataPoint, RadialGaussianFit, RgbaImage } from '../types';
+
+// Thresholds for the automatic flags
+const SATURATION_LEVEL = 1; // darkest channel at or below this (0-255) is clipped by the scanner
+const MAX_SATURATION_FRACTION = 0.01;
+const MIN_SIGNAL_TO_NOISE = 5;
+const MAX_TAIL_EXCESS = 0.01; // of the peak above the far field
+const MIN_EDGE_SIGMAS = 3;
+const MIN_R_SQUARED = 0.95;
+const TAIL_BAND: [number, number] = [2, 4]; // σ
+const FAR_FIELD = 5; // σ, reference level for the tail excess
+const MIN_FAR_POINTS = 3;
+
+export const FIT_FLAG_LABELS: Record<FitFlag, string> = {
+  failed: 'Fit failed',
+  clipped: 'Clipped (saturated pixels in the beam)',
+  lowSignal: 'Low signal',
+  nonGaussianTail: 'Non-Gaussian tail',
+  nearEdge: 'Beam near the scan edge',
+  poorFit: 'Poor fit (R² < 0.95)',
+  materialBelowAir: 'Material σ not above air σ'
+};
+
+export interface DiagnosticsInput {
+  image: RgbaImage; // the scan as loaded, for clipping
+  map: IntensityMap; // the analysed map, after masks and background subtraction
+  centroid: Point; // analysed px
+  points: RadialDataPoint[]; // radial profile with the fit column
+  fit: RadialGaussianFit;
+  rSquared: number;
+  pixelToMm: number; // effective mm per analysed pixel
+}
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Fraction of the beam's pixels (at or above half the profile peak) whose darkest channel
+ * sits at the bottom of the scanner's range.
+ */
+const saturationFraction = (image: RgbaImage, map: IntensityMap, peak: number): number => {
+  const { data, mask } = map;
+  let beam = 0, clipped = 0;
+  for (let p = 0; p < data.length; p++) {
+    if ((mask && !mask[p]) || data[p] < peak / 2) continue;
+    beam++;
+    const i = p * 4;
+    if (Math.min(image.data[i], image.data[i + 1], image.data[i + 2]) <= SATURATION_LEVEL) clipped++;
+  }
+  return beam > 0 ? clipped / beam : 0;
+};
+
+/**
+ * Distance in analysed px from the centroid to the image border or the nearest excluded pixel.
+ */
+const edgeDistance = (map: IntensityMap, c: Point): number => {
+  const { width, height, mask } = map;
+  let d = Math.min(c.x + 0.5, c.y + 0.5, width - 0.5 - c.x, height - 0.5 - c.y);
+  if (mask) {
+    let best = d * d;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (mask[y * width + x]) continue;
+        const r2 = (x - c.x) ** 2 + (y - c.y) ** 2;
+        if (r2 < best) best = r2;
+      }
+    }
+    d = Math.sqrt(best);
+  }
+  return Math.max(d, 0);
+};
+
+/**
+ * Reduced χ² of the fit over its window, with each ring weighted by the standard error of its mean.
+ */
+const reducedChiSquare = (points: RadialDataPoint[], window: [number, number] | null): number | null => {
+  if (!window) return null;
+  const used = points.filter(p =>
+    p.radius >= window[0] && p.radius <= window[1] && p.fit !== undefined && (p.count ?? 0) > 1 && (p.spread ?? 0) > 0);
+  if (used.length <= 2) return null;
+  const chi2 = used.reduce((s, p) => s + ((p.intensity - p.fit!) / (p.spread! / Math.sqrt(p.count!))) ** 2, 0);
+  return chi2 / (used.length - 2);
+};
+
+/**
+ * Fit-quality measures and flags for one film. Tail and noise estimates need the profile to
+ * reach beyond the core; when it does not they are null and raise no flag.
+ */
+export const diagnoseFit = ({ image, map, centroid, points, fit, rSquared, pixelToMm }: DiagnosticsInput): FitDiagnostics => {
+  const peak = points.reduce((m, p) => Math.max(m, p.intensity), 0);
+  const sigma = fit.sigma;
+
+  // Far field: beyond 5σ, or the outer quarter of the profile when the scan ends before that
+  const maxRadius = points.length > 0 ? points[points.length - 1].radius : 0;
+  const beyond = sigma > 0 ? points.filter(p => p.radius > FAR_FIELD * sigma) : [];
+  const far = beyond.length >= MIN_FAR_POINTS ? beyond : points.filter(p => p.radius > 0.75 * maxRadius);
+  const farLevel = far.length > 0 ? mean(far.map(p => p.intensity)) : 0;
+  const noise = far.length > 0 ? median(far.map(p => p.spread ?? 0)) : 0;
+  const signalToNoise = noise > 0 ? (peak - farLevel) / noise : null;
+
+  // Excess over the Gaussian in the 2-4σ band, above the far-field level, as a fraction of the peak
+  let tailExcess: number | null = null;
+  if (sigma > 0 && peak > farLevel && beyond.length >= MIN_FAR_POINTS) {
+    const band = points.filter(p => p.fit !== undefined && p.radius >= TAIL_BAND[0] * sigma && p.radius <= TAIL_BAND[1] * sigma);
+    if (band.length > 0) {
+      tailExcess = (mean(band.map(p => p.intensity - p.fit!)) - farLevel) / (peak - farLevel);
+    }
+  }
+
+  const diagnostics: Omit<FitDiagnostics, 'flags'> = {
+    rSquared,
+    reducedChiSquare: sigma > 0 ? reducedChiSquare(points, fit.windowRadius) : null,
+    pointsInWindow: fit.pointsInWindow,
+    windowRadius: fit.windowRadius,
+    saturationFraction: peak > 0 ? saturationFraction(image, map, peak) : 0,
+    edgeDistance: edgeDistance(map, centroid) * pixelToMm,
+    signalToNoise,
+    tailExcess,
+    failure: fit.failure
+  };
+
+  const flags: FitFlag[] = [];
+  if (sigma <= 0) flags.push('failed');
+  if (diagnostics.saturationFraction > MAX_SATURATION_FRACTION) flags.push('clipped');
+  if (signalToNoise !== null && signalToNoise < MIN_SIGNAL_TO_NOISE) flags.push('lowSignal');
+  if (tailExcess !== null && tailExcess > MAX_TAIL_EXCESS) flags.push('nonGaussianTail');
+  if (sigma > 0 && diagnostics.edgeDistance < MIN_EDGE_SIGMAS * sigma) flags.push('nearEdge');
+  if (sigma > 0 && rSquared < MIN_R_SQUARED) flags.push('poorFit');
+
+  return { ...diagnostics, flags };
+};
+
+/**
+ * Flags of a results row: those of every fit at that distance, plus the material/air pair check.
+ * Air fits are ignored when the air width comes from a baseline model instead.
+ */
+export const distanceFlags = (films: FilmSample[], sigmaAir: number, sigmaMaterial: number, airFromFilms: boolean): FitFlag[] => {
+  const fits = films.flatMap(f => airFromFilms ? [f.airFit, f.materialFit] : [f.materialFit]);
+  const flags = new Set(fits.flatMap(fit => fit?.diagnostics?.flags ?? []));
+  if (sigmaAir > 0 && sigmaMaterial > 0 && sigmaMaterial <= sigmaAir) flags.add('materialBelowAir');
+  return (Object.keys(FIT_FLAG_LABELS) as FitFlag[]).filter(f => flags.has(f));
+};
@@ -0,0 +1,241 @@
+import { AirBaseline, AnalysisSettings, AnalysisSummary, BackgroundSettings, BeamSettings, CalibrationCurve, GaussianFitResult, HaloFit, HighlandParams, ModelPrediction, SavedRun } from '../types';
+import { downloadFile, safeFileName } from './download';
+import { primaryPrediction } from './scattering';
+import { SessionSummary } from './summary';
+
+export type ExportFormat = 'csv' | 'json';
+
+type Metadata = Record<string, string | number | boolean | null>;
+
+interface Column<T> {
+  key: string; // column name, with the unit as a suffix (e.g. sigma_mm)
+  unit: string;
+  value: (row: T) => number | string | null | undefined;
+}
+
+const csvCell = (v: number | string | null | undefined): string => {
+  if (v === null || v === undefined || (typeof v === 'number' && !Number.isFinite(v))) return '';
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/**
+ * CSV with '#'-prefixed metadata lines (pandas: comment='#'; ROOT TTree::ReadFile skips them too),
+ * then a single header row. Units are carried in the column names.
+ */
+const toCsv = <T>(metadata: Metadata, columns: Column<T>[], rows: T[]): string => {
+  const lines = Object.entries(metadata).map(([k, v]) => `# ${k}: ${v ?? ''}`);
+  lines.push(columns.map(c => c.key).join(','));
+  for (const row of rows) lines.push(columns.map(c => csvCell(c.value(row))).join(','));
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * JSON with metadata, a unit per column and row objects keyed by column name.
+ */
+const toJson = <T>(metadata: Metadata, columns: Column<T>[], rows: T[]): string => {
+  return JSON.stringify({
+    metadata,
+    units: Object.fromEntries(columns.map(c => [c.key, c.unit])),
+    rows: rows.map(row => Object.fromEntries(columns.map(c => [c.key, c.value(row) ?? null])))
+  }, null, 2);
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = { csv: 'text/csv', json: 'application/json' };
+
+const formatTable = <T>(format: ExportFormat, metadata: Metadata, columns: Column<T>[], rows: T[]): string => {
+  const stamped: Metadata = { ...metadata, exported_at: new Date().toISOString() };
+  return format === 'csv' ? toCsv(stamped, columns, rows) : toJson(stamped, columns, rows);
+};
+
+const writeTable = <T>(baseName: string, format: ExportFormat, metadata: Metadata, columns: Column<T>[], rows: T[]) => {
+  downloadFile(`${safeFileName(baseName)}.${format}`, formatTable(format, metadata, columns, rows), MIME_TYPES[format]);
+};
+
+const SUMMARY_COLUMNS: Column<AnalysisSummary>[] = [
+  { key: 'sample_id', unit: '', value: r => r.sampleId },
+  { key: 'distance_mm', unit: 'mm', value: r => r.distance },
+  { key: 'film_count', unit: '', value: r => r.filmCount ?? 1 },
+  { key: 'sigma_air_mm', unit: 'mm', value: r => r.sigmaAir },
+  { key: 'sigma_air_err_mm', unit: 'mm', value: r => r.sigmaAirError },
+  { key: 'sigma_material_mm', unit: 'mm', value: r => r.sigmaMaterial },
+  { key: 'sigma_material_err_mm', unit: 'mm', value: r => r.sigmaMaterialError },
+  { key: 'sigma_air_std_mm', unit: 'mm', value: r => r.sigmaAirStd ?? 0 },
+  { key: 'sigma_material_std_mm', unit: 'mm', value: r => r.sigmaMaterialStd ?? 0 },
+  { key: 'sigma_corrected_mm', unit: 'mm', value: r => r.sigmaCorrected },
+  { key: 'sigma_corrected_err_mm', unit: 'mm', value: r => r.sigmaCorrectedError },
+  { key: 'theta_rad', unit: 'rad', value: r => r.theta },
+  { key: 'theta_err_rad', unit: 'rad', value: r => r.thetaError },
+  { key: 'sigma_theory_mm', unit: 'mm', value: r => r.theoreticalSigma },
+  { key: 'sigma_air_x_mm', unit: 'mm', value: r => r.sigmaAirX },
+  { key: 'sigma_air_y_mm', unit: 'mm', value: r => r.sigmaAirY },
+  { key: 'sigma_material_x_mm', unit: 'mm', value: r => r.sigmaMaterialX },
+  { key: 'sigma_material_y_mm', unit: 'mm', value: r => r.sigmaMaterialY },
+  { key: 'sigma_corrected_x_mm', unit: 'mm', value: r => r.sigmaCorrectedX },
+  { key: 'sigma_corrected_x_err_mm', unit: 'mm', value: r => r.sigmaCorrectedXError },
+  { key: 'sigma_corrected_y_mm', unit: 'mm', value: r => r.sigmaCorrectedY },
+  { key: 'sigma_corrected_y_err_mm', unit: 'mm', value: r => r.sigmaCorrectedYError },
+  { key: 'sigma_ratio_xy', unit: '', value: r => r.sigmaRatio },
+  { key: 'theta_x_rad', unit: 'rad', value: r => r.thetaX },
+  { key: 'theta_x_err_rad', unit: 'rad', value: r => r.thetaXError },
+  { key: 'theta_y_rad', unit: 'rad', value: r => r.thetaY },
+  { key: 'theta_y_err_rad', unit: 'rad', value: r => r.thetaYError },
+  { key: 'flags', unit: '', value: r => (r.flags ?? []).join(' ') },
+  { key: 'excluded', unit: '', value: r => (r.excluded ? 1 : 0) }
+];
+
+/**
+ * The run description written above the ResultsTable rows, shared by the web UI and the CLI.
+ */
+export interface SummaryContext {
+  session: string | null;
+  materialName: string;
+  materialId: string | null;
+  highlandParams: HighlandParams;
+  beam: BeamSettings;
+  pixelToMm: number;
+  calibration: CalibrationCurve | null;
+  airBaseline: AirBaseline | null;
+  background: BackgroundSettings;
+  analysisSettings: AnalysisSettings;
+  modelPredictions: ModelPrediction[];
+  exitEnergy: number | null; // MeV, from the thick-target model
+}
+
+export const summaryMetadata = (context: SummaryContext, summary: SessionSummary): Metadata => {
+  const { highlandParams, beam, analysisSettings, modelPredictions } = context;
+  const { thetaRms, thetaRmsError, axisThetaRms, linearFit } = summary;
+  const reference = primaryPrediction(modelPredictions);
+  return {
+    session: context.session,
+    material: context.materialName,
+    material_id: context.materialId,
+    thickness_cm: highlandParams.thickness,
+    density_g_cm3: highlandParams.density,
+    rad_length_cm: highlandParams.radLength,
+    particle: beam.particle,
+    kinetic_energy_MeV: beam.manual ? null : beam.kineticEnergy,
+    charge: highlandParams.charge,
+    momentum_MeV_c: highlandParams.momentum,
+    beta: highlandParams.beta,
+    pixel_to_mm: context.pixelToMm,
+    calibration: context.calibration?.name ?? 'none',
+    air_baseline: context.airBaseline ? `${context.airBaseline.name} (${context.airBaseline.model})` : 'none',
+    background_subtraction: context.background.subtraction,
+    flat_field: context.background.blankImageSrc !== null,
+    centroid_gate: analysisSettings.centroidGate,
+    fit_band_low: analysisSettings.fitLow,
+    fit_band_high: analysisSettings.fitHigh,
+    min_fit_points: analysisSettings.minFitPoints,
+    radial_bin_px: analysisSettings.binWidth,
+    theta_rms_rad: thetaRms,
+    theta_rms_err_rad: thetaRmsError,
+    theta_rms_x_rad: axisThetaRms?.x.value ?? null,
+    theta_rms_x_err_rad: axisThetaRms?.x.error ?? null,
+    theta_rms_y_rad: axisThetaRms?.y.value ?? null,
+    theta_rms_y_err_rad: axisThetaRms?.y.error ?? null,
+    theta_fit_rad: linearFit?.slope ?? null,
+    theta_fit_err_rad: linearFit?.slopeError ?? null,
+    fit_intercept_mm: linearFit?.intercept ?? null,
+    fit_chi2_ndf: linearFit?.reducedChiSquare ?? null,
+    theta_theory_rad: reference?.theta0 ?? 0,
+    theory_model: reference?.model ?? null,
+    exit_energy_MeV: context.exitEnergy,
+    ...Object.fromEntries(modelPredictions.map(p => [`theta_${p.model.replace('-', '_')}_rad`, p.theta0]))
+  };
+};
+
+/**
+ * The ResultsTable rows as file content, for writing outside the browser.
+ */
+export const formatSummary = (format: ExportFormat, context: SummaryContext, summary: SessionSummary): string =>
+  formatTable(format, summaryMetadata(context, summary), SUMMARY_COLUMNS, summary.results);
+
+/**
+ * The ResultsTable rows under a description of the run (material, beam, θ values).
+ */
+export const exportSummary = (baseName: string, format: ExportFormat, context: SummaryContext, summary: SessionSummary) => {
+  writeTable(baseName, format, summaryMetadata(context, summary), SUMMARY_COLUMNS, summary.results);
+};
+
+// Core-plus-halo parameters under a model prefix; null when that fit failed
+const haloMetadata = (fit: HaloFit | undefined, prefix: string): Metadata => {
+  const ok = fit && !fit.failure ? fit : null;
+  return {
+    [`${prefix}_core_sigma_mm`]: ok?.coreSigma ?? null,
+    [`${prefix}_core_sigma_err_mm`]: ok?.coreSigmaError ?? null,
+    [`${prefix}_halo_sigma_mm`]: ok?.haloSigma ?? null,
+    [`${prefix}_halo_sigma_err_mm`]: ok?.haloSigmaError ?? null,
+    [`${prefix}_halo_fraction`]: ok?.haloFraction ?? null,
+    [`${prefix}_halo_fraction_err`]: ok?.haloFractionError ?? null
+  };
+};
+
+/**
+ * One film's radial profile with the Gaussian fit evaluated at each radius.
+ */
+export const exportProfile = (baseName: string, format: ExportFormat, metadata: Metadata, fit: GaussianFitResult) => {
+  const intensityUnit = String(metadata.intensity_unit ?? 'raw');
+  const columns: Column<GaussianFitResult['points'][number]>[] = [
+    { key: 'radius_mm', unit: 'mm', value: p => p.radius },
+    { key: `intensity_${intensityUnit}`, unit: intensityUnit, value: p => p.intensity },
+    { key: `fit_${intensityUnit}`, unit: intensityUnit, value: p => p.fit }
+  ];
+  writeTable(baseName, format, {
+    ...metadata,
+    sigma_mm: fit.sigma,
+    sigma_err_mm: fit.sigmaError,
+    amplitude: fit.amplitude,
+    r_squared: fit.rSquared,
+    reduced_chi2: fit.diagnostics?.reducedChiSquare ?? null,
+    points_in_window: fit.diagnostics?.pointsInWindow ?? null,
+    saturation_fraction: fit.diagnostics?.saturationFraction ?? null,
+    edge_distance_mm: fit.diagnostics?.edgeDistance ?? null,
+    signal_to_noise: fit.diagnostics?.signalToNoise ?? null,
+    tail_excess: fit.diagnostics?.tailExcess ?? null,
+    flags: fit.diagnostics?.flags.join(' ') ?? null,
+    sigma_x_mm: fit.axes?.projection.x.fit.sigma ?? null,
+    sigma_x_err_mm: fit.axes?.projection.x.fit.sigmaError ?? null,
+    sigma_y_mm: fit.axes?.projection.y.fit.sigma ?? null,
+    sigma_y_err_mm: fit.axes?.projection.y.fit.sigmaError ?? null,
+    sigma_x_line_mm: fit.axes?.line.x.fit.sigma ?? null,
+    sigma_y_line_mm: fit.axes?.line.y.fit.sigma ?? null,
+    projection_half_width_mm: fit.axes?.bandHalfWidth ?? null,
+    ...haloMetadata(fit.halo?.doubleGaussian, 'double_gaussian'),
+    ...haloMetadata(fit.halo?.rutherford, 'rutherford'),
+    centroid_x_px: fit.centroid.x,
+    centroid_y_px: fit.centroid.y,
+    pixel_to_mm: fit.pixelToMm,
+    scale: fit.scale
+  }, columns, fit.points);
+};
+
+/**
+ * Long-format table of sigma_corrected vs L for several saved runs.
+ */
+export const exportComparison = (baseName: string, format: ExportFormat, runs: SavedRun[]) => {
+  const rows = runs.flatMap(run => run.results.map(r => ({ run, r })));
+  const columns: Column<{ run: SavedRun; r: AnalysisSummary }>[] = [
+    { key: 'run_id', unit: '', value: x => x.run.id },
+    { key: 'run_name', unit: '', value: x => x.run.name },
+    { key: 'material', unit: '', value: x => x.run.materialName },
+    { key: 'material_id', unit: '', value: x => x.run.material?.id },
+    { key: 'rad_length_cm', unit: 'cm', value: x => x.run.highlandParams.radLength },
+    { key: 'distance_mm', unit: 'mm', value: x => x.r.distance },
+    { key: 'sigma_corrected_mm', unit: 'mm', value: x => x.r.sigmaCorrected },
+    { key: 'sigma_corrected_err_mm', unit: 'mm', value: x => x.r.sigmaCorrectedError },
+    { key: 'theta_rad', unit: 'rad', value: x => x.r.theta },
+    { key: 'theta_err_rad', unit: 'rad', value: x => x.r.thetaError },
+    { key: 'run_theta_rms_rad', unit: 'rad', value: x => x.run.thetaRms },
+    { key: 'run_theta_rms_err_rad', unit: 'rad', value: x => x.run.thetaRmsError },
+    { key: 'run_theta_fit_rad', unit: 'rad', value: x => x.run.linearFit?.slope },
+    { key: 'run_theta_fit_err_rad', unit: 'rad', value: x => x.run.linearFit?.slopeError },
+    { key: 'run_theta_theory_rad', unit: 'rad', value: x => x.run.theoreticalTheta },
+    { key: 'run_centroid_gate', unit: '', value: x => x.run.analysisSettings?.centroidGate },
+    { key: 'run_fit_band_low', unit: '', value: x => x.run.analysisSettings?.fitLow },
+    { key: 'run_fit_band_high', unit: '', value: x => x.run.analysisSettings?.fitHigh },
+    { key: 'run_min_fit_points', unit: '', value: x => x.run.analysisSettings?.minFitPoints },
+    { key: 'run_radial_bin_px', unit: 'px', value: x => x.run.analysisSettings?.binWidth }
+  ];
+  writeTable(baseName, format, { runs: runs.length }, columns, rows);
+};
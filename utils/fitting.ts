@@ -0,0 +1,111 @@
+import { invertMatrix, solveLinearSystem } from './linalg';
+
+/**
+ * A nonlinear least-squares problem over `count` observations.
+ * `evaluate` returns the model value at observation i and writes ∂f/∂p into `gradient`.
+ */
+export interface LeastSquaresProblem {
+  count: number;
+  observed: (i: number) => number;
+  evaluate: (params: number[], i: number, gradient: number[]) => number;
+  weight?: (i: number) => number; // 1/σ² per observation, default 1
+}
+
+export interface LevenbergMarquardtResult {
+  params: number[];
+  covariance: number[][] | null; // (JᵀWJ)⁻¹ at the solution
+  chiSquare: number;
+  degreesOfFreedom: number;
+  iterations: number;
+  converged: boolean;
+}
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-9;
+
+/**
+ * Levenberg–Marquardt minimisation of Σ w_i (y_i - f_i(p))² with Marquardt's diagonal damping.
+ */
+export const levenbergMarquardt = (problem: LeastSquaresProblem, initial: number[]): LevenbergMarquardtResult => {
+  const p = initial.length;
+  const gradient = new Array(p).fill(0);
+
+  // Builds the normal equations at `params`; returns χ², JᵀWJ and JᵀWr
+  const linearise = (params: number[]) => {
+    const JtJ = Array.from({ length: p }, () => new Array(p).fill(0));
+    const Jtr = new Array(p).fill(0);
+    let chi2 = 0;
+    for (let i = 0; i < problem.count; i++) {
+      const w = problem.weight ? problem.weight(i) : 1;
+      if (w === 0) continue;
+      const r = problem.observed(i) - problem.evaluate(params, i, gradient);
+      chi2 += w * r * r;
+      for (let a = 0; a < p; a++) {
+        const ga = w * gradient[a];
+        Jtr[a] += ga * r;
+        for (let b = 0; b <= a; b++) JtJ[a][b] += ga * gradient[b];
+      }
+    }
+    for (let a = 0; a < p; a++) for (let b = a + 1; b < p; b++) JtJ[a][b] = JtJ[b][a];
+    return { chi2, JtJ, Jtr };
+  };
+
+  const chiSquareAt = (params: number[]) => {
+    let chi2 = 0;
+    for (let i = 0; i < problem.count; i++) {
+      const w = problem.weight ? problem.weight(i) : 1;
+      if (w === 0) continue;
+      const r = problem.observed(i) - problem.evaluate(params, i, gradient);
+      chi2 += w * r * r;
+    }
+    return chi2;
+  };
+
+  let params = [...initial];
+  let state = linearise(params);
+  let lambda = 1e-3;
+  let converged = false;
+  let iterations = 0;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const damped = state.JtJ.map((row, a) => row.map((v, b) => a === b ? v * (1 + lambda) + 1e-12 : v));
+    const step = solveLinearSystem(damped, state.Jtr);
+    if (!step) {
+      lambda *= 10;
+      continue;
+    }
+
+    const trial = params.map((v, a) => v + step[a]);
+    const trialChi2 = chiSquareAt(trial);
+
+    if (Number.isFinite(trialChi2) && trialChi2 <= state.chi2) {
+      const improvement = (state.chi2 - trialChi2) / Math.max(state.chi2, 1e-300);
+      params = trial;
+      state = linearise(params);
+      lambda = Math.max(lambda / 10, 1e-12);
+      if (improvement < TOLERANCE) {
+        converged = true;
+        break;
+      }
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) {
+        // No downhill step left: we are at the minimum to machine precision
+        converged = true;
+        break;
+      }
+    }
+  }
+
+  let count = 0;
+  for (let i = 0; i < problem.count; i++) if (!problem.weight || problem.weight(i) !== 0) count++;
+
+  return {
+    params,
+    covariance: invertMatrix(state.JtJ),
+    chiSquare: state.chi2,
+    degreesOfFreedom: Math.max(count - p, 1),
+    iterations,
+    converged
+  };
+};
@@ -0,0 +1,206 @@
+import { Gaussian2DFit, IntensityMap, Point } from '../types';
+import { levenbergMarquardt } from './fitting';
+
+const FIT_GRID_SIZE = 128; // Bin the map down to at most this many px per edge before fitting
+
+interface BinnedGrid {
+  width: number;
+  height: number;
+  data: Float32Array;
+  coverage: Float32Array; // fraction of each cell's pixels inside the map's mask, 0 = excluded
+  factor: number; // analysed px per grid cell
+}
+
+/**
+ * Block-averages the map so the fit cost does not grow with scan resolution.
+ * Masked-out pixels are left out of the averages.
+ */
+const binMap = (map: IntensityMap): BinnedGrid => {
+  const factor = Math.max(1, Math.ceil(Math.max(map.width, map.height) / FIT_GRID_SIZE));
+  const width = Math.floor(map.width / factor);
+  const height = Math.floor(map.height / factor);
+  const data = new Float32Array(width * height);
+  const coverage = new Float32Array(width * height);
+
+  for (let gy = 0; gy < height; gy++) {
+    for (let gx = 0; gx < width; gx++) {
+      let sum = 0, n = 0;
+      for (let y = gy * factor; y < (gy + 1) * factor; y++) {
+        for (let x = gx * factor; x < (gx + 1) * factor; x++) {
+          const p = y * map.width + x;
+          if (map.mask && !map.mask[p]) continue;
+          sum += map.data[p];
+          n++;
+        }
+      }
+      data[gy * width + gx] = n > 0 ? sum / n : 0;
+      coverage[gy * width + gx] = n / (factor * factor);
+    }
+  }
+  return { width, height, data, coverage, factor };
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Robust per-pixel noise from horizontal neighbour differences (MAD of Δ / √2).
+ */
+const estimateNoise = (grid: BinnedGrid): number => {
+  const diffs: number[] = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 1; x < grid.width; x++) {
+      if (grid.coverage[y * grid.width + x] < 1 || grid.coverage[y * grid.width + x - 1] < 1) continue;
+      diffs.push(grid.data[y * grid.width + x] - grid.data[y * grid.width + x - 1]);
+    }
+  }
+  const m = median(diffs);
+  return (1.4826 * median(diffs.map(d => Math.abs(d - m)))) / Math.SQRT2;
+};
+
+/**
+ * Border mean as the starting background level. With a mask the border of the
+ * usable area is used instead: usable cells next to an excluded one or the edge.
+ */
+const borderMean = (grid: BinnedGrid): number => {
+  const usable = (x: number, y: number) => x >= 0 && y >= 0 && x < grid.width && y < grid.height && grid.coverage[y * grid.width + x] > 0;
+  let sum = 0, n = 0;
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!usable(x, y)) continue;
+      if (usable(x - 1, y) && usable(x + 1, y) && usable(x, y - 1) && usable(x, y + 1)) continue;
+      sum += grid.data[y * grid.width + x];
+      n++;
+    }
+  }
+  return n > 0 ? sum / n : 0;
+};
+
+/**
+ * Wraps an angle into (-π/2, π/2].
+ */
+const wrapAngle = (a: number): number => {
+  let t = a % Math.PI;
+  if (t > Math.PI / 2) t -= Math.PI;
+  if (t <= -Math.PI / 2) t += Math.PI;
+  return t;
+};
+
+/**
+ * STEP 6b: Nonlinear 2D Gaussian fit with free centroid, background and elliptical, rotated widths.
+ * Fits on a binned copy of the map; results are reported in analysed pixels (centroid) and mm.
+ *
+ * @param initialCentroid centroid from calculateCentroid, in analysed pixels
+ * @param initialSigma radial sigma in mm (used as starting width if > 0)
+ */
+export const fitGaussian2D = (
+  map: IntensityMap,
+  initialCentroid: Point,
+  initialSigma: number,
+  pixelToMm: number
+): Gaussian2DFit | null => {
+  const grid = binMap(map);
+  if (grid.width < 4 || grid.height < 4) return null;
+
+  // Grid cell centres in analysed-pixel coordinates
+  const toPx = (g: number) => (g + 0.5) * grid.factor - 0.5;
+  const toGrid = (px: number) => (px + 0.5) / grid.factor - 0.5;
+
+  let peak = -Infinity;
+  for (let i = 0; i < grid.data.length; i++) if (grid.coverage[i] > 0 && grid.data[i] > peak) peak = grid.data[i];
+  const background = borderMean(grid);
+  const sigmaGuess = initialSigma > 0
+    ? initialSigma / pixelToMm / grid.factor
+    : Math.min(grid.width, grid.height) / 8;
+
+  // Parameters in grid units: [A, B, x0, y0, σx, σy, angle]
+  const initial = [
+    Math.max(peak - background, 1e-6),
+    background,
+    toGrid(initialCentroid.x),
+    toGrid(initialCentroid.y),
+    sigmaGuess,
+    sigmaGuess * 0.9, // break the symmetry so the angle is not degenerate at the start
+    0
+  ];
+
+  const noise = estimateNoise(grid);
+  const weight = noise > 0 ? 1 / (noise * noise) : 1;
+
+  const result = levenbergMarquardt({
+    count: grid.data.length,
+    observed: (i) => grid.data[i],
+    // Partly masked cells average fewer pixels and are noisier
+    weight: (i) => weight * grid.coverage[i],
+    evaluate: ([A, B, x0, y0, sx, sy, phi], i, grad) => {
+      const x = i % grid.width;
+      const y = (i - x) / grid.width;
+      const c = Math.cos(phi), s = Math.sin(phi);
+      const dx = x - x0, dy = y - y0;
+      const xr = dx * c + dy * s;
+      const yr = -dx * s + dy * c;
+      const sx2 = sx * sx, sy2 = sy * sy;
+      const g = Math.exp(-(xr * xr / (2 * sx2) + yr * yr / (2 * sy2)));
+      const u = xr / sx2, v = yr / sy2;
+      const Ag = A * g;
+
+      grad[0] = g;
+      grad[1] = 1;
+      grad[2] = Ag * (u * c - v * s);
+      grad[3] = Ag * (u * s + v * c);
+      grad[4] = Ag * xr * xr / (sx2 * sx);
+      grad[5] = Ag * yr * yr / (sy2 * sy);
+      grad[6] = -Ag * (u * yr - v * xr);
+      return Ag + B;
+    }
+  }, initial);
+
+  let [A, B, x0, y0, sx, sy, phi] = result.params;
+  sx = Math.abs(sx);
+  sy = Math.abs(sy);
+  if (!Number.isFinite(sx) || !Number.isFinite(sy) || sx === 0 || sy === 0) return null;
+
+  // Convert parameter covariance to physical units: grid → mm for positions and widths
+  const mmPerCell = pixelToMm * grid.factor;
+  const unit = [1, 1, mmPerCell, mmPerCell, mmPerCell, mmPerCell, 1];
+  const reducedChiSquare = result.chiSquare / result.degreesOfFreedom;
+  // Without a noise estimate the weights are arbitrary, so scale by the residual variance instead
+  const covScale = noise > 0 ? 1 : reducedChiSquare;
+  let covariance = (result.covariance ?? unit.map(() => unit.map(() => NaN)))
+    .map((row, a) => row.map((v, b) => v * covScale * unit[a] * unit[b]));
+
+  // Report the major axis as σx
+  if (sy > sx) {
+    [sx, sy] = [sy, sx];
+    phi += Math.PI / 2;
+    const order = [0, 1, 2, 3, 5, 4, 6];
+    covariance = order.map(a => order.map(b => covariance[a][b]));
+  }
+
+  const err = (k: number) => Math.sqrt(Math.max(covariance[k][k], 0));
+
+  return {
+    amplitude: A,
+    background: B,
+    centroid: { x: toPx(x0), y: toPx(y0) },
+    sigmaX: sx * mmPerCell,
+    sigmaY: sy * mmPerCell,
+    angle: wrapAngle(phi),
+    errors: {
+      amplitude: err(0),
+      background: err(1),
+      x: err(2),
+      y: err(3),
+      sigmaX: err(4),
+      sigmaY: err(5),
+      angle: err(6)
+    },
+    covariance,
+    reducedChiSquare,
+    converged: result.converged
+  };
+};
@@ -0,0 +1,154 @@
+import { HaloFit, HaloModel, RadialDataPoint, RadialGaussianFit } from '../types';
+import { levenbergMarquardt } from './fitting';
+
+export const HALO_MODELS: { id: HaloModel; label: string; formula: string }[] = [
+  { id: 'doubleGaussian', label: 'Double Gaussian', formula: 'A_c·exp(-r²/2σ_c²) + A_h·exp(-r²/2σ_h²) + B' },
+  { id: 'rutherford', label: 'Gaussian + Rutherford tail', formula: 'A_c·exp(-r²/2σ_c²) + A_h·s⁴/(r² + s²)² + B' }
+];
+
+const MIN_POINTS = 10;
+const MAX_HALO_FRACTION = 0.5; // beyond this the "halo" is the beam itself and the narrow part a spurious split
+const HALO_START = { doubleGaussian: 3, rutherford: 2 }; // initial s in core σ
+
+// Parameter order: [A_c, σ_c, A_h, s, B]
+const FAILED: Omit<HaloFit, 'model' | 'failure'> = {
+  coreAmplitude: 0, coreSigma: 0, coreSigmaError: 0, haloAmplitude: 0, haloScale: 0, haloSigma: 0,
+  haloSigmaError: 0, haloFraction: 0, haloFractionError: 0, background: 0, reducedChiSquare: 0
+};
+
+/**
+ * Halo shape at radius r (peak 1 at r = 0) and its derivative with respect to s.
+ */
+const haloShape = (model: HaloModel, r: number, s: number): [number, number] => {
+  const r2 = r * r;
+  if (model === 'doubleGaussian') {
+    const h = Math.exp(-r2 / (2 * s * s));
+    return [h, (h * r2) / (s * s * s)];
+  }
+  const d = r2 + s * s;
+  return [(s ** 4) / (d * d), (4 * s ** 3 * r2) / (d * d * d)];
+};
+
+/**
+ * Integral of the halo shape over the plane out to `range` (mm), and its per-axis RMS width.
+ * The 1/r⁴ tail has no finite variance, so its width is taken within the fitted range.
+ */
+const haloMoments = (model: HaloModel, s: number, range: number): { integral: number; sigma: number } => {
+  if (model === 'doubleGaussian') return { integral: 2 * Math.PI * s * s, sigma: s };
+  const rho2 = range * range, s2 = s * s;
+  const meanR2 = (s2 * (rho2 + s2) / rho2) * (Math.log(1 + rho2 / s2) - rho2 / (rho2 + s2));
+  return { integral: (Math.PI * s2 * rho2) / (rho2 + s2), sigma: Math.sqrt(meanR2 / 2) };
+};
+
+/**
+ * Core and halo components at radius r, without the background.
+ */
+export const evaluateHalo = (fit: HaloFit, r: number): { core: number; halo: number } => ({
+  core: fit.coreAmplitude * Math.exp(-(r * r) / (2 * fit.coreSigma * fit.coreSigma)),
+  halo: fit.haloAmplitude * haloShape(fit.model, r, fit.haloScale)[0]
+});
+
+/**
+ * 1σ error of f(params) from the covariance, by central differences.
+ */
+const propagate = (f: (p: number[]) => number, params: number[], covariance: number[][]): number => {
+  const gradient = params.map((v, i) => {
+    const h = Math.max(Math.abs(v) * 1e-6, 1e-12);
+    const up = [...params], down = [...params];
+    up[i] += h;
+    down[i] -= h;
+    return (f(up) - f(down)) / (2 * h);
+  });
+  const variance = gradient.reduce((s, a, i) => s + gradient.reduce((t, b, j) => t + a * covariance[i][j] * b, 0), 0);
+  return Number.isFinite(variance) ? Math.sqrt(Math.max(variance, 0)) : 0;
+};
+
+/**
+ * Nonlinear fit of a core Gaussian plus halo over the whole radial profile, tails included.
+ * Rings are weighted by the standard error of their mean (spread/√count); the parameter errors
+ * are scaled by χ²/ndf. Starts from the core-only fit, which must have succeeded.
+ */
+export const fitHalo = (profile: RadialDataPoint[], core: RadialGaussianFit, model: HaloModel): HaloFit => {
+  const failed = (failure: string): HaloFit => ({ ...FAILED, model, failure });
+  if (!(core.sigma > 0)) return failed('The core Gaussian fit failed');
+
+  const weights = profile.map(p => (p.count ?? 0) > 1 && (p.spread ?? 0) > 0 ? p.count! / (p.spread! * p.spread!) : 0);
+  const weighted = weights.filter(w => w > 0).length >= MIN_POINTS;
+  if (!weighted && profile.length < MIN_POINTS) return failed(`Only ${profile.length} profile points (need ${MIN_POINTS})`);
+  const range = profile[profile.length - 1].radius;
+
+  const outer = profile.slice(Math.floor(profile.length * 0.9));
+  const background = outer.reduce((s, p) => s + p.intensity, 0) / outer.length;
+  const initialCore = Math.max(core.amplitude - background, 1e-6);
+
+  const result = levenbergMarquardt({
+    count: profile.length,
+    observed: (i) => profile[i].intensity,
+    weight: weighted ? (i) => weights[i] : undefined,
+    evaluate: ([Ac, sc, Ah, s, B], i, grad) => {
+      const r2 = profile[i].radius * profile[i].radius;
+      const g = Math.exp(-r2 / (2 * sc * sc));
+      const [h, dh] = haloShape(model, profile[i].radius, s);
+      grad[0] = g;
+      grad[1] = (Ac * g * r2) / (sc * sc * sc);
+      grad[2] = h;
+      grad[3] = Ah * dh;
+      grad[4] = 1;
+      return Ac * g + Ah * h + B;
+    }
+  }, [initialCore, core.sigma, 0.05 * initialCore, HALO_START[model] * core.sigma, background]);
+
+  let [Ac, sc, Ah, s, B] = result.params;
+  sc = Math.abs(sc);
+  s = Math.abs(s);
+  if (!result.converged || ![Ac, sc, Ah, s, B].every(Number.isFinite) || sc === 0 || s === 0) {
+    return failed('The fit did not converge');
+  }
+  if (!(Ac > 0)) return failed('No core component in the fit');
+  if (!(Ah > 0)) return failed('No halo above the core Gaussian');
+
+  // Label the narrower Gaussian as the core
+  let params = [Ac, sc, Ah, s, B];
+  let covariance = result.covariance;
+  if (model === 'doubleGaussian' && s < sc) {
+    params = [Ah, s, Ac, sc, B];
+    covariance = covariance && [2, 3, 0, 1, 4].map(i => [2, 3, 0, 1, 4].map(j => covariance![i][j]));
+  }
+  if (params[3] > range) return failed('The halo is wider than the scanned range');
+
+  const reducedChiSquare = result.chiSquare / result.degreesOfFreedom;
+  const scaled = covariance ? covariance.map(row => row.map(v => v * reducedChiSquare)) : null;
+
+  const fraction = (p: number[]) => {
+    const halo = Math.abs(p[2]) * haloMoments(model, Math.abs(p[3]), range).integral;
+    return halo / (Math.abs(p[0]) * 2 * Math.PI * p[1] * p[1] + halo);
+  };
+  const haloSigma = (p: number[]) => haloMoments(model, Math.abs(p[3]), range).sigma;
+
+  const haloFraction = fraction(params);
+  if (haloFraction > MAX_HALO_FRACTION) return failed('No distinct halo: the wide component holds most of the signal');
+
+  return {
+    model,
+    coreAmplitude: params[0],
+    coreSigma: params[1],
+    coreSigmaError: scaled ? Math.sqrt(Math.max(scaled[1][1], 0)) : 0,
+    haloAmplitude: params[2],
+    haloScale: params[3],
+    haloSigma: haloSigma(params),
+    haloSigmaError: scaled ? propagate(haloSigma, params, scaled) : 0,
+    haloFraction,
+    haloFractionError: scaled ? propagate(fraction, params, scaled) : 0,
+    background: params[4],
+    reducedChiSquare,
+    failure: null
+  };
+};
+
+/**
+ * STEP 6d: Both halo models, or null when there is no core fit to start from.
+ */
+export const fitHaloModels = (profile: RadialDataPoint[], core: RadialGaussianFit): Record<HaloModel, HaloFit> | null =>
+  core.sigma > 0
+    ? { doubleGaussian: fitHalo(profile, core, 'doubleGaussian'), rutherford: fitHalo(profile, core, 'rutherford') }
+    : null;
@@ -0,0 +1,29 @@
+import { ScaledImage } from '../types';
+import { SAMPLE_SIZE, reduceImage } from './physics';
+import { isTiffSource, loadTiffImage } from './tiff';
+
+/**
+ * STEP 1: Loads an image from a source URL into RGBA pixels (browser only; the CLI decodes files itself).
+ * The browser decodes PNG/JPEG at full size and the reduction to `maxSize` is done in JS by
+ * reduceImage, so results match the headless CLI. TIFFs are decoded in JS (browsers can't
+ * draw them, and a canvas would cut 16-bit scans to 8 bits).
+ */
+export const loadImageData = (src: string, maxSize: number = SAMPLE_SIZE): Promise<ScaledImage> => {
+  if (isTiffSource(src)) return loadTiffImage(src, maxSize);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas context failed'));
+
+      ctx.drawImage(img, 0, 0);
+      resolve(reduceImage(ctx.getImageData(0, 0, img.width, img.height), maxSize));
+    };
+    img.onerror = reject;
+    img.src = src;
+  });
+};
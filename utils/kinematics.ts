@@ -0,0 +1,51 @@
+import { BeamSettings, ParticleId } from '../types';
+
+export interface Particle {
+  id: ParticleId;
+  name: string;
+  mass: number; // MeV/c^2
+  charge: number; // |z|
+  nucleons: number; // A, 0 for leptons and pions
+}
+
+// PDG masses; ion masses are nuclear (atomic mass minus the electrons)
+export const PARTICLES: Particle[] = [
+  { id: 'proton', name: 'Proton', mass: 938.272, charge: 1, nucleons: 1 },
+  { id: 'deuteron', name: 'Deuteron', mass: 1875.613, charge: 1, nucleons: 2 },
+  { id: 'alpha', name: 'Alpha (⁴He²⁺)', mass: 3727.379, charge: 2, nucleons: 4 },
+  { id: 'carbon', name: 'Carbon ion (¹²C⁶⁺)', mass: 11174.863, charge: 6, nucleons: 12 },
+  { id: 'electron', name: 'Electron', mass: 0.51099895, charge: 1, nucleons: 0 },
+  { id: 'muon', name: 'Muon', mass: 105.6584, charge: 1, nucleons: 0 },
+  { id: 'pion', name: 'Charged pion', mass: 139.5704, charge: 1, nucleons: 0 }
+];
+
+export const getParticle = (id: ParticleId): Particle => PARTICLES.find(p => p.id === id) ?? PARTICLES[0];
+
+export interface Kinematics {
+  momentum: number; // p (MeV/c)
+  beta: number;
+  gamma: number;
+  betaCP: number; // beta * c * p (MeV)
+  totalEnergy: number; // E (MeV)
+}
+
+/**
+ * Relativistic kinematics from kinetic energy: E = T + m, pc = sqrt(T^2 + 2 T m), beta = pc / E.
+ */
+export const kinematicsFromKineticEnergy = (mass: number, kineticEnergy: number): Kinematics => {
+  if (!(kineticEnergy > 0) || !(mass > 0)) {
+    return { momentum: 0, beta: 0, gamma: 1, betaCP: 0, totalEnergy: mass };
+  }
+  const totalEnergy = kineticEnergy + mass;
+  const momentum = Math.sqrt(kineticEnergy * kineticEnergy + 2 * kineticEnergy * mass);
+  const beta = momentum / totalEnergy;
+  return { momentum, beta, gamma: totalEnergy / mass, betaCP: beta * momentum, totalEnergy };
+};
+
+/**
+ * The Highland inputs implied by a beam definition.
+ */
+export const beamKinematics = (beam: BeamSettings): Kinematics & { charge: number } => {
+  const particle = getParticle(beam.particle);
+  return { ...kinematicsFromKineticEnergy(particle.mass, beam.kineticEnergy), charge: particle.charge };
+};
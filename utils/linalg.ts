@@ -0,0 +1,95 @@
+/**
+ * Small dense linear-algebra helpers used by the curve fitters.
+ * Matrices are plain row-major number[][]; sizes here are tiny (a handful of parameters).
+ */
+
+/**
+ * Solves A·x = b by Gaussian elimination with partial pivoting.
+ * Returns null when the system is singular.
+ */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    // Pivot on the largest remaining entry in this column
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-14) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = M[r][n];
+    for (let c = r + 1; c < n; c++) s -= M[r][c] * x[c];
+    x[r] = s / M[r][r];
+  }
+  return x;
+};
+
+export interface LeastSquaresResult {
+  coefficients: number[];
+  residualSumSquares: number;
+  rSquared: number;
+}
+
+/**
+ * Ordinary linear least squares via the normal equations.
+ * Each entry of `design` is one row of regressors for the matching observation in `y`.
+ */
+export const linearLeastSquares = (design: number[][], y: number[]): LeastSquaresResult | null => {
+  const n = y.length;
+  const p = design[0]?.length ?? 0;
+  if (n < p || p === 0) return null;
+
+  const XtX = Array.from({ length: p }, () => new Array(p).fill(0));
+  const Xty = new Array(p).fill(0);
+  for (let i = 0; i < n; i++) {
+    const row = design[i];
+    for (let a = 0; a < p; a++) {
+      Xty[a] += row[a] * y[i];
+      for (let b = 0; b < p; b++) XtX[a][b] += row[a] * row[b];
+    }
+  }
+
+  const coefficients = solveLinearSystem(XtX, Xty);
+  if (!coefficients) return null;
+
+  const meanY = y.reduce((s, v) => s + v, 0) / n;
+  let ssRes = 0, ssTot = 0;
+  for (let i = 0; i < n; i++) {
+    const pred = design[i].reduce((s, v, k) => s + v * coefficients[k], 0);
+    ssRes += (y[i] - pred) ** 2;
+    ssTot += (y[i] - meanY) ** 2;
+  }
+
+  return {
+    coefficients,
+    residualSumSquares: ssRes,
+    rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 1
+  };
+};
+
+/**
+ * Inverse of a small square matrix, or null if singular.
+ */
+export const invertMatrix = (A: number[][]): number[][] | null => {
+  const n = A.length;
+  const columns: number[][] = [];
+  for (let c = 0; c < n; c++) {
+    const e = new Array(n).fill(0);
+    e[c] = 1;
+    const col = solveLinearSystem(A, e);
+    if (!col) return null;
+    columns.push(col);
+  }
+  return Array.from({ length: n }, (_, r) => columns.map(col => col[r]));
+};
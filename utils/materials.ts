@@ -0,0 +1,175 @@
+import { Material, MaterialCategory, MaterialComponent } from '../types';
+
+const CUSTOM_STORAGE_KEY = 'bbsa.customMaterials';
+
+export interface Element {
+  symbol: string;
+  name: string;
+  Z: number;
+  A: number; // g/mol
+  radLength: number; // X0 in g/cm^2 (Tsai, as tabulated by the PDG)
+  meanExcitation: number; // I in eV
+  density: number; // g/cm^3 (gases at 20 °C, 1 atm)
+}
+
+// PDG Atomic and Nuclear Properties
+const ELEMENT_TABLE: Element[] = [
+  { symbol: 'H', name: 'Hydrogen', Z: 1, A: 1.008, radLength: 63.04, meanExcitation: 19.2, density: 8.376e-5 },
+  { symbol: 'He', name: 'Helium', Z: 2, A: 4.0026, radLength: 94.32, meanExcitation: 41.8, density: 1.663e-4 },
+  { symbol: 'Li', name: 'Lithium', Z: 3, A: 6.94, radLength: 82.78, meanExcitation: 40.0, density: 0.534 },
+  { symbol: 'Be', name: 'Beryllium', Z: 4, A: 9.0122, radLength: 65.19, meanExcitation: 63.7, density: 1.848 },
+  { symbol: 'B', name: 'Boron', Z: 5, A: 10.81, radLength: 52.69, meanExcitation: 76.0, density: 2.37 },
+  { symbol: 'C', name: 'Carbon (graphite)', Z: 6, A: 12.011, radLength: 42.70, meanExcitation: 78.0, density: 2.21 },
+  { symbol: 'N', name: 'Nitrogen', Z: 7, A: 14.007, radLength: 37.99, meanExcitation: 82.0, density: 1.165e-3 },
+  { symbol: 'O', name: 'Oxygen', Z: 8, A: 15.999, radLength: 34.24, meanExcitation: 95.0, density: 1.332e-3 },
+  { symbol: 'F', name: 'Fluorine', Z: 9, A: 18.998, radLength: 32.93, meanExcitation: 115.0, density: 1.58e-3 },
+  { symbol: 'Na', name: 'Sodium', Z: 11, A: 22.990, radLength: 27.74, meanExcitation: 149.0, density: 0.971 },
+  { symbol: 'Mg', name: 'Magnesium', Z: 12, A: 24.305, radLength: 25.03, meanExcitation: 156.0, density: 1.74 },
+  { symbol: 'Al', name: 'Aluminium', Z: 13, A: 26.982, radLength: 24.01, meanExcitation: 166.0, density: 2.699 },
+  { symbol: 'Si', name: 'Silicon', Z: 14, A: 28.085, radLength: 21.82, meanExcitation: 173.0, density: 2.329 },
+  { symbol: 'P', name: 'Phosphorus', Z: 15, A: 30.974, radLength: 21.21, meanExcitation: 173.0, density: 2.2 },
+  { symbol: 'S', name: 'Sulfur', Z: 16, A: 32.06, radLength: 19.50, meanExcitation: 180.0, density: 2.0 },
+  { symbol: 'Cl', name: 'Chlorine', Z: 17, A: 35.45, radLength: 19.28, meanExcitation: 174.0, density: 2.995e-3 },
+  { symbol: 'Ar', name: 'Argon', Z: 18, A: 39.948, radLength: 19.55, meanExcitation: 188.0, density: 1.662e-3 },
+  { symbol: 'K', name: 'Potassium', Z: 19, A: 39.098, radLength: 17.32, meanExcitation: 190.0, density: 0.862 },
+  { symbol: 'Ca', name: 'Calcium', Z: 20, A: 40.078, radLength: 16.14, meanExcitation: 191.0, density: 1.55 },
+  { symbol: 'Ti', name: 'Titanium', Z: 22, A: 47.867, radLength: 16.16, meanExcitation: 233.0, density: 4.54 },
+  { symbol: 'Cr', name: 'Chromium', Z: 24, A: 51.996, radLength: 14.94, meanExcitation: 257.0, density: 7.18 },
+  { symbol: 'Mn', name: 'Manganese', Z: 25, A: 54.938, radLength: 14.64, meanExcitation: 272.0, density: 7.44 },
+  { symbol: 'Fe', name: 'Iron', Z: 26, A: 55.845, radLength: 13.84, meanExcitation: 286.0, density: 7.874 },
+  { symbol: 'Co', name: 'Cobalt', Z: 27, A: 58.933, radLength: 13.62, meanExcitation: 297.0, density: 8.9 },
+  { symbol: 'Ni', name: 'Nickel', Z: 28, A: 58.693, radLength: 12.68, meanExcitation: 311.0, density: 8.902 },
+  { symbol: 'Cu', name: 'Copper', Z: 29, A: 63.546, radLength: 12.86, meanExcitation: 322.0, density: 8.96 },
+  { symbol: 'Zn', name: 'Zinc', Z: 30, A: 65.38, radLength: 12.43, meanExcitation: 330.0, density: 7.133 },
+  { symbol: 'Mo', name: 'Molybdenum', Z: 42, A: 95.95, radLength: 9.80, meanExcitation: 424.0, density: 10.22 },
+  { symbol: 'Ag', name: 'Silver', Z: 47, A: 107.87, radLength: 8.97, meanExcitation: 470.0, density: 10.5 },
+  { symbol: 'Sn', name: 'Tin', Z: 50, A: 118.71, radLength: 8.82, meanExcitation: 488.0, density: 7.31 },
+  { symbol: 'Ta', name: 'Tantalum', Z: 73, A: 180.95, radLength: 6.82, meanExcitation: 718.0, density: 16.654 },
+  { symbol: 'W', name: 'Tungsten', Z: 74, A: 183.84, radLength: 6.76, meanExcitation: 727.0, density: 19.3 },
+  { symbol: 'Pt', name: 'Platinum', Z: 78, A: 195.08, radLength: 6.54, meanExcitation: 790.0, density: 21.45 },
+  { symbol: 'Au', name: 'Gold', Z: 79, A: 196.97, radLength: 6.46, meanExcitation: 790.0, density: 19.32 },
+  { symbol: 'Pb', name: 'Lead', Z: 82, A: 207.2, radLength: 6.37, meanExcitation: 823.0, density: 11.35 },
+  { symbol: 'U', name: 'Uranium', Z: 92, A: 238.03, radLength: 6.00, meanExcitation: 890.0, density: 18.95 }
+];
+
+export const ELEMENTS: Record<string, Element> = Object.fromEntries(ELEMENT_TABLE.map(e => [e.symbol, e]));
+
+/**
+ * Radiation length, <Z/A> and mean excitation energy of a mixture from element mass fractions.
+ * 1/X0 = Σ w_j / X0_j over the elements' Tsai radiation lengths, <Z/A> = Σ w_j Z_j/A_j,
+ * and ln I from Bragg additivity weighted by electron density.
+ * Fractions are normalised; elements missing from the table throw.
+ */
+export const mixtureProperties = (components: MaterialComponent[]) => {
+  const total = components.reduce((s, c) => s + c.massFraction, 0);
+  if (!(total > 0)) throw new Error('Mass fractions must add up to a positive number');
+
+  let invX0 = 0, zOverA = 0, lnISum = 0;
+  for (const c of components) {
+    const el = ELEMENTS[c.symbol];
+    if (!el) throw new Error(`Unknown element "${c.symbol}"`);
+    const w = c.massFraction / total;
+    invX0 += w / el.radLength;
+    zOverA += (w * el.Z) / el.A;
+    lnISum += ((w * el.Z) / el.A) * Math.log(el.meanExcitation);
+  }
+
+  return {
+    radLength: 1 / invX0,
+    zOverA,
+    meanExcitation: Math.exp(lnISum / zOverA)
+  };
+};
+
+const element = (symbol: string): Material => {
+  const el = ELEMENTS[symbol];
+  return {
+    id: `el-${symbol}`,
+    name: `${el.name} (${symbol})`,
+    category: 'element',
+    density: el.density,
+    radLength: el.radLength,
+    zOverA: el.Z / el.A,
+    meanExcitation: el.meanExcitation,
+    composition: [{ symbol, massFraction: 1 }]
+  };
+};
+
+/**
+ * Material from a mass-fraction composition. Tabulated PDG values for X0 and I override
+ * the mixture rule where they are known.
+ */
+export const makeMixture = (
+  id: string,
+  name: string,
+  category: MaterialCategory,
+  density: number,
+  composition: MaterialComponent[],
+  tabulated: { radLength?: number; meanExcitation?: number } = {}
+): Material => {
+  const props = mixtureProperties(composition);
+  return {
+    id,
+    name,
+    category,
+    density,
+    radLength: tabulated.radLength ?? props.radLength,
+    zOverA: props.zOverA,
+    meanExcitation: tabulated.meanExcitation ?? props.meanExcitation,
+    composition
+  };
+};
+
+const c = (symbol: string, massFraction: number): MaterialComponent => ({ symbol, massFraction });
+
+export const MATERIAL_LIBRARY: Material[] = [
+  ...['Be', 'C', 'Al', 'Si', 'Ti', 'Fe', 'Ni', 'Cu', 'Zn', 'Mo', 'Ag', 'Sn', 'Ta', 'W', 'Pt', 'Au', 'Pb', 'U'].map(element),
+
+  makeMixture('water', 'Water (liquid)', 'compound', 1.0, [c('H', 0.111894), c('O', 0.888106)], { radLength: 36.08, meanExcitation: 75.0 }),
+  makeMixture('air', 'Air (dry, 1 atm)', 'compound', 1.205e-3, [c('C', 0.000124), c('N', 0.755267), c('O', 0.231781), c('Ar', 0.012827)], { radLength: 36.62, meanExcitation: 85.7 }),
+
+  makeMixture('pmma', 'PMMA (Lucite/Perspex)', 'plastic', 1.19, [c('H', 0.080538), c('C', 0.599848), c('O', 0.319614)], { radLength: 40.55, meanExcitation: 74.0 }),
+  makeMixture('polyethylene', 'Polyethylene', 'plastic', 0.94, [c('H', 0.143711), c('C', 0.856289)], { radLength: 44.77, meanExcitation: 57.4 }),
+  makeMixture('polystyrene', 'Polystyrene', 'plastic', 1.06, [c('H', 0.077418), c('C', 0.922582)], { radLength: 43.79, meanExcitation: 68.7 }),
+  makeMixture('polycarbonate', 'Polycarbonate (Lexan)', 'plastic', 1.2, [c('H', 0.055491), c('C', 0.755751), c('O', 0.188758)], { radLength: 41.46, meanExcitation: 73.1 }),
+  makeMixture('mylar', 'Mylar (PET)', 'plastic', 1.4, [c('H', 0.041959), c('C', 0.625017), c('O', 0.333025)], { radLength: 39.95, meanExcitation: 78.7 }),
+  makeMixture('kapton', 'Kapton (polyimide)', 'plastic', 1.42, [c('H', 0.026362), c('C', 0.691133), c('N', 0.07327), c('O', 0.209235)], { radLength: 40.58, meanExcitation: 79.6 }),
+  makeMixture('nylon6', 'Nylon-6', 'plastic', 1.18, [c('H', 0.097976), c('C', 0.636856), c('N', 0.123779), c('O', 0.141389)], { radLength: 41.92, meanExcitation: 63.9 }),
+  makeMixture('ptfe', 'PTFE (Teflon)', 'plastic', 2.2, [c('C', 0.240183), c('F', 0.759817)], { radLength: 34.84, meanExcitation: 99.1 }),
+
+  makeMixture('tissue-soft', 'Soft tissue (ICRU 4-component)', 'tissue', 1.0, [c('H', 0.101172), c('C', 0.111), c('N', 0.026), c('O', 0.761828)], { meanExcitation: 74.9 }),
+  makeMixture('tissue-adipose', 'Adipose tissue (ICRP)', 'tissue', 0.95, [c('H', 0.114), c('C', 0.598), c('N', 0.007), c('O', 0.278), c('Na', 0.001), c('S', 0.001), c('Cl', 0.001)], { meanExcitation: 63.2 }),
+  makeMixture('bone-cortical', 'Cortical bone (ICRP)', 'tissue', 1.85, [c('H', 0.047234), c('C', 0.14433), c('N', 0.04199), c('O', 0.446096), c('Mg', 0.0022), c('P', 0.10497), c('S', 0.00315), c('Ca', 0.20993), c('Zn', 0.0001)], { meanExcitation: 106.4 }),
+
+  makeMixture('brass', 'Brass (Cu63 Zn37)', 'alloy', 8.49, [c('Cu', 0.63), c('Zn', 0.37)]),
+  makeMixture('steel-304', 'Stainless steel 304', 'alloy', 8.0, [c('Fe', 0.695), c('Cr', 0.19), c('Ni', 0.095), c('Mn', 0.02)])
+];
+
+export const MATERIAL_CATEGORIES: { id: MaterialCategory; label: string }[] = [
+  { id: 'element', label: 'Elements' },
+  { id: 'compound', label: 'Water & Air' },
+  { id: 'plastic', label: 'Plastics' },
+  { id: 'tissue', label: 'Tissue Equivalents' },
+  { id: 'alloy', label: 'Alloys' },
+  { id: 'custom', label: 'Custom' }
+];
+
+/**
+ * Radiation length in cm at the given density.
+ */
+export const radLengthCm = (material: Material, density: number = material.density): number => {
+  return density > 0 ? material.radLength / density : 0;
+};
+
+export const loadCustomMaterials = (): Material[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomMaterials = (materials: Material[]) => {
+  localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(materials));
+};
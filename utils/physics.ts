@@ -1,54 +1,87 @@
-import { RadialDataPoint, GaussianFitResult, Point, HighlandParams } from '../types';
+import { RadialDataPoint, Point, IntensityMap, RgbaImage, ScaledImage, RadialGaussianFit, AnalysisSettings } from '../types';
 
 // Constants
-const SAMPLE_SIZE = 300; // Work on a resized canvas for performance
+export const SAMPLE_SIZE = 300; // Default longest edge of the analysed image, for performance
+export const SCAN_FILE_TYPES = 'image/*,.tif,.tiff'; // file input `accept` for film scans
 
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  centroidGate: 20, // Background gate in raw 8-bit intensity units
+  fitLow: 0.30, // Cut off tails below 30%
+  fitHigh: 0.95, // Ignore slight saturation/noise at very tip
+  minFitPoints: 5,
+  binWidth: 1
+};
 /**
- * Loads an image from a source URL and returns a hidden canvas context
+ * STEP 1 (DOM-free half): Area-average reduction of a decoded scan so its longest edge is
+ * `maxSize` (0 = keep full resolution); each source pixel feeds the output pixel it falls in.
+ * The applied scale is returned so that pixel distances can be converted back to scanner pixels.
+ * Reduced images carry fractional values (Float32Array); 16-bit precision is kept.
  */
-export const loadImageData = (src: string): Promise<ImageData> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      // Scale down for performance if necessary, but keeping aspect ratio
-      const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.width, img.height));
-      canvas.width = img.width * scale;
-      canvas.height = img.height * scale;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject(new Error('Canvas context failed'));
-      
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
-    };
-    img.onerror = reject;
-    img.src = src;
-  });
+export const reduceImage = (full: RgbaImage, maxSize: number = SAMPLE_SIZE): ScaledImage => {
+  const longest = Math.max(full.width, full.height);
+  const width = maxSize > 0 ? Math.max(1, Math.round(full.width * Math.min(1, maxSize / longest))) : full.width;
+  const height = maxSize > 0 ? Math.max(1, Math.round(full.height * Math.min(1, maxSize / longest))) : full.height;
+  const base = { scale: width / full.width, originalWidth: full.width, originalHeight: full.height };
+  if (width === full.width && height === full.height) return { image: full, ...base };
+
+  const sums = new Float64Array(width * height * 4);
+  const counts = new Uint32Array(width * height);
+  for (let y = 0; y < full.height; y++) {
+    const oy = Math.min(height - 1, Math.floor((y * height) / full.height));
+    for (let x = 0; x < full.width; x++) {
+      const ox = Math.min(width - 1, Math.floor((x * width) / full.width));
+      const o = oy * width + ox, i = (y * full.width + x) * 4;
+      for (let c = 0; c < 4; c++) sums[o * 4 + c] += full.data[i + c];
+      counts[o]++;
+    }
+  }
+  const out = new Float32Array(width * height * 4);
+  for (let o = 0; o < counts.length; o++) {
+    for (let c = 0; c < 4; c++) out[o * 4 + c] = counts[o] > 0 ? sums[o * 4 + c] / counts[o] : 0;
+  }
+  return { image: { width, height, data: out }, ...base };
 };
 
 /**
- * STEP 3: Find the Centroid (Center of Mass)
- * We treat "darkness" as mass. 
+ * STEP 2: Convert pixels to intensity
  * Since radiochromic film gets darker with dose, we invert the pixel value.
- * Intensity = 255 - PixelValue (assuming grayscale)
+ * Intensity = 255 - PixelValue (grayscale mean of RGB)
+ * Use a calibration curve (see calibration.ts) to get dose instead.
  */
-export const calculateCentroid = (imgData: ImageData): Point => {
+export const toIntensityMap = (imgData: RgbaImage): IntensityMap => {
   const { width, height, data } = imgData;
+  const out = new Float32Array(width * height);
+
+  for (let p = 0; p < out.length; p++) {
+    const i = p * 4;
+    // Convert RGB to grayscale brightness
+    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    // Invert: Darker = Higher Intensity/Dose
+    out[p] = 255 - brightness;
+  }
+
+  return { width, height, data: out, unit: 'raw', fullScale: 255 };
+};
+
+/**
+ * STEP 3: Find the Centroid (Center of Mass)
+ * We treat intensity (or dose) as mass.
+ */
+export const calculateCentroid = (map: IntensityMap, centroidGate: number = DEFAULT_ANALYSIS_SETTINGS.centroidGate): Point => {
+  const { width, height, data, mask } = map;
+  // Gate is defined on the raw 0-255 scale; rescale it for dose maps
+  const gate = centroidGate * map.fullScale / 255;
   let totalMass = 0;
   let sumX = 0;
   let sumY = 0;
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      // Convert RGB to grayscale brightness
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      // Invert: Darker = Higher Intensity/Dose
-      const intensity = 255 - brightness;
+      if (mask && !mask[y * width + x]) continue;
+      const intensity = data[y * width + x];
       
       // Threshold to remove background noise (simple gate)
-      if (intensity > 20) { 
+      if (intensity > gate) { 
         sumX += x * intensity;
         sumY += y * intensity;
         totalMass += intensity;
@@ -64,33 +97,96 @@ export const calculateCentroid = (imgData: ImageData): Point => {
   };
 };
 
+/**
+ * STEP 3 (manual): Subpixel refinement of a clicked centroid.
+ * Iterates the gated centre of mass inside a window around the estimate; the window radius
+ * is twice the radius of the spot's above-half-maximum area, so the tails and any other
+ * features on the scan do not pull the result.
+ */
+export const refineCentroid = (
+  map: IntensityMap,
+  start: Point,
+  centroidGate: number = DEFAULT_ANALYSIS_SETTINGS.centroidGate,
+  maxIterations: number = 20
+): Point => {
+  const { width, height, data, mask } = map;
+  const gate = centroidGate * map.fullScale / 255;
+  const usable = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && (!mask || mask[y * width + x] === 1);
+
+  // Local peak near the click
+  const search = Math.max(3, Math.round(Math.min(width, height) / 30));
+  let peak = 0;
+  for (let y = Math.round(start.y) - search; y <= Math.round(start.y) + search; y++) {
+    for (let x = Math.round(start.x) - search; x <= Math.round(start.x) + search; x++) {
+      if (usable(x, y) && data[y * width + x] > peak) peak = data[y * width + x];
+    }
+  }
+  if (peak <= gate) return start;
+
+  // Window from the half-maximum area (connected or not, it only sets the scale)
+  const reach = Math.min(width, height) / 4;
+  let aboveHalf = 0;
+  for (let y = Math.max(0, Math.floor(start.y - reach)); y <= Math.min(height - 1, Math.ceil(start.y + reach)); y++) {
+    for (let x = Math.max(0, Math.floor(start.x - reach)); x <= Math.min(width - 1, Math.ceil(start.x + reach)); x++) {
+      if (usable(x, y) && data[y * width + x] >= peak / 2) aboveHalf++;
+    }
+  }
+  const radius = Math.max(3, 2 * Math.sqrt(aboveHalf / Math.PI));
+
+  let c = { ...start };
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let sumX = 0, sumY = 0, total = 0;
+    for (let y = Math.max(0, Math.floor(c.y - radius)); y <= Math.min(height - 1, Math.ceil(c.y + radius)); y++) {
+      for (let x = Math.max(0, Math.floor(c.x - radius)); x <= Math.min(width - 1, Math.ceil(c.x + radius)); x++) {
+        if (!usable(x, y) || (x - c.x) ** 2 + (y - c.y) ** 2 > radius * radius) continue;
+        const w = data[y * width + x] - gate;
+        if (w <= 0) continue;
+        sumX += x * w;
+        sumY += y * w;
+        total += w;
+      }
+    }
+    if (total === 0) break;
+    const next = { x: sumX / total, y: sumY / total };
+    const shift = Math.hypot(next.x - c.x, next.y - c.y);
+    c = next;
+    if (shift < 0.01) break;
+  }
+  return c;
+};
+
 /**
  * STEP 4 & 5: Radial Average and Filtering
  * Generates an Intensity vs Radius profile.
  */
 export const calculateRadialProfile = (
-  imgData: ImageData, 
+  map: IntensityMap, 
   centroid: Point,
-  pixelToMm: number
+  pixelToMm: number,
+  binWidth: number = DEFAULT_ANALYSIS_SETTINGS.binWidth
 ): RadialDataPoint[] => {
-  const { width, height, data } = imgData;
+  const { width, height, data, mask } = map;
   const maxRadius = Math.sqrt(width * width + height * height) / 2;
-  const bins = new Array(Math.ceil(maxRadius)).fill(0);
-  const counts = new Array(Math.ceil(maxRadius)).fill(0);
+  const binCount = Math.ceil(maxRadius / binWidth);
+  const bins = new Array(binCount).fill(0);
+  const squares = new Array(binCount).fill(0);
+  const radii = new Array(binCount).fill(0);
+  const counts = new Array(binCount).fill(0);
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      const intensity = 255 - brightness;
+      if (mask && !mask[y * width + x]) continue;
+      const intensity = data[y * width + x];
 
       const dx = x - centroid.x;
       const dy = y - centroid.y;
       const r = Math.sqrt(dx * dx + dy * dy);
-      const binIdx = Math.floor(r);
+      const binIdx = Math.floor(r / binWidth);
 
       if (binIdx < bins.length) {
         bins[binIdx] += intensity;
+        squares[binIdx] += intensity * intensity;
+        radii[binIdx] += r;
         counts[binIdx]++;
       }
     }
@@ -100,9 +196,13 @@ export const calculateRadialProfile = (
   const profile: RadialDataPoint[] = [];
   for (let i = 0; i < bins.length; i++) {
     if (counts[i] > 0) {
+      const mean = bins[i] / counts[i];
       profile.push({
-        radius: i * pixelToMm, // Convert pixels to mm
-        intensity: bins[i] / counts[i]
+        // Mean r of the pixels in the ring, not its inner edge, which biases σ low by up to a bin
+        radius: (radii[i] / counts[i]) * pixelToMm,
+        intensity: mean,
+        count: counts[i],
+        spread: Math.sqrt(Math.max(squares[i] / counts[i] - mean * mean, 0))
       });
     }
   }
@@ -117,18 +217,22 @@ export const calculateRadialProfile = (
  * y = C + m * x
  * where y = ln(I), x = r^2, m = -1/(2*sigma^2)
  * sigma = sqrt(-1 / (2*m))
+ * The slope's standard error propagates as d(sigma) = sigma^3 * d(m).
  */
-export const fitGaussian = (profile: RadialDataPoint[]): number => {
+export const fitGaussian = (
+  profile: RadialDataPoint[],
+  { fitLow, fitHigh, minFitPoints }: Pick<AnalysisSettings, 'fitLow' | 'fitHigh' | 'minFitPoints'> = DEFAULT_ANALYSIS_SETTINGS
+): RadialGaussianFit => {
   // 1. Find Peak
   let maxIntensity = 0;
   for (const p of profile) {
     if (p.intensity > maxIntensity) maxIntensity = p.intensity;
   }
 
-  // 2. Filter data: Use top 60-70% of peak (Core only, ignore tails/noise)
+  // 2. Filter data: Use the band between fitLow and fitHigh of peak (Core only, ignore tails/noise)
   // Also avoid log(0)
-  const thresholdHigh = maxIntensity * 0.95; // Ignore slight saturation/noise at very tip
-  const thresholdLow = maxIntensity * 0.30; // Cut off tails below 30%
+  const thresholdHigh = maxIntensity * fitHigh;
+  const thresholdLow = maxIntensity * fitLow;
 
   const validPoints = profile.filter(p => 
     p.intensity < thresholdHigh && 
@@ -136,7 +240,16 @@ export const fitGaussian = (profile: RadialDataPoint[]): number => {
     p.radius > 0
   );
 
-  if (validPoints.length < 5) return 0; // Not enough data
+  const pointsInWindow = validPoints.length;
+  const windowRadius: [number, number] | null = pointsInWindow > 0
+    ? [Math.min(...validPoints.map(p => p.radius)), Math.max(...validPoints.map(p => p.radius))]
+    : null;
+  const failed = (failure: string): RadialGaussianFit => ({ sigma: 0, sigmaError: 0, amplitude: 0, pointsInWindow, windowRadius, failure });
+
+  if (validPoints.length < minFitPoints) {
+    const band = `${Math.round(fitLow * 100)}% and ${Math.round(fitHigh * 100)}%`;
+    return failed(`Only ${pointsInWindow} profile point${pointsInWindow === 1 ? '' : 's'} between ${band} of the peak (need ${minFitPoints})`);
+  }
 
   // 3. Linear Regression on ln(I) vs r^2
   let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
@@ -158,15 +271,36 @@ export const fitGaussian = (profile: RadialDataPoint[]): number => {
   // sigma^2 = -1 / (2 * m)
   // sigma = sqrt(-1 / (2 * m))
   
-  if (slope >= 0) return 0; // Not a gaussian (points go up or flat)
+  if (!(slope < 0)) return failed('The profile does not fall off with radius'); // Not a gaussian (points go up or flat)
 
   const sigma = Math.sqrt(-1 / (2 * slope));
-  return sigma;
+
+  // 4. Standard error of the slope from the regression residuals
+  const intercept = (sumY - slope * sumX) / n;
+  let ssr = 0;
+  for (const p of validPoints) {
+    const r = Math.log(p.intensity) - (intercept + slope * p.radius * p.radius);
+    ssr += r * r;
+  }
+  const sxx = sumXX - (sumX * sumX) / n;
+  const slopeError = n > 2 && sxx > 0 ? Math.sqrt(ssr / (n - 2) / sxx) : 0;
+
+  return {
+    sigma,
+    sigmaError: sigma * sigma * sigma * slopeError,
+    amplitude: Math.exp(intercept),
+    pointsInWindow,
+    windowRadius,
+    failure: null
+  };
 };
 
-export const calculateFitCurve = (profile: RadialDataPoint[], sigma: number): RadialDataPoint[] => {
+/**
+ * Evaluates the Gaussian at each profile radius. Without a fitted amplitude the profile peak is used.
+ */
+export const calculateFitCurve = (profile: RadialDataPoint[], sigma: number, amplitude?: number): RadialDataPoint[] => {
    // Find estimate A
-   const maxIntensity = Math.max(...profile.map(p => p.intensity));
+   const maxIntensity = amplitude ?? Math.max(...profile.map(p => p.intensity));
    
    return profile.map(p => ({
      ...p,
@@ -174,38 +308,31 @@ export const calculateFitCurve = (profile: RadialDataPoint[], sigma: number): Ra
    }));
 };
 
-export const getProcessedImageURL = (imgData: ImageData): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = imgData.width;
-  canvas.height = imgData.height;
-  const ctx = canvas.getContext('2d');
-  if(!ctx) return '';
-  ctx.putImageData(imgData, 0, 0);
-  return canvas.toDataURL();
-}
-
 /**
- * Calculates the theoretical scattering angle (RMS) using the Highland approximation.
- * Formula: theta_rms = (17.5 / (beta * p)) * sqrt(x / X0) * (1 + 0.038 * ln(x / X0))
+ * Calculates the theoretical scattering angle (RMS) using the original Highland approximation.
+ * Kept as the 'highland-legacy' model; see utils/scattering for the PDG form and the other models.
+ * Formula: theta_rms = (17.5 z / (beta * p)) * sqrt(x / X0) * (1 + 0.038 * ln(x / X0))
  * 
  * @param thickness (x) in cm
  * @param radLength (X0) in cm
  * @param momentum (p) in MeV/c
  * @param beta (v/c)
+ * @param charge (z) of the beam particle
  * @returns theta_rms in radians
  */
 export const calculateHighlandTheta = (
   thickness: number, 
   radLength: number, 
   momentum: number, 
-  beta: number
+  beta: number,
+  charge: number = 1
 ): number => {
   if (radLength <= 0 || momentum <= 0 || beta <= 0 || thickness <= 0) return 0;
   
   const lx = thickness / radLength; // x / X0
   
   // Constant 17.5 MeV
-  const term1 = 17.5 / (beta * momentum);
+  const term1 = (17.5 * Math.abs(charge)) / (beta * momentum);
   const term2 = Math.sqrt(lx);
   const term3 = 1 + 0.038 * Math.log(lx);
 
@@ -0,0 +1,355 @@
+import { AirBaseline, AirBaselineModel, AnalysisSummary, CalibrationCurve, CalibrationModel, FilmSample, Material, SavedRun, SessionState } from '../types';
+import { AIR_BASELINE_MODELS } from './airBaseline';
+import { CALIBRATION_MODELS, CHANNEL_INDEX } from './calibration';
+import { PARTICLES } from './kinematics';
+import { SCATTERING_MODELS } from './scattering';
+
+export const PROJECT_FILE_EXTENSION = '.bbsa';
+export const PROJECT_FORMAT = 'bbsa-project';
+export const PROJECT_SCHEMA_VERSION = 1;
+
+/**
+ * A complete analysis in one file: session settings, films with embedded scans,
+ * computed results, the saved-run library and the calibration curve, air baseline and
+ * custom material in use.
+ */
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  sessionName: string;
+  session: SessionState;
+  results: AnalysisSummary[];
+  savedRuns: SavedRun[];
+  calibrationCurves: CalibrationCurve[];
+  airBaselines: AirBaseline[];
+  materials: Material[]; // custom materials (not in the library); absent in older files
+}
+
+/**
+ * Raised for files that cannot be imported; the message is meant for the user.
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+// Upgrades from schema N to N + 1, keyed by N. Add an entry whenever the schema version is bumped.
+const MIGRATIONS: Record<number, (data: RawProject) => RawProject> = {};
+
+export const serializeProject = (project: Omit<ProjectFile, 'format' | 'schemaVersion' | 'exportedAt'>): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    ...project
+  };
+  return JSON.stringify(file);
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !Number.isNaN(v);
+const isEmbeddedImage = (v: unknown): boolean => v === null || (typeof v === 'string' && v.startsWith('data:'));
+
+const isNumberList = (v: unknown, length?: number): v is number[] =>
+  Array.isArray(v) && v.every(isNumber) && (length === undefined || v.length === length);
+const isMatrix = (v: unknown, size: number, allowNull = false): boolean =>
+  Array.isArray(v) && v.length === size
+  && v.every(row => Array.isArray(row) && row.length === size && row.every(x => isNumber(x) || (allowNull && x === null)));
+const isPoint = (v: unknown): boolean => isObject(v) && isNumber(v.x) && isNumber(v.y);
+const hasNumbers = (v: Record<string, unknown>, keys: string[]): boolean => keys.every(key => isNumber(v[key]));
+// Fit statistics: JSON writes a NaN or infinite value (e.g. χ² with no degrees of freedom) as null
+const hasStatistics = (v: Record<string, unknown>, keys: string[]): boolean => keys.every(key => v[key] === null || isNumber(v[key]));
+// Absent keys are allowed: older files predate them and defaults fill them in
+const hasOptionalNumbers = (v: Record<string, unknown>, keys: string[]): boolean =>
+  keys.every(key => v[key] === undefined || isNumber(v[key]));
+const isOneOf = (v: unknown, values: readonly unknown[]): boolean => values.includes(v);
+const isNullable = (v: unknown, check: (v: unknown) => boolean): boolean => v === null || v === undefined || check(v);
+
+const expect: (condition: boolean, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new ProjectFileError(`Invalid project file: ${message}`);
+};
+
+// Coefficients each model is evaluated with
+const CALIBRATION_TERMS: Record<CalibrationModel, number> = { polynomial: 3, rational: 2, power: 3 };
+const AIR_BASELINE_TERMS: Record<AirBaselineModel, number> = { linear: 2, quadratic: 3, emittance: 3 };
+
+const isRoi = (v: unknown): boolean =>
+  isObject(v) && isOneOf(v.shape, ['rect', 'circle']) && hasNumbers(v, ['x', 'y', 'width', 'height']);
+
+const isRegion = (v: unknown): boolean =>
+  isObject(v) && isNullable(v.roi, isRoi) && Array.isArray(v.masks) && v.masks.every(isRoi)
+  && isNullable(v.centroid, isPoint) && typeof v.refineCentroid === 'boolean';
+
+const isAxisProfile = (v: unknown): boolean =>
+  isObject(v) && Array.isArray(v.points) && v.points.every(p => isObject(p) && hasNumbers(p, ['position', 'intensity']))
+  && isObject(v.fit) && hasNumbers(v.fit, ['sigma', 'sigmaError', 'center', 'amplitude', 'background'])
+  && hasStatistics(v.fit, ['reducedChiSquare']);
+
+const isAxes = (v: unknown): boolean =>
+  isObject(v) && isNumber(v.bandHalfWidth)
+  && [v.line, v.projection].every(profiles => isObject(profiles) && isAxisProfile(profiles.x) && isAxisProfile(profiles.y));
+
+const isHaloFit = (v: unknown): boolean =>
+  isObject(v) && hasNumbers(v, ['coreSigma', 'coreSigmaError', 'haloSigma', 'haloSigmaError', 'haloFraction', 'haloFractionError'])
+  && hasStatistics(v, ['reducedChiSquare'])
+  && (v.failure === null || typeof v.failure === 'string');
+
+const is2DFit = (v: unknown): boolean =>
+  isObject(v) && hasNumbers(v, ['amplitude', 'background', 'sigmaX', 'sigmaY', 'angle']) && hasStatistics(v, ['reducedChiSquare'])
+  && isPoint(v.centroid) && isObject(v.errors) && hasStatistics(v.errors, ['amplitude', 'background', 'x', 'y', 'sigmaX', 'sigmaY', 'angle'])
+  && isMatrix(v.covariance, 7, true);
+
+const isFit = (v: unknown): boolean =>
+  isObject(v) && hasNumbers(v, ['sigma', 'sigmaError', 'amplitude']) && hasStatistics(v, ['rSquared']) && isPoint(v.centroid)
+  && isNumber(v.pixelToMm) && v.pixelToMm > 0 && isNumber(v.scale) && v.scale > 0
+  && Array.isArray(v.points) && v.points.every(p => isObject(p) && hasNumbers(p, ['radius', 'intensity']))
+  && isNullable(v.fit2D, is2DFit)
+  && (v.background === undefined || (isObject(v.background) && isNumber(v.background.level)))
+  && (v.diagnostics === undefined || (isObject(v.diagnostics) && Array.isArray(v.diagnostics.flags)
+    && v.diagnostics.flags.every(flag => typeof flag === 'string')))
+  && (v.axes === undefined || isAxes(v.axes))
+  && isNullable(v.halo, halo => isObject(halo) && isHaloFit(halo.doubleGaussian) && isHaloFit(halo.rutherford));
+
+const RESULT_FIELDS = ['sampleId', 'distance', 'sigmaAir', 'sigmaMaterial', 'sigmaCorrected', 'theta', 'theoreticalSigma',
+  'sigmaAirError', 'sigmaMaterialError', 'sigmaCorrectedError', 'thetaError'];
+const OPTIONAL_RESULT_FIELDS = ['filmCount', 'sigmaAirStd', 'sigmaMaterialStd', 'sigmaAirX', 'sigmaAirY', 'sigmaMaterialX',
+  'sigmaMaterialY', 'sigmaCorrectedX', 'sigmaCorrectedXError', 'sigmaCorrectedY', 'sigmaCorrectedYError', 'sigmaRatio',
+  'thetaX', 'thetaXError', 'thetaY', 'thetaYError'];
+
+const validateResult = (result: unknown, where: string): AnalysisSummary => {
+  expect(isObject(result) && hasNumbers(result, RESULT_FIELDS) && hasOptionalNumbers(result, OPTIONAL_RESULT_FIELDS)
+    && (result.flags === undefined || (Array.isArray(result.flags) && result.flags.every(flag => typeof flag === 'string')))
+    && ['excluded', 'airFromBaseline'].every(key => result[key] === undefined || typeof result[key] === 'boolean'),
+  `${where} is not a valid result row`);
+  return result as unknown as AnalysisSummary;
+};
+
+const validateCalibrationCurve = (curve: unknown, index: number): CalibrationCurve => {
+  const where = `calibration curve #${index + 1}`;
+  expect(isObject(curve) && typeof curve.id === 'string' && typeof curve.name === 'string', `${where} has no id or name`);
+  expect(isOneOf(curve.channel, Object.keys(CHANNEL_INDEX)), `${where} has an unknown channel`);
+  expect(isOneOf(curve.model, CALIBRATION_MODELS.map(m => m.id)), `${where} has an unknown model`);
+  expect(isNumberList(curve.coefficients, CALIBRATION_TERMS[curve.model as CalibrationModel]), `${where} has invalid coefficients`);
+  expect(isNumber(curve.unexposedPixelValue) && curve.unexposedPixelValue > 0, `${where} has an invalid unexposed pixel value`);
+  expect(Array.isArray(curve.points) && curve.points.every(p => isObject(p) && isNumber(p.dose) && isNumberList(p.pixelValue, 3)),
+    `${where} has invalid calibration points`);
+  expect(isNumber(curve.createdAt) && hasStatistics(curve, ['rSquared']), `${where} has invalid fit statistics`);
+  return curve as unknown as CalibrationCurve;
+};
+
+const validateAirBaseline = (baseline: unknown, index: number): AirBaseline => {
+  const where = `air baseline #${index + 1}`;
+  expect(isObject(baseline) && typeof baseline.id === 'string' && typeof baseline.name === 'string', `${where} has no id or name`);
+  expect(isOneOf(baseline.model, AIR_BASELINE_MODELS.map(m => m.id)), `${where} has an unknown model`);
+  const terms = AIR_BASELINE_TERMS[baseline.model as AirBaselineModel];
+  expect(isNumberList(baseline.coefficients, terms), `${where} has invalid coefficients`);
+  expect(isMatrix(baseline.covariance, terms), `${where} has an invalid covariance`);
+  expect(Array.isArray(baseline.points) && baseline.points.every(p => isObject(p) && hasNumbers(p, ['distance', 'sigma', 'sigmaError'])),
+    `${where} has invalid points`);
+  expect(hasNumbers(baseline, ['ndf', 'createdAt']) && hasStatistics(baseline, ['chiSquare']), `${where} has invalid fit statistics`);
+  return baseline as unknown as AirBaseline;
+};
+
+// Structural checks, shared with the command-line run configs
+export const isMaterial = (v: unknown): boolean =>
+  isObject(v) && typeof v.id === 'string' && typeof v.name === 'string'
+  && hasNumbers(v, ['density', 'radLength', 'zOverA', 'meanExcitation'])
+  && Array.isArray(v.composition) && v.composition.every(c => isObject(c) && typeof c.symbol === 'string' && isNumber(c.massFraction));
+
+export const isBeam = (v: unknown): boolean =>
+  isObject(v) && isOneOf(v.particle, PARTICLES.map(p => p.id)) && isNumber(v.kineticEnergy) && typeof v.manual === 'boolean';
+
+export const isScattering = (v: unknown): boolean =>
+  isObject(v) && hasOptionalNumbers(v, ['lynchDahlF', 'thickTargetSlices'])
+  && (v.models === undefined || (Array.isArray(v.models) && v.models.every(m => isOneOf(m, SCATTERING_MODELS.map(model => model.id)))));
+
+export const isAnalysisSettings = (v: unknown): boolean =>
+  isObject(v) && hasOptionalNumbers(v, ['centroidGate', 'fitLow', 'fitHigh', 'minFitPoints', 'binWidth']);
+
+// True when a validator accepts the value; for reusing the detailed checks as predicates
+const passes = (validate: () => unknown): boolean => {
+  try {
+    validate();
+    return true;
+  } catch (err) {
+    if (err instanceof ProjectFileError) return false;
+    throw err;
+  }
+};
+
+export const isCalibrationCurve = (v: unknown): boolean => passes(() => validateCalibrationCurve(v, 0));
+export const isAirBaseline = (v: unknown): boolean => passes(() => validateAirBaseline(v, 0));
+
+/**
+ * The optional settings objects of a session; each may be absent in files that predate it.
+ */
+const validateSessionSettings = (session: Record<string, unknown>) => {
+  const { beam, scattering, background, analysisSettings, uncertainties } = session;
+  expect(isOneOf(session.materialId, [undefined, null]) || typeof session.materialId === 'string', 'material id must be a string');
+  expect(hasOptionalNumbers(session, ['analysisMaxSize']), 'analysis size must be a number');
+  expect(beam === undefined || isBeam(beam), 'invalid beam settings');
+  expect(scattering === undefined || isScattering(scattering), 'invalid scattering model settings');
+  if (background !== undefined) {
+    expect(isObject(background), 'background settings must be an object');
+    for (const key of ['unexposedImageSrc', 'blankImageSrc']) {
+      expect(isEmbeddedImage(background[key]), `background has an invalid embedded image (${key})`);
+    }
+    expect(isOneOf(background.subtraction, [undefined, 'none', 'unexposed', 'annular']) && hasOptionalNumbers(background, ['annulusSigma']),
+      'invalid background settings');
+  }
+  expect(analysisSettings === undefined || isAnalysisSettings(analysisSettings), 'invalid analysis settings');
+  expect(uncertainties === undefined || (isObject(uncertainties) && hasNumbers(uncertainties, ['distance', 'pixelScale'])
+    && isOneOf(uncertainties.method, ['analytic', 'monteCarlo'])), 'invalid measurement uncertainties');
+  expect(isOneOf(session.thetaMethod, [undefined, 'rms', 'fit']), 'unknown θ method');
+  expect(isOneOf(session.fitModel, [undefined, 'origin', 'intercept']), 'unknown linear fit model');
+  for (const key of ['activeCalibrationId', 'airBaselineId']) {
+    expect(isOneOf(session[key], [undefined, null]) || typeof session[key] === 'string', `${key} must be a string`);
+  }
+  expect(session.excludedDistances === undefined || isNumberList(session.excludedDistances), 'excluded distances must be a list of numbers');
+};
+
+const validateFilm = (film: unknown, index: number): FilmSample => {
+  const where = `film #${index + 1}`;
+  expect(isObject(film), `${where} is not an object`);
+  const f = film;
+  expect(isNumber(f.id), `${where} has no id`);
+  expect(isNumber(f.distanceL), `${where} has no distance`);
+  for (const key of ['airImageSrc', 'materialImageSrc']) {
+    expect(isEmbeddedImage(f[key]), `${where} has an invalid embedded image (${key})`);
+  }
+  for (const key of ['airScale', 'materialScale']) {
+    const scale = f[key];
+    expect(scale === null || scale === undefined || (isObject(scale) && isNumber(scale.mmPerPixel) && scale.mmPerPixel > 0), `${where} has an invalid ${key}`);
+  }
+  for (const key of ['airSigma', 'materialSigma', 'airSystematic', 'materialSystematic']) {
+    expect(isNullable(f[key], isNumber), `${where} has an invalid ${key}`);
+  }
+  for (const key of ['airFit', 'materialFit']) {
+    expect(isNullable(f[key], isFit), `${where} has an invalid ${key}`);
+  }
+  for (const key of ['airRegion', 'materialRegion']) {
+    expect(isNullable(f[key], isRegion), `${where} has an invalid ${key}`);
+  }
+  return {
+    ...f,
+    airSigma: f.airSigma ?? null,
+    materialSigma: f.materialSigma ?? null,
+    airFit: f.airFit ?? null,
+    airRegion: f.airRegion ?? null,
+    airScale: f.airScale ?? null,
+    materialFit: f.materialFit ?? null,
+    materialRegion: f.materialRegion ?? null,
+    materialScale: f.materialScale ?? null
+  } as FilmSample;
+};
+
+const validateRun = (run: unknown, index: number): SavedRun => {
+  const where = `saved run #${index + 1}`;
+  expect(isObject(run), `${where} is not an object`);
+  const r = run;
+  expect(typeof r.id === 'string', `${where} has no id`);
+  expect(typeof r.materialName === 'string', `${where} has no material name`);
+  expect(Array.isArray(r.results), `${where} has no results`);
+  expect(isNumber(r.thetaRms), `${where} has no θ RMS`);
+  const highlandParams = r.highlandParams;
+  expect(isObject(highlandParams), `${where} has no Highland parameters`);
+  const results = r.results.map((result, i) => validateResult(result, `${where}, row ${i + 1}`));
+  expect(isNullable(r.beam, isBeam), `${where} has invalid beam settings`);
+  expect(isNullable(r.material, isMaterial), `${where} has an invalid material`);
+  expect(isNullable(r.linearFit, fit => isObject(fit) && hasNumbers(fit, ['slope', 'slopeError', 'intercept', 'interceptError'])
+    && Array.isArray(fit.residuals)), `${where} has an invalid line fit`);
+  expect(r.modelPredictions === undefined || (Array.isArray(r.modelPredictions)
+    && r.modelPredictions.every(p => isObject(p) && typeof p.model === 'string' && isNullable(p.theta0, isNumber))),
+  `${where} has invalid model predictions`);
+  expect(r.analysisSettings === undefined || isAnalysisSettings(r.analysisSettings), `${where} has invalid analysis settings`);
+  return {
+    ...r,
+    results,
+    name: r.name ?? r.materialName,
+    highlandParams: { charge: 1, ...highlandParams },
+    beam: r.beam ?? null,
+    linearFit: r.linearFit ?? null,
+    material: r.material ?? null
+  } as SavedRun;
+};
+
+/**
+ * Parses and validates a project file, upgrading older schema versions.
+ * Throws ProjectFileError with a user-facing message on any problem.
+ */
+export const parseProject = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('The file is not valid JSON. It may be corrupt or truncated.');
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError(`This is not a Bose Beamline Scatter Analysis project (${PROJECT_FILE_EXTENSION}) file.`);
+  }
+  let project: RawProject = data;
+  let version = project.schemaVersion;
+  if (!isNumber(version) || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid schema version.');
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError(
+      `The project was saved by a newer version of the app (schema ${version}; this version reads up to ${PROJECT_SCHEMA_VERSION}). Please update.`
+    );
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFileError(`Project schema ${version} is too old to be imported.`);
+    }
+    version++;
+    project = { ...migrate(project), schemaVersion: version };
+  }
+
+  const session = project.session;
+  expect(isObject(session), 'missing session');
+  expect(isNumber(session.pixelToMm) && session.pixelToMm > 0, 'pixel scale must be a positive number');
+  expect(typeof session.materialName === 'string', 'missing material name');
+  const highlandParams = session.highlandParams;
+  expect(isObject(highlandParams), 'missing Highland parameters');
+  for (const key of ['thickness', 'density', 'radLength', 'momentum', 'beta']) {
+    expect(isNumber(highlandParams[key]), `Highland parameter "${key}" is not a number`);
+  }
+  expect(hasOptionalNumbers(highlandParams, ['charge']), 'Highland parameter "charge" is not a number');
+  expect(Array.isArray(session.films), 'missing films');
+  validateSessionSettings(session);
+
+  const films = session.films.map(validateFilm);
+  const savedRuns = Array.isArray(project.savedRuns) ? project.savedRuns.map(validateRun) : [];
+  const list = (key: string, label: string): unknown[] => {
+    const value = project[key] ?? [];
+    expect(Array.isArray(value), `${label} must be a list`);
+    return value;
+  };
+  const results = list('results', 'results').map((result, i) => validateResult(result, `result #${i + 1}`));
+  const calibrationCurves = list('calibrationCurves', 'calibration curves').map(validateCalibrationCurve);
+  const airBaselines = list('airBaselines', 'air baselines').map(validateAirBaseline);
+  const materials = list('materials', 'materials').map((material, i) => {
+    expect(isMaterial(material), `material #${i + 1} is not a valid material`);
+    return material as Material;
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: isNumber(project.exportedAt) ? project.exportedAt : 0,
+    sessionName: typeof project.sessionName === 'string' ? project.sessionName : 'Imported Session',
+    session: { ...session, films } as SessionState,
+    results,
+    savedRuns,
+    calibrationCurves,
+    airBaselines,
+    materials
+  };
+};
@@ -0,0 +1,37 @@
+import { FilmRegion, Roi } from '../types';
+
+/**
+ * Whether a point (in the ROI's coordinates) lies inside it.
+ */
+export const roiContains = (roi: Roi, x: number, y: number): boolean => {
+  if (roi.shape === 'circle') {
+    const r = Math.min(roi.width, roi.height) / 2;
+    const dx = x - (roi.x + roi.width / 2);
+    const dy = y - (roi.y + roi.height / 2);
+    return dx * dx + dy * dy <= r * r;
+  }
+  return x >= roi.x && x <= roi.x + roi.width && y >= roi.y && y <= roi.y + roi.height;
+};
+
+/**
+ * Pixel mask for an analysed image of width x height px at `scale` analysed px per original px.
+ * Pixel centres are mapped back to original scan pixels, so the same region selects
+ * the same area at every analysis resolution. Returns undefined if nothing is excluded.
+ */
+export const buildRegionMask = (width: number, height: number, scale: number, region: FilmRegion | null | undefined): Uint8Array | undefined => {
+  if (!region || (!region.roi && region.masks.length === 0)) return undefined;
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const oy = (y + 0.5) / scale;
+    for (let x = 0; x < width; x++) {
+      const ox = (x + 0.5) / scale;
+      const inside = (!region.roi || roiContains(region.roi, ox, oy)) && !region.masks.some(m => roiContains(m, ox, oy));
+      mask[y * width + x] = inside ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+export const isEmptyRegion = (region: FilmRegion | null | undefined): boolean => {
+  return !region || (!region.roi && region.masks.length === 0 && !region.centroid);
+};
@@ -0,0 +1,69 @@
+import { LinearFitModel, LinearFitResult } from '../types';
+
+export interface RegressionPoint {
+  x: number;
+  y: number;
+  yError: number; // 1σ; points with no error are fitted unweighted
+}
+
+/**
+ * Weighted least-squares straight line y = a + b·x (or y = b·x through the origin).
+ * Weights are 1/σ². If any point has no uncertainty the fit falls back to unit weights and
+ * the parameter errors are scaled by sqrt(χ²/ndf), i.e. estimated from the scatter.
+ */
+export const fitLine = (points: RegressionPoint[], model: LinearFitModel): LinearFitResult | null => {
+  const p = model === 'origin' ? 1 : 2;
+  if (points.length < p + 1) return null;
+
+  const weighted = points.every(pt => pt.yError > 0);
+  const w = points.map(pt => weighted ? 1 / (pt.yError * pt.yError) : 1);
+
+  let S = 0, Sx = 0, Sy = 0, Sxx = 0, Sxy = 0;
+  points.forEach((pt, i) => {
+    S += w[i];
+    Sx += w[i] * pt.x;
+    Sy += w[i] * pt.y;
+    Sxx += w[i] * pt.x * pt.x;
+    Sxy += w[i] * pt.x * pt.y;
+  });
+
+  let slope: number, intercept: number, slopeVar: number, interceptVar: number;
+  if (model === 'origin') {
+    if (Sxx <= 0) return null;
+    slope = Sxy / Sxx;
+    intercept = 0;
+    slopeVar = 1 / Sxx;
+    interceptVar = 0;
+  } else {
+    const delta = S * Sxx - Sx * Sx;
+    if (delta <= 0) return null;
+    slope = (S * Sxy - Sx * Sy) / delta;
+    intercept = (Sxx * Sy - Sx * Sxy) / delta;
+    slopeVar = S / delta;
+    interceptVar = Sxx / delta;
+  }
+
+  let chiSquare = 0;
+  const residuals = points.map((pt, i) => {
+    const residual = pt.y - (intercept + slope * pt.x);
+    chiSquare += w[i] * residual * residual;
+    return { x: pt.x, residual, pull: weighted ? residual / pt.yError : 0 };
+  });
+
+  const ndf = points.length - p;
+  const reducedChiSquare = chiSquare / ndf;
+  const errorScale = weighted ? 1 : reducedChiSquare;
+
+  return {
+    model,
+    slope,
+    slopeError: Math.sqrt(slopeVar * errorScale),
+    intercept,
+    interceptError: Math.sqrt(interceptVar * errorScale),
+    chiSquare,
+    ndf,
+    reducedChiSquare,
+    weighted,
+    residuals
+  };
+};
@@ -0,0 +1,103 @@
+import { PixelScale } from '../types';
+import { readTiffPages, readTiffSource, isTiffSource } from './tiff';
+
+export interface Dpi {
+  x: number;
+  y: number;
+}
+
+// Defaults written by image editors and cameras, not scanner resolutions
+const SCREEN_DPI = [72, 96];
+
+// Relative x/y difference still read as square pixels (pHYs rounds to whole pixels per metre)
+const ANISOTROPY_TOLERANCE = 0.005;
+
+const isScreenDpi = (value: number) => SCREEN_DPI.some(d => Math.abs(value - d) < 0.5);
+
+const MM_PER_INCH = 25.4;
+
+export const mmPerPixelFromDpi = (dpi: number): number => MM_PER_INCH / dpi;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * PNG pHYs chunk: pixels per unit, where unit 1 is the metre (0 = aspect ratio only).
+ */
+const readPngDpi = (bytes: Uint8Array, view: DataView): Dpi | null => {
+  let at = PNG_SIGNATURE.length;
+  while (at + 8 <= bytes.length) {
+    const length = view.getUint32(at);
+    const type = ascii(bytes, at + 4, 4);
+    if (type === 'pHYs' && length >= 9 && at + 17 <= bytes.length) {
+      if (bytes[at + 16] !== 1) return null;
+      const perMetre = { x: view.getUint32(at + 8), y: view.getUint32(at + 12) };
+      return { x: (perMetre.x * MM_PER_INCH) / 1000, y: (perMetre.y * MM_PER_INCH) / 1000 };
+    }
+    if (type === 'IDAT' || type === 'IEND') return null; // pHYs must precede the image data
+    at += 12 + length;
+  }
+  return null;
+};
+
+/**
+ * JPEG APP1 EXIF (X/YResolution in IFD0) or, failing that, APP0 JFIF density.
+ */
+const readJpegDpi = (bytes: Uint8Array, view: DataView): Dpi | null => {
+  let jfif: Dpi | null = null;
+  let at = 2;
+  while (at + 4 <= bytes.length && bytes[at] === 0xff) {
+    const marker = bytes[at + 1];
+    if (marker === 0xda || marker === 0xd9) break; // start of scan / end of image
+    const length = view.getUint16(at + 2);
+    const body = at + 4;
+    if (marker === 0xe0 && ascii(bytes, body, 5) === 'JFIF\0') {
+      const units = bytes[body + 7];
+      const x = view.getUint16(body + 8), y = view.getUint16(body + 10);
+      if (units === 1 && x > 0 && y > 0) jfif = { x, y };
+      if (units === 2 && x > 0 && y > 0) jfif = { x: x * 2.54, y: y * 2.54 };
+    }
+    if (marker === 0xe1 && ascii(bytes, body, 6) === 'Exif\0\0') {
+      try {
+        const exif = bytes.slice(body + 6, at + 2 + length).buffer;
+        const dpi = readTiffPages(exif)[0]?.dpi;
+        if (dpi) return dpi;
+      } catch {
+        // Malformed EXIF; fall back to JFIF
+      }
+    }
+    at += 2 + length;
+  }
+  return jfif;
+};
+
+/**
+ * Scan resolution from the file's metadata (PNG pHYs, JPEG EXIF/JFIF, TIFF resolution tags).
+ * Null when the file has none, a screen default like 72 DPI on either axis, or non-square
+ * pixels, which a single mm-per-pixel scale cannot describe.
+ */
+export const readScanDpi = async (src: string): Promise<Dpi | null> => {
+  let dpi: Dpi | null;
+  if (isTiffSource(src)) {
+    dpi = (await readTiffSource(src)).page.dpi;
+  } else {
+    const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) dpi = readPngDpi(bytes, view);
+    else if (bytes[0] === 0xff && bytes[1] === 0xd8) dpi = readJpegDpi(bytes, view);
+    else dpi = null;
+  }
+  if (!dpi || ![dpi.x, dpi.y].every(v => v > 0 && Number.isFinite(v))) return null;
+  if (isScreenDpi(dpi.x) || isScreenDpi(dpi.y)) return null;
+  return Math.abs(dpi.x - dpi.y) <= ANISOTROPY_TOLERANCE * Math.max(dpi.x, dpi.y) ? dpi : null;
+};
+
+/**
+ * The image's own scale from its DPI metadata, or null to use the session default.
+ */
+export const scaleFromMetadata = async (src: string): Promise<PixelScale | null> => {
+  const dpi = await readScanDpi(src).catch(() => null);
+  return dpi ? { mmPerPixel: mmPerPixelFromDpi(dpi.x), source: 'metadata' } : null;
+};
@@ -0,0 +1,307 @@
+import { HighlandParams, Material, MaterialComponent, ModelPrediction, ParticleId, SavedRun, ScatteringModelId, ScatteringSettings } from '../types';
+import { calculateHighlandTheta } from './physics';
+import { ELEMENTS } from './materials';
+import { getParticle } from './kinematics';
+import { betheBlochStoppingPower } from './stopping';
+
+const FINE_STRUCTURE = 1 / 137.035999;
+
+/**
+ * Everything the models may need. Composition is required by Lynch-Dahl and Molière,
+ * which work from Z and A rather than from X0; the thick-target model needs <Z/A> and I
+ * for the energy loss, and the particle mass.
+ */
+export interface ScatteringInput extends HighlandParams {
+  composition: MaterialComponent[] | null;
+  zOverA: number | null;
+  meanExcitation: number | null; // eV
+  mass: number; // MeV/c^2
+}
+
+/**
+ * A session's model input: its Highland parameters with the selected material and particle.
+ */
+export const scatteringInput = (params: HighlandParams, material: Material | null, particle: ParticleId): ScatteringInput => ({
+  ...params,
+  composition: material?.composition ?? null,
+  zOverA: material?.zOverA ?? null,
+  meanExcitation: material?.meanExcitation ?? null,
+  mass: getParticle(particle).mass
+});
+
+export interface ScatteringModel {
+  id: ScatteringModelId;
+  name: string;
+  needsComposition: boolean;
+  color: string;
+  dash: string; // strokeDasharray used where runs share a colour
+}
+
+export const SCATTERING_MODELS: ScatteringModel[] = [
+  { id: 'highland', name: 'Highland (PDG, 13.6 MeV)', needsComposition: false, color: '#a78bfa', dash: '5 5' },
+  { id: 'highland-legacy', name: 'Highland (legacy, 17.5 MeV)', needsComposition: false, color: '#f472b6', dash: '2 4' },
+  { id: 'lynch-dahl', name: 'Lynch–Dahl', needsComposition: true, color: '#22d3ee', dash: '8 3' },
+  { id: 'moliere', name: 'Molière', needsComposition: true, color: '#fb923c', dash: '12 4 2 4' },
+  { id: 'differential-highland', name: 'Differential Highland (thick target)', needsComposition: true, color: '#4ade80', dash: '3 3' }
+];
+
+export const getScatteringModel = (id: ScatteringModelId): ScatteringModel => {
+  return SCATTERING_MODELS.find(m => m.id === id) ?? SCATTERING_MODELS[0];
+};
+
+/**
+ * PDG Highland-Lynch-Dahl form:
+ * theta0 = 13.6 MeV / (beta c p) * z * sqrt(x/X0) * (1 + 0.038 ln(x z^2 / (X0 beta^2)))
+ */
+export const highlandPdgTheta = (p: HighlandParams): number => {
+  const { thickness, radLength, momentum, beta } = p;
+  const z = Math.abs(p.charge || 1);
+  if (radLength <= 0 || momentum <= 0 || beta <= 0 || thickness <= 0) return 0;
+  const lx = thickness / radLength;
+  const theta = (13.6 / (beta * momentum)) * z * Math.sqrt(lx) * (1 + 0.038 * Math.log((lx * z * z) / (beta * beta)));
+  return theta > 0 ? theta : 0;
+};
+
+interface ScreeningParameters {
+  chiC2: number; // characteristic single-scattering angle squared (rad^2)
+  chiA2: number; // screening angle squared (rad^2)
+}
+
+/**
+ * Molière's chi_c^2 and chi_a^2 for a mixture, as parameterised by Lynch & Dahl (NIM B58, 1991):
+ * chi_c^2 = 0.157 z^2 X / (p beta)^2 * sum w Z(Z+1)/A, with X in g/cm^2 and p in MeV/c;
+ * chi_a^2 = 2.007e-5 Z^(2/3) (1 + 3.34 (Z z alpha / beta)^2) / p^2, log-averaged with weights w Z(Z+1)/A.
+ */
+const screeningParameters = (input: ScatteringInput): ScreeningParameters | null => {
+  const { thickness, density, momentum, beta, composition } = input;
+  const z = Math.abs(input.charge || 1);
+  if (!composition || composition.length === 0) return null;
+  if (!(thickness > 0 && density > 0 && momentum > 0 && beta > 0)) return null;
+
+  const total = composition.reduce((s, c) => s + c.massFraction, 0);
+  if (!(total > 0)) return null;
+
+  let zzSum = 0, lnChiA2Sum = 0;
+  for (const c of composition) {
+    const el = ELEMENTS[c.symbol];
+    if (!el) return null;
+    const w = c.massFraction / total;
+    const weight = (w * el.Z * (el.Z + 1)) / el.A;
+    const coulomb = (el.Z * z * FINE_STRUCTURE) / beta;
+    const chiA2 = (2.007e-5 * Math.pow(el.Z, 2 / 3) * (1 + 3.34 * coulomb * coulomb)) / (momentum * momentum);
+    zzSum += weight;
+    lnChiA2Sum += weight * Math.log(chiA2);
+  }
+
+  const X = thickness * density; // g/cm^2
+  const chiC2 = (0.157 * z * z * X * zzSum) / (momentum * beta) ** 2;
+  return { chiC2, chiA2: Math.exp(lnChiA2Sum / zzSum) };
+};
+
+/**
+ * Lynch-Dahl Gaussian width fitted to the central fraction F of the Molière distribution:
+ * theta0^2 = chi_c^2 / (1 + F^2) * ((1 + nu)/nu * ln(1 + nu) - 1), nu = Omega / (2 (1 - F)),
+ * Omega = chi_c^2 / (1.167 chi_a^2) the mean number of scatters.
+ */
+export const lynchDahlTheta = (input: ScatteringInput, F: number = 0.98): number | null => {
+  const s = screeningParameters(input);
+  if (!s || !(F > 0 && F < 1)) return null;
+  const omega = s.chiC2 / (1.167 * s.chiA2);
+  const nu = (0.5 * omega) / (1 - F);
+  const theta2 = (s.chiC2 / (1 + F * F)) * (((1 + nu) / nu) * Math.log(1 + nu) - 1);
+  return theta2 > 0 ? Math.sqrt(theta2) : null;
+};
+
+export interface MoliereParameters {
+  chiC: number; // rad
+  B: number; // root of B - ln B = ln(Omega)
+}
+
+/**
+ * Molière's expansion parameter B from B - ln B = b, b = ln(chi_c^2 / (1.167 chi_a^2)).
+ * The expansion needs B of about 4.5 or more (roughly 20+ scatters); thinner targets return null.
+ */
+export const moliereParameters = (input: ScatteringInput): MoliereParameters | null => {
+  const s = screeningParameters(input);
+  if (!s) return null;
+  const b = Math.log(s.chiC2 / (1.167 * s.chiA2));
+  if (!(b > 1)) return null;
+
+  // Newton on g(B) = B - ln B - b, starting on the large-B branch
+  let B = Math.max(b + Math.log(b), 1.5);
+  for (let i = 0; i < 50; i++) {
+    const step = (B - Math.log(B) - b) / (1 - 1 / B);
+    B -= step;
+    if (Math.abs(step) < 1e-10 * B) break;
+  }
+  if (!(B > 1)) return null;
+  return { chiC: Math.sqrt(s.chiC2), B };
+};
+
+/**
+ * Projected Gaussian-equivalent width of the Molière distribution, theta0 = chi_c sqrt((B - 1.2) / 2).
+ */
+export const moliereTheta = (input: ScatteringInput): number | null => {
+  const m = moliereParameters(input);
+  if (!m || m.B < 4.5) return null;
+  return m.chiC * Math.sqrt((m.B - 1.2) / 2);
+};
+
+/**
+ * Bessel J0 (Numerical Recipes rational approximations, |error| < 1e-8).
+ */
+const besselJ0 = (x: number): number => {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const num = 57568490574.0 + y * (-13362590354.0 + y * (651619640.7 + y * (-11214424.18 + y * (77392.33017 + y * -184.9052456))));
+    const den = 57568490411.0 + y * (1029532985.0 + y * (9494680.718 + y * (59272.64853 + y * (267.8532712 + y))));
+    return num / den;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 0.785398164;
+  const p = 1 + y * (-0.1098628627e-2 + y * (0.2734510407e-4 + y * (-0.2073370639e-5 + y * 0.2093887211e-6)));
+  const q = -0.1562499995e-1 + y * (0.1430488765e-3 + y * (-0.6911147651e-5 + y * (0.7621095161e-6 - y * 0.934935152e-7)));
+  return Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+};
+
+const MOLIERE_U_MAX = 16; // exp(-u^2/4) < 1e-27 beyond
+const MOLIERE_STEPS = 800; // even, for Simpson's rule
+
+/**
+ * Molière's correction functions f1 and f2 at reduced angle t:
+ * f_n(t) = 1/n! * integral_0^inf u J0(t u) exp(-u^2/4) [u^2/4 ln(u^2/4)]^n du.
+ */
+const moliereCorrections = (t: number): [number, number] => {
+  const h = MOLIERE_U_MAX / MOLIERE_STEPS;
+  let f1 = 0, f2 = 0;
+  for (let i = 1; i <= MOLIERE_STEPS; i++) {
+    const u = i * h;
+    const q = (u * u) / 4;
+    const base = u * besselJ0(t * u) * Math.exp(-q);
+    const l = q * Math.log(q);
+    const w = i === MOLIERE_STEPS ? 1 : i % 2 === 1 ? 4 : 2;
+    f1 += w * base * l;
+    f2 += w * base * l * l;
+  }
+  return [(f1 * h) / 3, (f2 * h) / 6];
+};
+
+/**
+ * Molière's space-angle distribution f(theta), normalised so that integral f(theta) 2 pi theta dtheta = 1:
+ * f = 1 / (2 pi chi_c^2 B) * [f0(t) + f1(t)/B + f2(t)/B^2], t = theta / (chi_c sqrt(B)), f0 = 2 exp(-t^2).
+ * The 1/B terms carry the single-scattering tail that a Gaussian misses.
+ */
+export const moliereDistribution = (params: MoliereParameters, thetas: number[]): number[] => {
+  const { chiC, B } = params;
+  const norm = 1 / (2 * Math.PI * chiC * chiC * B);
+  return thetas.map(theta => {
+    const t = theta / (chiC * Math.sqrt(B));
+    const [f1, f2] = moliereCorrections(t);
+    return norm * (2 * Math.exp(-t * t) + f1 / B + f2 / (B * B));
+  });
+};
+
+/**
+ * Space-angle density of a 2D Gaussian with projected width theta0, for comparison with Molière.
+ */
+export const gaussianDistribution = (theta0: number, thetas: number[]): number[] => {
+  const norm = 1 / (2 * Math.PI * theta0 * theta0);
+  return thetas.map(theta => norm * Math.exp(-(theta * theta) / (2 * theta0 * theta0)));
+};
+
+const GOTTSCHALK_ES = 15.0; // MeV
+const STOPPED_ENERGY = 1.0; // MeV; Bethe-Bloch is no longer valid below this
+
+export interface ThickTargetSlice {
+  depth: number; // cm, at the exit of the slice
+  kineticEnergy: number; // MeV
+  theta0: number; // rad, accumulated
+}
+
+export interface ThickTargetResult {
+  theta0: number; // projected RMS angle at the exit (rad)
+  entranceEnergy: number; // MeV
+  exitEnergy: number; // MeV, 0 if the particle stops
+  stopped: boolean;
+  slices: ThickTargetSlice[];
+}
+
+/**
+ * Steps the beam through the target in slices, losing energy by Bethe-Bloch (midpoint rule)
+ * and accumulating theta0^2 with Gottschalk's differential Highland scattering power
+ * (NIM B 268, 2010): T_dH = f_dH(x/X0) z^2 (E_s / pv)^2 / X0, E_s = 15 MeV,
+ * f_dH = 0.970 (1 + ln(x/X0)/20.7) (1 + ln(x/X0)/22.7), x the depth reached so far.
+ * The entrance kinetic energy follows from p and the particle mass.
+ */
+export const thickTargetScattering = (input: ScatteringInput, slices: number = 200): ThickTargetResult | null => {
+  const { thickness, density, radLength, momentum, mass, zOverA, meanExcitation } = input;
+  const z = Math.abs(input.charge || 1);
+  if (zOverA === null || meanExcitation === null) return null;
+  if (!(thickness > 0 && density > 0 && radLength > 0 && momentum > 0 && mass > 0)) return null;
+
+  const n = Number.isFinite(slices) ? Math.max(1, Math.round(slices)) : 200;
+  const dx = thickness / n;
+  const entranceEnergy = Math.sqrt(momentum * momentum + mass * mass) - mass;
+  const pv = (T: number) => (T * (T + 2 * mass)) / (T + mass);
+  const stopping = (T: number) => betheBlochStoppingPower(T, mass, z, zOverA, meanExcitation) * density; // MeV/cm
+  const fdH = (x: number) => {
+    const l = Math.log(x / radLength);
+    return Math.max(0, 0.970 * (1 + l / 20.7) * (1 + l / 22.7));
+  };
+
+  let T = entranceEnergy;
+  let theta2 = 0;
+  const result: ThickTargetSlice[] = [];
+  for (let i = 0; i < n; i++) {
+    const tMid = T - (stopping(T) * dx) / 2;
+    if (tMid <= STOPPED_ENERGY) {
+      return { theta0: Math.sqrt(theta2), entranceEnergy, exitEnergy: 0, stopped: true, slices: result };
+    }
+    const xMid = (i + 0.5) * dx;
+    theta2 += fdH(xMid) * ((GOTTSCHALK_ES * z) / pv(tMid)) ** 2 * (dx / radLength);
+    T -= stopping(tMid) * dx;
+    if (T <= STOPPED_ENERGY) {
+      return { theta0: Math.sqrt(theta2), entranceEnergy, exitEnergy: 0, stopped: true, slices: result };
+    }
+    result.push({ depth: (i + 1) * dx, kineticEnergy: T, theta0: Math.sqrt(theta2) });
+  }
+  return { theta0: Math.sqrt(theta2), entranceEnergy, exitEnergy: T, stopped: false, slices: result };
+};
+
+export const predictTheta = (model: ScatteringModelId, input: ScatteringInput, settings: ScatteringSettings): number | null => {
+  switch (model) {
+    case 'highland':
+      return highlandPdgTheta(input);
+    case 'highland-legacy':
+      return calculateHighlandTheta(input.thickness, input.radLength, input.momentum, input.beta, input.charge);
+    case 'lynch-dahl':
+      return lynchDahlTheta(input, settings.lynchDahlF);
+    case 'moliere':
+      return moliereTheta(input);
+    case 'differential-highland': {
+      // A particle that stops in the target leaves no spot to compare with
+      const thick = thickTargetScattering(input, settings.thickTargetSlices);
+      return thick && !thick.stopped ? thick.theta0 : null;
+    }
+  }
+};
+
+export const predictAll = (input: ScatteringInput, settings: ScatteringSettings): ModelPrediction[] => {
+  return settings.models.map(model => ({ model, theta0: predictTheta(model, input, settings) }));
+};
+
+/**
+ * The reference prediction: the first selected model that could be evaluated.
+ */
+export const primaryPrediction = (predictions: ModelPrediction[]): ModelPrediction | null => {
+  return predictions.find(p => p.theta0 !== null && p.theta0 > 0) ?? null;
+};
+
+/**
+ * Runs saved before model selection only stored the legacy Highland value.
+ */
+export const savedRunPredictions = (run: SavedRun): ModelPrediction[] => {
+  return run.modelPredictions ?? [{ model: 'highland-legacy', theta0: run.theoreticalTheta }];
+};
@@ -0,0 +1,127 @@
+import { AnalysisSettings, Point, RadialDataPoint, RgbaImage } from '../types';
+import { calculateRadialProfile, fitGaussian, DEFAULT_ANALYSIS_SETTINGS } from './physics';
+import { BackgroundReferences, FilmAnalysisOptions, prepareFilm } from './analysis';
+
+export type ScannedParameter = 'fitLow' | 'fitHigh' | 'centroidGate' | 'binWidth';
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  steps: number; // values from min to max inclusive; 1 = min only
+}
+
+export type SensitivityRanges = Record<ScannedParameter, ParameterRange>;
+
+export interface SensitivityPoint extends Record<ScannedParameter, number> {
+  sigma: number; // mm, 0 if the fit failed
+  sigmaError: number;
+}
+
+export interface SensitivityResult {
+  points: SensitivityPoint[];
+  nominal: number; // σ with the session settings, mm
+  mean: number; // over the successful fits
+  spread: number; // sample standard deviation over the successful fits: the systematic estimate
+  min: number;
+  max: number;
+  failed: number;
+}
+
+export const SCANNED_PARAMETERS: { key: ScannedParameter; label: string; unit: string }[] = [
+  { key: 'fitLow', label: 'Fit band low', unit: '× peak' },
+  { key: 'fitHigh', label: 'Fit band high', unit: '× peak' },
+  { key: 'centroidGate', label: 'Centroid gate', unit: '8-bit' },
+  { key: 'binWidth', label: 'Radial bin', unit: 'px' }
+];
+
+export const DEFAULT_SENSITIVITY_RANGES: SensitivityRanges = {
+  fitLow: { min: 0.2, max: 0.4, steps: 5 },
+  fitHigh: { min: 0.9, max: 0.98, steps: 3 },
+  centroidGate: { min: 10, max: 40, steps: 4 },
+  binWidth: { min: 0.5, max: 2, steps: 4 }
+};
+
+export const MAX_COMBINATIONS = 5000;
+
+export const rangeValues = ({ min, max, steps }: ParameterRange): number[] => {
+  const n = Math.max(1, Math.round(steps));
+  return n === 1 || max === min ? [min] : Array.from({ length: n }, (_, i) => min + ((max - min) * i) / (n - 1));
+};
+
+export const combinationCount = (ranges: SensitivityRanges): number =>
+  SCANNED_PARAMETERS.reduce((n, p) => n * rangeValues(ranges[p.key]).length, 1);
+
+/**
+ * Re-runs the centroid, radial profile and core fit of one film for every combination of the
+ * scanned settings. Map preparation (calibration, masks, background) uses the session settings
+ * and is done once; centroids and profiles are shared between combinations that allow it.
+ * Band combinations with low ≥ high are skipped. `onProgress` gets the fraction done after each profile.
+ */
+export const scanSensitivity = (
+  image: RgbaImage,
+  options: FilmAnalysisOptions,
+  references: BackgroundReferences,
+  ranges: SensitivityRanges,
+  onProgress?: (fraction: number) => void
+): SensitivityResult => {
+  if (combinationCount(ranges) > MAX_COMBINATIONS) {
+    throw new Error(`Too many combinations (${combinationCount(ranges)}); the limit is ${MAX_COMBINATIONS}`);
+  }
+  const settings: AnalysisSettings = options.settings ?? DEFAULT_ANALYSIS_SETTINGS;
+  const { map, findCentroid, pixelToMm } = prepareFilm(image, options, references);
+
+  const centroids = new Map<number, Point>();
+  const centroidFor = (gate: number) => {
+    if (!centroids.has(gate)) centroids.set(gate, findCentroid(map, gate));
+    return centroids.get(gate)!;
+  };
+  const profiles = new Map<string, RadialDataPoint[]>();
+  const profileFor = (gate: number, binWidth: number) => {
+    const key = `${gate}|${binWidth}`;
+    if (!profiles.has(key)) profiles.set(key, calculateRadialProfile(map, centroidFor(gate), pixelToMm, binWidth));
+    return profiles.get(key)!;
+  };
+
+  const points: SensitivityPoint[] = [];
+  const profileCount = rangeValues(ranges.centroidGate).length * rangeValues(ranges.binWidth).length;
+  for (const centroidGate of rangeValues(ranges.centroidGate)) {
+    for (const binWidth of rangeValues(ranges.binWidth)) {
+      const profile = profileFor(centroidGate, binWidth);
+      for (const fitLow of rangeValues(ranges.fitLow)) {
+        for (const fitHigh of rangeValues(ranges.fitHigh)) {
+          if (fitLow >= fitHigh) continue;
+          const { sigma, sigmaError } = fitGaussian(profile, { fitLow, fitHigh, minFitPoints: settings.minFitPoints });
+          points.push({ fitLow, fitHigh, centroidGate, binWidth, sigma, sigmaError });
+        }
+      }
+      onProgress?.(profiles.size / profileCount);
+    }
+  }
+
+  const nominal = fitGaussian(profileFor(settings.centroidGate, settings.binWidth), settings).sigma;
+  const sigmas = points.filter(p => p.sigma > 0).map(p => p.sigma);
+  const n = sigmas.length;
+  const mean = n > 0 ? sigmas.reduce((s, v) => s + v, 0) / n : 0;
+  return {
+    points,
+    nominal,
+    mean,
+    spread: n > 1 ? Math.sqrt(sigmas.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : 0,
+    min: n > 0 ? Math.min(...sigmas) : 0,
+    max: n > 0 ? Math.max(...sigmas) : 0,
+    failed: points.length - n
+  };
+};
+
+/**
+ * Mean, minimum and maximum σ at each value of one parameter, over all the others.
+ */
+export const marginal = (points: SensitivityPoint[], key: ScannedParameter): { value: number; mean: number; min: number; max: number }[] => {
+  const groups = new Map<number, number[]>();
+  for (const p of points) {
+    if (p.sigma > 0) groups.set(p[key], [...(groups.get(p[key]) ?? []), p.sigma]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([value, s]) => ({ value, mean: s.reduce((t, v) => t + v, 0) / s.length, min: Math.min(...s), max: Math.max(...s) }));
+};
@@ -0,0 +1,78 @@
+import { BackgroundSettings, BeamSettings, FilmSample, ScatteringSettings, SessionState } from '../types';
+import { SAMPLE_SIZE, DEFAULT_ANALYSIS_SETTINGS } from './physics';
+import { beamKinematics } from './kinematics';
+import { newFilm } from './stations';
+
+// Initialize 10 empty slots
+export const DEFAULT_STATION_STEP = 100; // mm
+
+const INITIAL_FILMS: FilmSample[] = Array.from({ length: 10 }, (_, i) => newFilm(i + 1, (i + 1) * DEFAULT_STATION_STEP));
+
+const DEFAULT_BEAM: BeamSettings = {
+  particle: 'proton',
+  kineticEnergy: 150, // MeV
+  manual: false
+};
+const DEFAULT_KINEMATICS = beamKinematics(DEFAULT_BEAM);
+
+const DEFAULT_SCATTERING: ScatteringSettings = {
+  models: ['highland'],
+  lynchDahlF: 0.98,
+  thickTargetSlices: 200
+};
+
+const DEFAULT_BACKGROUND: BackgroundSettings = {
+  unexposedImageSrc: null,
+  blankImageSrc: null,
+  subtraction: 'none',
+  annulusSigma: 3
+};
+
+export const DEFAULT_SESSION_STATE: SessionState = {
+  pixelToMm: 0.2,
+  analysisMaxSize: SAMPLE_SIZE,
+  materialName: "Unknown Material",
+  materialId: null,
+  highlandParams: {
+    thickness: 1.0, // cm
+    density: 1.0, // g/cm^3
+    radLength: 36.08, // cm (approx water/tissue as default)
+    momentum: DEFAULT_KINEMATICS.momentum, // MeV/c
+    beta: DEFAULT_KINEMATICS.beta, // v/c
+    charge: DEFAULT_KINEMATICS.charge
+  },
+  beam: DEFAULT_BEAM,
+  scattering: DEFAULT_SCATTERING,
+  background: DEFAULT_BACKGROUND,
+  analysisSettings: DEFAULT_ANALYSIS_SETTINGS,
+  uncertainties: {
+    distance: 1, // mm
+    pixelScale: 1, // %
+    method: 'analytic'
+  },
+  thetaMethod: 'rms',
+  fitModel: 'intercept',
+  activeCalibrationId: null,
+  airBaselineId: null,
+  excludedDistances: [],
+  films: INITIAL_FILMS
+};
+
+/**
+ * A complete session state from a stored one; sessions stored by older versions may lack newer fields.
+ */
+export const restoreSessionState = (stored: Partial<SessionState>): SessionState => {
+  const state = { ...DEFAULT_SESSION_STATE, ...stored };
+  return {
+    ...state,
+    highlandParams: { ...DEFAULT_SESSION_STATE.highlandParams, ...state.highlandParams },
+    // Sessions from before the beam settings entered p and beta by hand; keep those values
+    beam: stored.beam ?? { ...DEFAULT_BEAM, manual: true },
+    // ...and compared against the legacy Highland constant
+    scattering: stored.scattering
+      ? { ...DEFAULT_SCATTERING, ...stored.scattering }
+      : { ...DEFAULT_SCATTERING, models: ['highland-legacy'] },
+    background: { ...DEFAULT_BACKGROUND, ...state.background },
+    analysisSettings: { ...DEFAULT_ANALYSIS_SETTINGS, ...state.analysisSettings }
+  };
+};
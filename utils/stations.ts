@@ -0,0 +1,136 @@
+import { FilmSample, GaussianFitResult, ProfileAxis } from '../types';
+import { FilmMeasurement } from './uncertainty';
+
+export const newFilm = (id: number, distanceL: number): FilmSample => ({
+  id,
+  distanceL,
+  airImageSrc: null,
+  airSigma: null,
+  airFit: null,
+  airRegion: null,
+  airScale: null,
+  materialImageSrc: null,
+  materialSigma: null,
+  materialFit: null,
+  materialRegion: null,
+  materialScale: null
+});
+
+/**
+ * Next free station id (ids are stable across reordering).
+ */
+export const nextFilmId = (films: FilmSample[]): number => films.reduce((max, f) => Math.max(max, f.id), 0) + 1;
+
+/**
+ * All film stations at one distance L (repeated exposures), reduced to a single measurement.
+ */
+export interface DistanceGroup {
+  distance: number;
+  filmIds: number[];
+  measurement: FilmMeasurement; // mean widths and their errors
+  sigmaAirStd: number; // sample standard deviation across repeats, 0 for a single film
+  sigmaMaterialStd: number;
+  axes: Record<ProfileAxis, FilmMeasurement> | null; // projection widths, null without axis fits
+}
+
+interface Width {
+  value: number;
+  error: number; // fit, plus any systematic from a sensitivity scan
+}
+
+/**
+ * Mean of repeated widths. Its error is the larger of the observed scatter (std/√n)
+ * and the fit errors propagated to the mean (√Σδ²/n); for one film, that film's fit error.
+ */
+const combineWidths = (widths: Width[]) => {
+  const n = widths.length;
+  if (n === 0) return { mean: 0, std: 0, error: 0 };
+  const mean = widths.reduce((s, w) => s + w.value, 0) / n;
+  const std = n > 1 ? Math.sqrt(widths.reduce((s, w) => s + (w.value - mean) ** 2, 0) / (n - 1)) : 0;
+  const fitError = Math.sqrt(widths.reduce((s, w) => s + w.error ** 2, 0)) / n;
+  return { mean, std, error: Math.max(fitError, std / Math.sqrt(n)) };
+};
+
+// Stations sharing a scan (a clone keeps its source's scans) measure it once, not as independent repeats
+const measuredOnce = (films: FilmSample[], type: 'air' | 'material'): FilmSample[] => {
+  const src = (f: FilmSample) => (type === 'air' ? f.airImageSrc : f.materialImageSrc);
+  const sigma = (f: FilmSample) => (type === 'air' ? f.airSigma : f.materialSigma);
+  const measured = films.filter(f => sigma(f));
+  return measured.filter((f, i) => !src(f) || measured.findIndex(g => src(g) === src(f)) === i);
+};
+
+const axisWidths = (fits: (GaussianFitResult | null)[], axis: ProfileAxis): Width[] => fits
+  .map(fit => fit?.axes?.projection[axis].fit)
+  .filter(f => f !== undefined && f.sigma > 0)
+  .map(f => ({ value: f!.sigma, error: f!.sigmaError }));
+
+/**
+ * Groups the stations by distance, in ascending L. Air and material widths are averaged
+ * separately over the films that have them, radially and per axis.
+ */
+export const groupByDistance = (films: FilmSample[]): DistanceGroup[] => {
+  const byDistance = new Map<number, FilmSample[]>();
+  for (const film of films) {
+    byDistance.set(film.distanceL, [...(byDistance.get(film.distanceL) ?? []), film]);
+  }
+
+  return [...byDistance.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([distance, members]) => {
+      const airFilms = measuredOnce(members, 'air');
+      const materialFilms = measuredOnce(members, 'material');
+      const air = combineWidths(airFilms
+        .map(f => ({ value: f.airSigma!, error: Math.hypot(f.airFit?.sigmaError || 0, f.airSystematic || 0) })));
+      const material = combineWidths(materialFilms
+        .map(f => ({ value: f.materialSigma!, error: Math.hypot(f.materialFit?.sigmaError || 0, f.materialSystematic || 0) })));
+      const axisMeasurement = (axis: ProfileAxis): FilmMeasurement => {
+        const airAxis = combineWidths(axisWidths(airFilms.map(f => f.airFit), axis));
+        const materialAxis = combineWidths(axisWidths(materialFilms.map(f => f.materialFit), axis));
+        return {
+          distance,
+          sigmaAir: airAxis.mean,
+          sigmaAirError: airAxis.error,
+          sigmaMaterial: materialAxis.mean,
+          sigmaMaterialError: materialAxis.error
+        };
+      };
+      const hasAxes = members.some(f => f.airFit?.axes || f.materialFit?.axes);
+      return {
+        distance,
+        filmIds: members.map(f => f.id),
+        measurement: {
+          distance,
+          sigmaAir: air.mean,
+          sigmaAirError: air.error,
+          sigmaMaterial: material.mean,
+          sigmaMaterialError: material.error
+        },
+        sigmaAirStd: air.std,
+        sigmaMaterialStd: material.std,
+        axes: hasAxes ? { x: axisMeasurement('x'), y: axisMeasurement('y') } : null
+      };
+    });
+};
+
+/**
+ * Results rows are excluded by distance. After stations are moved or removed, an exclusion follows
+ * its stations to a new L that no other station uses, and is dropped once no station is left at
+ * its distance, so that it cannot apply again to a station later set to that value.
+ */
+export const remapExclusions = (excluded: number[], before: FilmSample[], after: FilmSample[]): number[] => {
+  const next = new Set<number>();
+  for (const distance of excluded) {
+    if (after.some(f => f.distanceL === distance)) {
+      next.add(distance);
+      continue;
+    }
+    const ids = before.filter(f => f.distanceL === distance).map(f => f.id);
+    const moved = after.filter(f => ids.includes(f.id));
+    const targets = new Set(moved.map(f => f.distanceL));
+    if (targets.size !== 1) continue;
+    const [target] = targets;
+    const joined = after.some(f => f.distanceL === target && !ids.includes(f.id));
+    if (!joined) next.add(target);
+  }
+  return [...next];
+};
@@ -0,0 +1,33 @@
+const K = 0.307075; // 4 pi N_A r_e^2 m_e c^2 (MeV cm^2 / mol)
+const ELECTRON_MASS = 0.51099895; // MeV/c^2
+
+/**
+ * Mass stopping power from the Bethe-Bloch formula (MeV cm^2/g):
+ * -dE/dx = K z^2 (Z/A) / beta^2 * [1/2 ln(2 m_e c^2 beta^2 gamma^2 T_max / I^2) - beta^2].
+ * Shell and density-effect corrections are left out; they are below ~1% for protons
+ * between a few MeV and a few hundred MeV.
+ *
+ * @param kineticEnergy T in MeV
+ * @param mass particle mass in MeV/c^2
+ * @param charge z of the particle
+ * @param zOverA <Z/A> of the material (mol/g)
+ * @param meanExcitation I in eV
+ */
+export const betheBlochStoppingPower = (
+  kineticEnergy: number,
+  mass: number,
+  charge: number,
+  zOverA: number,
+  meanExcitation: number
+): number => {
+  if (!(kineticEnergy > 0 && mass > 0 && zOverA > 0 && meanExcitation > 0)) return 0;
+  const gamma = 1 + kineticEnergy / mass;
+  const beta2 = 1 - 1 / (gamma * gamma);
+  const bg2 = beta2 * gamma * gamma;
+  const ratio = ELECTRON_MASS / mass;
+  const tMax = (2 * ELECTRON_MASS * bg2) / (1 + 2 * gamma * ratio + ratio * ratio);
+  const I = meanExcitation * 1e-6; // MeV
+  const bracket = 0.5 * Math.log((2 * ELECTRON_MASS * bg2 * tMax) / (I * I)) - beta2;
+  // The formula breaks down near the Bragg peak; never let it go negative there
+  return bracket > 0 ? (K * charge * charge * zOverA * bracket) / beta2 : 0;
+};
@@ -0,0 +1,115 @@
+import { AirBaseline, AnalysisSummary, FilmSample, LinearFitModel, LinearFitResult, MeasurementUncertainties, ProfileAxis } from '../types';
+import { DistanceGroup } from './stations';
+import { FilmMeasurement, PropagationResult, propagateUncertainties } from './uncertainty';
+import { withAirBaseline } from './airBaseline';
+import { distanceFlags } from './diagnostics';
+import { fitLine } from './regression';
+
+export interface SummaryInput {
+  films: FilmSample[];
+  groups: DistanceGroup[]; // groupByDistance(films)
+  airBaseline: AirBaseline | null; // supplies sigma_air at every distance when set
+  uncertainties: MeasurementUncertainties;
+  excludedDistances: number[];
+  theoreticalTheta: number; // rad, reference model
+  fitModel: LinearFitModel;
+}
+
+export interface SessionSummary {
+  results: AnalysisSummary[];
+  thetaRms: number; // over the included rows
+  thetaRmsError: number;
+  axisThetaRms: Record<ProfileAxis, { value: number; error: number }> | null; // from the band projections
+  linearFit: LinearFitResult | null;
+}
+
+const NO_WIDTHS = { sigmaAir: 0, sigmaAirError: 0, sigmaMaterial: 0, sigmaMaterialError: 0 };
+
+/**
+ * Steps 7-9: air subtraction with uncertainties, θ per distance and θ_RMS, per axis as well,
+ * and the straight-line fit of σ corrected vs L. Shared by the web UI and the CLI.
+ */
+export const summarizeSession = ({
+  films, groups, airBaseline, uncertainties, excludedDistances, theoreticalTheta, fitModel
+}: SummaryInput): SessionSummary => {
+  const measurements = groups.map(g => airBaseline ? withAirBaseline(g.measurement, airBaseline) : g.measurement);
+  const propagation = propagateUncertainties(measurements, uncertainties);
+
+  // θ_RMS only from the rows the user kept; per-row values do not depend on the others
+  const excluded = groups.map(g => excludedDistances.includes(g.distance));
+  const included: PropagationResult = excluded.some(Boolean)
+    ? propagateUncertainties(measurements.filter((_, i) => !excluded[i]), uncertainties)
+    : propagation;
+
+  // The same subtraction per axis on the band projections; an air baseline is radial and serves both axes
+  const forAxis = (axis: ProfileAxis) => {
+    const inputs: FilmMeasurement[] = groups.map(g => {
+      const m = g.axes?.[axis] ?? { distance: g.distance, ...NO_WIDTHS };
+      return airBaseline ? withAirBaseline(m, airBaseline) : m;
+    });
+    const kept = propagateUncertainties(inputs.filter((_, i) => groups[i].axes && !excluded[i]), uncertainties);
+    return { inputs, films: propagateUncertainties(inputs, uncertainties).films, thetaRms: kept.thetaRms, thetaRmsError: kept.thetaRmsError };
+  };
+  const axes = groups.some(g => g.axes) ? { x: forAxis('x'), y: forAxis('y') } : null;
+
+  const results: AnalysisSummary[] = groups.map((g, i) => {
+    const p = propagation.films[i];
+    return {
+      sampleId: g.filmIds[0],
+      distance: g.distance,
+      sigmaAir: measurements[i].sigmaAir,
+      sigmaMaterial: g.measurement.sigmaMaterial,
+      sigmaCorrected: p.sigmaCorrected,
+      theta: p.theta,
+      theoreticalSigma: theoreticalTheta * g.distance,
+      sigmaAirError: measurements[i].sigmaAirError,
+      sigmaMaterialError: g.measurement.sigmaMaterialError,
+      sigmaCorrectedError: p.sigmaCorrectedError,
+      thetaError: p.thetaError,
+      filmCount: g.filmIds.length,
+      sigmaAirStd: g.sigmaAirStd,
+      sigmaMaterialStd: g.sigmaMaterialStd,
+      airFromBaseline: airBaseline !== null,
+      flags: distanceFlags(
+        films.filter(f => g.filmIds.includes(f.id)),
+        measurements[i].sigmaAir,
+        g.measurement.sigmaMaterial,
+        airBaseline === null
+      ),
+      excluded: excluded[i],
+      ...(g.axes && axes ? {
+        sigmaAirX: axes.x.inputs[i].sigmaAir,
+        sigmaAirY: axes.y.inputs[i].sigmaAir,
+        sigmaMaterialX: g.axes.x.sigmaMaterial,
+        sigmaMaterialY: g.axes.y.sigmaMaterial,
+        sigmaCorrectedX: axes.x.films[i].sigmaCorrected,
+        sigmaCorrectedXError: axes.x.films[i].sigmaCorrectedError,
+        sigmaCorrectedY: axes.y.films[i].sigmaCorrected,
+        sigmaCorrectedYError: axes.y.films[i].sigmaCorrectedError,
+        sigmaRatio: axes.y.films[i].sigmaCorrected > 0
+          ? axes.x.films[i].sigmaCorrected / axes.y.films[i].sigmaCorrected
+          : 0,
+        thetaX: axes.x.films[i].theta,
+        thetaXError: axes.x.films[i].thetaError,
+        thetaY: axes.y.films[i].theta,
+        thetaYError: axes.y.films[i].thetaError
+      } : {})
+    };
+  });
+
+  // Straight-line fit of sigma_corrected vs L; its slope is an alternative estimate of theta
+  const linearFit = fitLine(results
+    .filter(r => r.sigmaCorrected > 0 && !r.excluded)
+    .map(r => ({ x: r.distance, y: r.sigmaCorrected, yError: r.sigmaCorrectedError })), fitModel);
+
+  return {
+    results,
+    thetaRms: included.thetaRms,
+    thetaRmsError: included.thetaRmsError,
+    axisThetaRms: axes && {
+      x: { value: axes.x.thetaRms, error: axes.x.thetaRmsError },
+      y: { value: axes.y.thetaRms, error: axes.y.thetaRmsError }
+    },
+    linearFit
+  };
+};
@@ -0,0 +1,390 @@
+import { RgbaImage, ScaledImage } from '../types';
+import { reduceImage } from './physics';
+
+/**
+ * Baseline TIFF reader for film scanner output: 8/16 bits per sample, grey or RGB
+ * (24/48-bit), strips or tiles, uncompressed, LZW, deflate or PackBits, horizontal
+ * predictor, and multi-page files. DOM-free apart from DecompressionStream (browsers, Node 18+).
+ */
+
+export class TiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiffError';
+  }
+}
+
+export interface TiffPage {
+  index: number;
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  photometric: number; // 0 WhiteIsZero, 1 BlackIsZero, 2 RGB
+  compression: number;
+  predictor: number;
+  planar: number; // 1 chunky (RGBRGB…), 2 separate planes
+  reducedResolution: boolean; // thumbnail/preview subfile
+  dpi: { x: number; y: number } | null;
+  tile: { width: number; height: number } | null;
+  rowsPerStrip: number;
+  offsets: number[]; // strip or tile offsets
+  byteCounts: number[];
+}
+
+const TAG = {
+  NEW_SUBFILE_TYPE: 254,
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  X_RESOLUTION: 282,
+  Y_RESOLUTION: 283,
+  PLANAR_CONFIGURATION: 284,
+  RESOLUTION_UNIT: 296,
+  PREDICTOR: 317,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  SAMPLE_FORMAT: 339
+};
+
+const COMPRESSION = { NONE: 1, LZW: 5, DEFLATE: 8, ADOBE_DEFLATE: 32946, PACKBITS: 32773 };
+
+// Bytes per value for each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, SBYTE, UNDEFINED, SSHORT, SLONG, SRATIONAL, FLOAT, DOUBLE)
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const MAX_PAGES = 1000;
+
+export const isTiff = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+
+const readValues = (view: DataView, entry: number, little: boolean): number[] => {
+  const type = view.getUint16(entry + 2, little);
+  const count = view.getUint32(entry + 4, little);
+  const size = TYPE_SIZE[type];
+  if (!size) return [];
+  const start = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+  if (start + size * count > view.byteLength) throw new TiffError('The TIFF file is truncated.');
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = start + i * size;
+    switch (type) {
+      case 3: values.push(view.getUint16(at, little)); break;
+      case 4: values.push(view.getUint32(at, little)); break;
+      case 5: values.push(view.getUint32(at, little) / view.getUint32(at + 4, little)); break;
+      case 8: values.push(view.getInt16(at, little)); break;
+      case 9: values.push(view.getInt32(at, little)); break;
+      case 10: values.push(view.getInt32(at, little) / view.getInt32(at + 4, little)); break;
+      case 11: values.push(view.getFloat32(at, little)); break;
+      case 12: values.push(view.getFloat64(at, little)); break;
+      default: values.push(view.getUint8(at));
+    }
+  }
+  return values;
+};
+
+/**
+ * Resolution in dots per inch from the X/YResolution and ResolutionUnit tags.
+ */
+const readDpi = (tags: Map<number, number[]>): TiffPage['dpi'] => {
+  const x = tags.get(TAG.X_RESOLUTION)?.[0];
+  const y = tags.get(TAG.Y_RESOLUTION)?.[0] ?? x;
+  const unit = tags.get(TAG.RESOLUTION_UNIT)?.[0] ?? 2;
+  if (!x || !y || !Number.isFinite(x) || !Number.isFinite(y) || unit === 1) return null;
+  const perInch = unit === 3 ? 2.54 : 1;
+  return { x: x * perInch, y: y * perInch };
+};
+
+/**
+ * Lists the pages (image file directories) of a TIFF file.
+ */
+export const readTiffPages = (buffer: ArrayBuffer): TiffPage[] => {
+  const bytes = new Uint8Array(buffer);
+  if (!isTiff(bytes)) throw new TiffError('Not a TIFF file (BigTIFF is not supported).');
+  const view = new DataView(buffer);
+  const little = bytes[0] === 0x49;
+
+  const pages: TiffPage[] = [];
+  const visited = new Set<number>();
+  let offset = view.getUint32(4, little);
+  while (offset !== 0 && pages.length < MAX_PAGES) {
+    if (visited.has(offset) || offset + 2 > view.byteLength) throw new TiffError('The TIFF file has a corrupt page directory.');
+    visited.add(offset);
+
+    const count = view.getUint16(offset, little);
+    const tags = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      tags.set(view.getUint16(entry, little), readValues(view, entry, little));
+    }
+
+    if ((tags.get(TAG.SAMPLE_FORMAT)?.[0] ?? 1) !== 1) {
+      throw new TiffError('Only unsigned integer TIFF samples are supported.');
+    }
+    const width = tags.get(TAG.IMAGE_WIDTH)?.[0] ?? 0;
+    const height = tags.get(TAG.IMAGE_LENGTH)?.[0] ?? 0;
+    const tiled = tags.has(TAG.TILE_OFFSETS);
+    pages.push({
+      index: pages.length,
+      width,
+      height,
+      bitsPerSample: tags.get(TAG.BITS_PER_SAMPLE)?.[0] ?? 1,
+      samplesPerPixel: tags.get(TAG.SAMPLES_PER_PIXEL)?.[0] ?? 1,
+      photometric: tags.get(TAG.PHOTOMETRIC)?.[0] ?? 1,
+      compression: tags.get(TAG.COMPRESSION)?.[0] ?? COMPRESSION.NONE,
+      predictor: tags.get(TAG.PREDICTOR)?.[0] ?? 1,
+      planar: tags.get(TAG.PLANAR_CONFIGURATION)?.[0] ?? 1,
+      reducedResolution: ((tags.get(TAG.NEW_SUBFILE_TYPE)?.[0] ?? 0) & 1) === 1,
+      dpi: readDpi(tags),
+      tile: tiled ? { width: tags.get(TAG.TILE_WIDTH)?.[0] ?? 0, height: tags.get(TAG.TILE_LENGTH)?.[0] ?? 0 } : null,
+      rowsPerStrip: Math.min(tags.get(TAG.ROWS_PER_STRIP)?.[0] ?? height, height),
+      offsets: tags.get(tiled ? TAG.TILE_OFFSETS : TAG.STRIP_OFFSETS) ?? [],
+      byteCounts: tags.get(tiled ? TAG.TILE_BYTE_COUNTS : TAG.STRIP_BYTE_COUNTS) ?? []
+    });
+    offset = view.getUint32(offset + 2 + count * 12, little);
+  }
+  return pages;
+};
+
+/**
+ * Pages holding a full-resolution image (thumbnails and previews are skipped).
+ */
+export const fullResolutionPages = (pages: TiffPage[]): TiffPage[] => {
+  const full = pages.filter(p => !p.reducedResolution);
+  return full.length > 0 ? full : pages;
+};
+
+/**
+ * TIFF LZW (MSB-first codes, 9-12 bits, code width grows one code early).
+ */
+const lzwDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const CLEAR = 256, EOI = 257;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  let out = new Uint8Array(Math.max(expected, 1024));
+  let pos = 0;
+  const write = (code: number) => {
+    const len = length[code];
+    if (pos + len > out.length) {
+      const grown = new Uint8Array(Math.max(out.length * 2, pos + len));
+      grown.set(out);
+      out = grown;
+    }
+    for (let i = len - 1, c = code; i >= 0; i--, c = prefix[c]) out[pos + i] = suffix[c];
+    pos += len;
+  };
+
+  let bitPos = 0;
+  const totalBits = input.length * 8;
+  const read = (bits: number): number => {
+    if (bitPos + bits > totalBits) return EOI;
+    let value = 0;
+    for (let i = 0; i < bits; i++, bitPos++) {
+      value = (value << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    return value;
+  };
+
+  let codeLength = 9;
+  let next = 258;
+  let old = -1;
+  for (;;) {
+    const code = read(codeLength);
+    if (code === EOI) break;
+    if (code === CLEAR) {
+      codeLength = 9;
+      next = 258;
+      old = -1;
+      continue;
+    }
+    if (old < 0) {
+      if (code >= 256) throw new TiffError('Corrupt LZW data in TIFF.');
+      write(code);
+      old = code;
+      continue;
+    }
+    const known = code < next;
+    if (!known && code !== next) throw new TiffError('Corrupt LZW data in TIFF.');
+    if (next < 4096) {
+      prefix[next] = old;
+      suffix[next] = known ? first[code] : first[old];
+      first[next] = first[old];
+      length[next] = length[old] + 1;
+      next++;
+    }
+    write(code);
+    old = code;
+    if (next + 1 >= 1 << codeLength && codeLength < 12) codeLength++;
+  }
+  return out.subarray(0, pos);
+};
+
+const packBitsDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0, pos = 0;
+  while (i < input.length && pos < expected) {
+    const n = (input[i++] << 24) >> 24; // signed byte
+    if (n >= 0) {
+      out.set(input.subarray(i, i + n + 1).subarray(0, expected - pos), pos);
+      pos += n + 1;
+      i += n + 1;
+    } else if (n !== -128) {
+      out.fill(input[i++], pos, Math.min(expected, pos + 1 - n));
+      pos += 1 - n;
+    }
+  }
+  return out;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (page: TiffPage, input: Uint8Array, expected: number): Promise<Uint8Array> => {
+  switch (page.compression) {
+    case COMPRESSION.NONE: return input;
+    case COMPRESSION.LZW: return lzwDecode(input, expected);
+    case COMPRESSION.DEFLATE:
+    case COMPRESSION.ADOBE_DEFLATE: return inflate(input);
+    case COMPRESSION.PACKBITS: return packBitsDecode(input, expected);
+    default: throw new TiffError(`TIFF compression ${page.compression} is not supported (use uncompressed, LZW or deflate).`);
+  }
+};
+
+/**
+ * Decodes one page to RGBA on the 0-255 scale. 16-bit samples keep their precision as
+ * fractional values, so the result is a Float32Array rather than 8-bit ImageData.
+ */
+export const decodeTiffPage = async (buffer: ArrayBuffer, page: TiffPage): Promise<RgbaImage> => {
+  const { width, height, bitsPerSample: bits, samplesPerPixel: spp, photometric, planar } = page;
+  if (bits !== 8 && bits !== 16) throw new TiffError(`${bits}-bit TIFF samples are not supported (8 or 16 bits per channel).`);
+  if (photometric > 2 || (photometric === 2 && spp < 3)) {
+    throw new TiffError('Only greyscale and RGB TIFF scans are supported.');
+  }
+  if (page.predictor !== 1 && page.predictor !== 2) throw new TiffError(`TIFF predictor ${page.predictor} is not supported.`);
+  if (width === 0 || height === 0 || page.offsets.length === 0) throw new TiffError('The TIFF page has no image data.');
+
+  const little = new Uint8Array(buffer, 0, 1)[0] === 0x49;
+  const maxValue = 2 ** bits - 1;
+  const toByteScale = 255 / maxValue;
+  const colour = photometric === 2;
+  const channels = colour ? 3 : 1;
+  const out = new Float32Array(width * height * 4);
+  for (let p = 0; p < width * height; p++) out[p * 4 + 3] = 255;
+
+  const chunkWidth = page.tile?.width ?? width;
+  const chunkHeight = page.tile?.height ?? page.rowsPerStrip;
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const perPlane = across * down;
+  const samplesInChunk = planar === 2 ? 1 : spp;
+  const rowBytes = Math.ceil((chunkWidth * samplesInChunk * bits) / 8);
+  const row = new Uint32Array(chunkWidth * samplesInChunk);
+
+  for (let chunk = 0; chunk < page.offsets.length; chunk++) {
+    const plane = planar === 2 ? Math.floor(chunk / perPlane) : 0;
+    if (planar === 2 && plane >= channels) continue; // alpha/extra planes
+    const index = chunk % perPlane;
+    const x0 = (index % across) * chunkWidth;
+    const y0 = Math.floor(index / across) * chunkHeight;
+    const rows = page.tile ? chunkHeight : Math.min(chunkHeight, height - y0);
+
+    const start = page.offsets[chunk];
+    const raw = new Uint8Array(buffer, start, Math.min(page.byteCounts[chunk] ?? 0, buffer.byteLength - start));
+    const bytes = await decompress(page, raw, rowBytes * rows);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    for (let r = 0; r < rows && y0 + r < height; r++) {
+      const base = r * rowBytes;
+      if (base + rowBytes > bytes.length) break; // truncated strip: leave the rest black
+      for (let i = 0; i < row.length; i++) {
+        row[i] = bits === 8 ? bytes[base + i] : view.getUint16(base + 2 * i, little);
+      }
+      if (page.predictor === 2) {
+        for (let i = samplesInChunk; i < row.length; i++) row[i] = (row[i] + row[i - samplesInChunk]) & maxValue;
+      }
+      const y = y0 + r;
+      for (let c = 0; c < chunkWidth && x0 + c < width; c++) {
+        const o = (y * width + x0 + c) * 4;
+        for (let s = 0; s < samplesInChunk; s++) {
+          const channel = planar === 2 ? plane : s;
+          if (channel >= channels) continue;
+          let v = row[c * samplesInChunk + s];
+          if (photometric === 0) v = maxValue - v;
+          const scaled = v * toByteScale;
+          if (colour) out[o + channel] = scaled;
+          else out[o] = out[o + 1] = out[o + 2] = scaled;
+        }
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+// --- Data URL sources -------------------------------------------------------
+
+const PAGE_FRAGMENT = /#page=(\d+)$/;
+
+/**
+ * Scans are stored as data URLs; `#page=N` (1-based) selects a page of a multi-page
+ * TIFF. Browsers ignore the fragment, so the URL stays usable as is.
+ */
+export const withTiffPage = (src: string, page: number): string => `${src.replace(PAGE_FRAGMENT, '')}#page=${page + 1}`;
+
+const parseSource = (src: string): { url: string; page: number | null } => {
+  const match = src.match(PAGE_FRAGMENT);
+  return match ? { url: src.slice(0, match.index), page: parseInt(match[1], 10) - 1 } : { url: src, page: null };
+};
+
+/**
+ * True for TIFF data URLs, by MIME type or by the magic bytes (for files the OS didn't type).
+ */
+export const isTiffSource = (src: string): boolean => {
+  if (src.startsWith('data:image/tiff')) return true;
+  const comma = src.indexOf(',');
+  if (!src.startsWith('data:') || comma < 0 || !src.slice(0, comma).endsWith(';base64')) return false;
+  try {
+    const head = atob(src.slice(comma + 1, comma + 9));
+    return isTiff(Uint8Array.from(head, ch => ch.charCodeAt(0)));
+  } catch {
+    return false;
+  }
+};
+
+export const readTiffSource = async (src: string): Promise<{ buffer: ArrayBuffer; pages: TiffPage[]; page: TiffPage }> => {
+  const { url, page } = parseSource(src);
+  const buffer = await (await fetch(url)).arrayBuffer();
+  const pages = readTiffPages(buffer);
+  if (pages.length === 0) throw new TiffError('The TIFF file has no pages.');
+  const selected = page !== null ? pages[page] : fullResolutionPages(pages)[0];
+  if (!selected) throw new TiffError(`The TIFF file has no page ${page! + 1}.`);
+  return { buffer, pages, page: selected };
+};
+
+/**
+ * TIFF counterpart of loadImageData: decodes the selected page and reduces the longest
+ * edge to `maxSize` (0 = full resolution) without losing the extra bit depth.
+ */
+export const loadTiffImage = async (src: string, maxSize: number): Promise<ScaledImage> => {
+  const { buffer, page } = await readTiffSource(src);
+  return reduceImage(await decodeTiffPage(buffer, page), maxSize);
+};
@@ -0,0 +1,159 @@
+import { MeasurementUncertainties } from '../types';
+
+const MONTE_CARLO_SAMPLES = 4000;
+
+/**
+ * One film position as it enters the quadrature subtraction.
+ */
+export interface FilmMeasurement {
+  distance: number; // mm
+  sigmaAir: number; // mm
+  sigmaAirError: number; // mm, fit only
+  sigmaMaterial: number; // mm
+  sigmaMaterialError: number; // mm, fit only
+}
+
+export interface PropagatedFilm {
+  sigmaCorrected: number;
+  sigmaCorrectedError: number;
+  theta: number;
+  thetaError: number;
+}
+
+export interface PropagationResult {
+  films: PropagatedFilm[];
+  thetaRms: number;
+  thetaRmsError: number;
+}
+
+/**
+ * sigma_corrected = sqrt(sigma_mat^2 - sigma_air^2), clamped to 0 when material < air.
+ */
+export const quadratureSubtract = (sigmaMaterial: number, sigmaAir: number): number => {
+  const diffSq = sigmaMaterial * sigmaMaterial - sigmaAir * sigmaAir;
+  return diffSq > 0 ? Math.sqrt(diffSq) : 0;
+};
+
+/**
+ * RMS of the positive per-film angles.
+ */
+export const rmsTheta = (thetas: number[]): number => {
+  const valid = thetas.filter(t => t > 0);
+  if (valid.length === 0) return 0;
+  return Math.sqrt(valid.reduce((sum, t) => sum + t * t, 0) / valid.length);
+};
+
+/**
+ * Linear error propagation.
+ * Fit and distance errors are independent per film; the pixel-scale error is common to all
+ * films and scales every sigma (and therefore θ_RMS) by the same factor.
+ * Where material ≤ air the derivative is undefined, so the 1σ upper excursion
+ * sqrt((m + δm)² - (a - δa)²) is reported instead.
+ */
+const propagateAnalytic = (inputs: FilmMeasurement[], u: MeasurementUncertainties): PropagationResult => {
+  const k = u.pixelScale / 100;
+
+  const films = inputs.map(f => {
+    const m = f.sigmaMaterial, a = f.sigmaAir;
+    const sc = quadratureSubtract(m, a);
+    let fitPart: number;
+    if (sc > 0) {
+      fitPart = Math.hypot(m * f.sigmaMaterialError / sc, a * f.sigmaAirError / sc);
+    } else {
+      fitPart = quadratureSubtract(m + f.sigmaMaterialError, Math.max(a - f.sigmaAirError, 0));
+    }
+    const sigmaCorrectedError = Math.hypot(fitPart, sc * k);
+
+    const L = f.distance;
+    const theta = L > 0 ? sc / L : 0;
+    const thetaIndependent = L > 0 ? Math.hypot(fitPart / L, theta * u.distance / L) : 0;
+    return {
+      sigmaCorrected: sc,
+      sigmaCorrectedError,
+      theta,
+      thetaError: Math.hypot(thetaIndependent, theta * k),
+      thetaIndependent
+    };
+  });
+
+  const thetaRms = rmsTheta(films.map(f => f.theta));
+  const valid = films.filter(f => f.theta > 0);
+  let thetaRmsError = 0;
+  if (thetaRms > 0) {
+    // d(θ_RMS)/dθ_i = θ_i / (n θ_RMS)
+    const n = valid.length;
+    const independent = Math.sqrt(valid.reduce((s, f) => s + (f.theta * f.thetaIndependent / (n * thetaRms)) ** 2, 0));
+    thetaRmsError = Math.hypot(independent, thetaRms * k);
+  }
+
+  return {
+    films: films.map(({ thetaIndependent, ...rest }) => rest),
+    thetaRms,
+    thetaRmsError
+  };
+};
+
+/**
+ * Standard normal deviate (Box–Muller).
+ */
+const gaussianRandom = (): number => {
+  let u = 0;
+  while (u === 0) u = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+};
+
+const meanAndStd = (values: number[]) => {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(values.length - 1, 1);
+  return { mean, std: Math.sqrt(variance) };
+};
+
+/**
+ * Monte Carlo propagation: every sample redraws the fitted widths and distances per film
+ * and one common pixel-scale factor, then reruns the subtraction and the RMS.
+ * Central values are the unperturbed ones; errors are the sample standard deviations.
+ */
+const propagateMonteCarlo = (inputs: FilmMeasurement[], u: MeasurementUncertainties): PropagationResult => {
+  const k = u.pixelScale / 100;
+  const sigmaSamples = inputs.map(() => [] as number[]);
+  const thetaSamples = inputs.map(() => [] as number[]);
+  const rmsSamples: number[] = [];
+
+  for (let s = 0; s < MONTE_CARLO_SAMPLES; s++) {
+    const scale = 1 + k * gaussianRandom();
+    const thetas = inputs.map((f, i) => {
+      const m = (f.sigmaMaterial + f.sigmaMaterialError * gaussianRandom()) * scale;
+      const a = (f.sigmaAir + f.sigmaAirError * gaussianRandom()) * scale;
+      const L = f.distance + u.distance * gaussianRandom();
+      const sc = quadratureSubtract(m, a);
+      const theta = L > 0 ? sc / L : 0;
+      sigmaSamples[i].push(sc);
+      thetaSamples[i].push(theta);
+      return theta;
+    });
+    rmsSamples.push(rmsTheta(thetas));
+  }
+
+  const films = inputs.map((f, i) => {
+    const sigmaCorrected = quadratureSubtract(f.sigmaMaterial, f.sigmaAir);
+    return {
+      sigmaCorrected,
+      sigmaCorrectedError: meanAndStd(sigmaSamples[i]).std,
+      theta: f.distance > 0 ? sigmaCorrected / f.distance : 0,
+      thetaError: meanAndStd(thetaSamples[i]).std
+    };
+  });
+
+  return {
+    films,
+    thetaRms: rmsTheta(films.map(f => f.theta)),
+    thetaRmsError: meanAndStd(rmsSamples).std
+  };
+};
+
+/**
+ * Propagates fit, distance and pixel-scale uncertainties into sigma_corrected, θ and θ_RMS.
+ */
+export const propagateUncertainties = (inputs: FilmMeasurement[], u: MeasurementUncertainties): PropagationResult => {
+  return u.method === 'monteCarlo' ? propagateMonteCarlo(inputs, u) : propagateAnalytic(inputs, u);
+};
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Headless command-line build: `npm run build:cli`, then `node dist-cli/bbsa.js analyze ...`
+export default defineConfig({
+  build: {
+    ssr: 'cli/bbsa.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'bbsa.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});